@@ -1,6 +1,7 @@
 /**
  * Benchmark entry point – discovers all models from the Foundry Local catalog,
- * tests each for non-streaming and streaming support, and produces
+ * tests each for non-streaming, streaming, legacy completions streaming and
+ * structured output support with every scenario of the prompt suite, and produces
  * benchmark-report.json + a console summary table.
  *
  * Usage:
@@ -13,7 +14,19 @@ import { resolve } from "node:path";
 import { loadConfig } from "../config";
 import { detectFoundryService, formatServiceInfo } from "../service/detect";
 import { fetchModelCatalog } from "../models/catalog";
-import { testNonStreaming, testStreaming } from "./runner";
+import {
+  testNonStreaming,
+  testStreaming,
+  testCompletionsStreaming,
+  testStructuredOutput,
+  deriveVerdict,
+  deriveStreamingApis,
+  deriveStructuredStreaming,
+  countModels,
+} from "./runner";
+import { DEFAULT_BENCHMARK_SUITE, loadPromptSuite } from "../prompts/suite";
+import { loadClientProfile, profileLabel } from "../prompts/client-profiles";
+import type { PromptSuite } from "../types";
 import type { BenchmarkReport, ModelBenchmarkEntry } from "./types";
 
 const REPORT_PATH = resolve(process.cwd(), "benchmark-report.json");
@@ -26,6 +39,15 @@ async function main(): Promise<void> {
 
   const cfg = loadConfig();
 
+  let suite: PromptSuite;
+  try {
+    suite = loadPromptSuite(cfg.promptSuite, DEFAULT_BENCHMARK_SUITE);
+    cfg.clientProfile = loadClientProfile(cfg.copilotClientProfile);
+  } catch (err) {
+    console.error(`  ❌  ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
   // ── Auto-detect service if no URL configured ───────────
   if (!cfg.foundryBaseUrl) {
     console.log("  ℹ  Auto-detecting Foundry Local service...\n");
@@ -40,7 +62,9 @@ async function main(): Promise<void> {
     cfg.foundryBaseUrl = svc.baseUrl;
   }
 
-  console.log(`  Base URL: ${cfg.foundryBaseUrl}\n`);
+  console.log(`  Base URL: ${cfg.foundryBaseUrl}`);
+  console.log(`  Prompt suite: ${suite.name} (${suite.scenarios.map((s) => s.name).join(", ")})`);
+  console.log(`  Client profile: ${profileLabel(cfg.clientProfile)}\n`);
 
   // ── Fetch model catalog ────────────────────────────────
   console.log("  📋  Fetching model catalog...\n");
@@ -73,51 +97,90 @@ async function main(): Promise<void> {
 
     console.log(`\n─── ${label} ───────────────────────────────────────\n`);
 
-    // Non-streaming test
-    console.log(`  ▸ Testing non-streaming (stream:false)...`);
-    const nsResult = await testNonStreaming(cfg, modelId);
-    const nsIcon = nsResult.outcome === "OK" ? "✅" : "❌";
-    console.log(
-      `    ${nsIcon} ${nsResult.outcome}  (${nsResult.timings.totalMs} ms)` +
-        (nsResult.tokenPreview ? `  "${nsResult.tokenPreview.slice(0, 60)}…"` : ""),
-    );
+    for (const scenario of suite.scenarios) {
+      const scenarioCfg = { ...cfg, scenario };
+      if (suite.scenarios.length > 1) console.log(`  Scenario: ${scenario.name}`);
+
+      // Non-streaming test
+      console.log(`  ▸ Testing non-streaming (stream:false)...`);
+      const nsResult = await testNonStreaming(scenarioCfg, modelId);
+      const nsIcon = nsResult.outcome === "OK" ? "✅" : "❌";
+      console.log(
+        `    ${nsIcon} ${nsResult.outcome}  (${nsResult.timings.totalMs} ms)` +
+          (nsResult.tokenPreview ? `  "${nsResult.tokenPreview.slice(0, 60)}…"` : ""),
+      );
+
+      // Streaming test
+      console.log(
+        `  ▸ Testing streaming (stream:true${cfg.copilotWireApi === "responses" ? ", POST /responses" : ""})...`,
+      );
+      const sResult = await testStreaming(scenarioCfg, modelId);
+      const sIcon = sResult.outcome === "OK" ? "✅" : sResult.outcome === "NON_CONFORMANT" ? "⚠️" : "❌";
+      console.log(
+        `    ${sIcon} ${sResult.outcome}  (${sResult.timings.totalMs} ms)` +
+          (sResult.chunkCount !== undefined ? `  chunks=${sResult.chunkCount}` : "") +
+          (sResult.doneReceived !== undefined ? `  done=${sResult.doneReceived}` : "") +
+          (sResult.timings.tokensPerSec !== undefined ? `  tok/s=${sResult.timings.tokensPerSec}` : "") +
+          (sResult.tokenPreview ? `  "${sResult.tokenPreview.slice(0, 60)}…"` : ""),
+      );
+      if (sResult.buffering) {
+        console.log(
+          `      ⚠ Buffered: ${Math.round(sResult.buffering.burstRatio * 100)}% of chunks arrived within ` +
+            `${sResult.buffering.burstWindowMs} ms`,
+        );
+      }
+      for (const v of sResult.conformanceViolations ?? []) {
+        console.log(`      ⚠ ${v.rule}: ${v.message}`);
+      }
+      for (const v of sResult.responses?.violations ?? []) {
+        console.log(`      ⚠ ${v}`);
+      }
 
-    // Streaming test
-    console.log(`  ▸ Testing streaming (stream:true)...`);
-    const sResult = await testStreaming(cfg, modelId);
-    const sIcon = sResult.outcome === "OK" ? "✅" : "❌";
-    console.log(
-      `    ${sIcon} ${sResult.outcome}  (${sResult.timings.totalMs} ms)` +
-        (sResult.chunkCount !== undefined ? `  chunks=${sResult.chunkCount}` : "") +
-        (sResult.doneReceived !== undefined ? `  done=${sResult.doneReceived}` : "") +
-        (sResult.tokenPreview ? `  "${sResult.tokenPreview.slice(0, 60)}…"` : ""),
-    );
+      // Legacy completions streaming test
+      console.log(`  ▸ Testing legacy completions streaming (POST /completions, stream:true)...`);
+      const cResult = await testCompletionsStreaming(scenarioCfg, modelId);
+      const cIcon = cResult.outcome === "OK" ? "✅" : cResult.outcome === "NON_CONFORMANT" ? "⚠️" : "❌";
+      console.log(
+        `    ${cIcon} ${cResult.outcome}  (${cResult.timings.totalMs} ms)` +
+          (cResult.chunkCount !== undefined ? `  chunks=${cResult.chunkCount}` : "") +
+          (cResult.error ? `  ${cResult.error.slice(0, 80)}` : ""),
+      );
+      for (const v of cResult.completions?.violations ?? []) {
+        console.log(`      ⚠ ${v}`);
+      }
 
-    // Determine verdict
-    const nsOk = nsResult.outcome === "OK";
-    const sOk = sResult.outcome === "OK";
-    let verdict: ModelBenchmarkEntry["verdict"];
-    if (nsOk && sOk) verdict = "BOTH_OK";
-    else if (nsOk && !sOk) verdict = "STREAM_ONLY_FAIL";
-    else if (!nsOk && sOk) verdict = "NON_STREAM_FAIL";
-    else verdict = "BOTH_FAIL";
-
-    entries.push({
-      model: modelId,
-      nonStreaming: nsResult,
-      streaming: sResult,
-      supportsStreaming: sOk,
-      verdict,
-    });
+      // Structured output test
+      console.log(`  ▸ Testing structured output (response_format, stream:false and stream:true)...`);
+      const structuredOutput = await testStructuredOutput(scenarioCfg, modelId);
+      for (const v of structuredOutput.variants) {
+        const mark = (a: typeof v.streaming) => (a.honoured ? "✅" : `❌ ${a.outcome === "OK" ? "ignored" : a.outcome}`);
+        console.log(
+          `    ${v.format.padEnd(11)}  stream:false ${mark(v.nonStreaming)}  stream:true ${mark(v.streaming)}` +
+            (v.streaming.formatErrors.length > 0 ? `  ${v.streaming.formatErrors[0].slice(0, 60)}` : ""),
+        );
+      }
+
+      entries.push({
+        model: modelId,
+        scenario: scenario.name,
+        nonStreaming: nsResult,
+        streaming: sResult,
+        completionsStreaming: cResult,
+        structuredOutput,
+        ...deriveVerdict(nsResult, sResult),
+        ...deriveStreamingApis(sResult, cResult),
+        ...deriveStructuredStreaming(structuredOutput),
+      });
+    }
   }
 
   // ── Build report ───────────────────────────────────────
   const report: BenchmarkReport = {
     timestamp: new Date().toISOString(),
     foundryBaseUrl: cfg.foundryBaseUrl,
-    totalModels: entries.length,
-    modelsWithStreaming: entries.filter((e) => e.supportsStreaming).length,
-    modelsWithoutStreaming: entries.filter((e) => !e.supportsStreaming).length,
+    promptSuite: cfg.promptSuite || suite.name,
+    clientProfile: profileLabel(cfg.clientProfile),
+    ...countModels(entries),
     entries,
   };
 
@@ -133,39 +196,60 @@ async function main(): Promise<void> {
 }
 
 function printBenchmarkSummary(report: BenchmarkReport): void {
-  const sep = "═".repeat(90);
-  const thin = "─".repeat(90);
+  const sep = "═".repeat(136);
+  const thin = "─".repeat(136);
 
   console.log(sep);
   console.log("  BENCHMARK SUMMARY");
-  console.log(`  ${report.timestamp}    Base: ${report.foundryBaseUrl}`);
+  console.log(`  ${report.timestamp}    Base: ${report.foundryBaseUrl}    Prompt suite: ${report.promptSuite}`);
   console.log(sep);
   console.log();
 
   // Table header
   const pad = (s: string, n: number) => s.padEnd(n);
   const rpad = (s: string, n: number) => s.padStart(n);
+  // One row per model × scenario; the Scenario column only when the suite has several
+  const multiScenario = new Set(report.entries.map((e) => e.scenario)).size > 1;
+  const scenarioCell = (s: string) => (multiScenario ? `${pad(s, 20)} ` : "");
 
   console.log(
-    `  ${pad("Model", 30)} ${pad("Non-Stream", 14)} ${pad("Streaming", 14)} ${pad("Chunks", 8)} ${pad("TTFB", 8)} ${pad("1st Evt", 8)} Verdict`,
+    `  ${pad("Model", 30)} ${scenarioCell("Scenario")}${pad("Non-Stream", 14)} ${pad("Streaming", 14)} ${pad("Completions", 15)} ${pad("JSON ns/s", 11)} ${pad("Chunks", 8)} ${pad("TTFB", 8)} ${pad("1st Evt", 8)} ${pad("p95 Gap", 8)} ${pad("Tok/s", 7)} Verdict`,
   );
   console.log("  " + thin.slice(2));
 
   for (const e of report.entries) {
     const nsStatus = e.nonStreaming.outcome === "OK" ? "✅ OK" : `❌ ${e.nonStreaming.outcome}`;
-    const sStatus = e.streaming.outcome === "OK" ? "✅ OK" : `❌ ${e.streaming.outcome}`;
+    const sStatus =
+      e.streaming.outcome === "OK"
+        ? "✅ OK"
+        : `${e.streaming.outcome === "NON_CONFORMANT" ? "⚠️" : "❌"} ${e.streaming.outcome}`;
+    const cStatus =
+      e.completionsStreaming.outcome === "OK"
+        ? "✅ OK"
+        : `${e.completionsStreaming.outcome === "NON_CONFORMANT" ? "⚠️" : "❌"} ${e.completionsStreaming.outcome}`;
+    const so = e.structuredOutput;
+    const jsonStatus = `${so.nonStreamingHonoured ? "✅" : "❌"} / ${so.streamingHonoured ? "✅" : "❌"}`;
     const chunks = e.streaming.chunkCount !== undefined ? String(e.streaming.chunkCount) : "–";
     const ttfb = e.streaming.timings.ttfbMs !== undefined ? `${e.streaming.timings.ttfbMs}ms` : "–";
     const firstEvt =
       e.streaming.timings.firstEventMs !== undefined
         ? `${e.streaming.timings.firstEventMs}ms`
         : "–";
+    const p95Gap = e.streaming.timings.chunkGaps ? `${e.streaming.timings.chunkGaps.p95Ms}ms` : "–";
+    const tps =
+      e.streaming.timings.tokensPerSec !== undefined ? String(e.streaming.timings.tokensPerSec) : "–";
 
     let verdictIcon: string;
     switch (e.verdict) {
       case "BOTH_OK":
         verdictIcon = "🎉 BOTH_OK";
         break;
+      case "BUFFERED":
+        verdictIcon = "⚠️  BUFFERED";
+        break;
+      case "STREAM_NON_CONFORMANT":
+        verdictIcon = "⚠️  NON_CONFORM";
+        break;
       case "STREAM_ONLY_FAIL":
         verdictIcon = "⚠️  STREAM_FAIL";
         break;
@@ -178,7 +262,7 @@ function printBenchmarkSummary(report: BenchmarkReport): void {
     }
 
     console.log(
-      `  ${pad(e.model, 30)} ${pad(nsStatus, 14)} ${pad(sStatus, 14)} ${rpad(chunks, 6)}  ${rpad(ttfb, 7)} ${rpad(firstEvt, 7)}  ${verdictIcon}`,
+      `  ${pad(e.model, 30)} ${scenarioCell(e.scenario)}${pad(nsStatus, 14)} ${pad(sStatus, 14)} ${pad(cStatus, 15)} ${pad(jsonStatus, 9)} ${rpad(chunks, 6)}  ${rpad(ttfb, 7)} ${rpad(firstEvt, 7)}  ${rpad(p95Gap, 7)} ${rpad(tps, 6)}  ${verdictIcon}`,
     );
   }
 
@@ -187,15 +271,27 @@ function printBenchmarkSummary(report: BenchmarkReport): void {
   console.log(
     `  Total: ${report.totalModels} models | ` +
       `✅ Streaming OK: ${report.modelsWithStreaming} | ` +
-      `❌ Streaming FAIL: ${report.modelsWithoutStreaming}`,
+      `❌ Streaming FAIL: ${report.modelsWithoutStreaming} | ` +
+      `Completions streaming OK: ${report.modelsWithCompletionsStreaming} | ` +
+      `JSON mode streaming OK: ${report.modelsWithStructuredStreaming}`,
+  );
+
+  const apiCounts = ["BOTH", "CHAT_ONLY", "COMPLETIONS_ONLY", "NEITHER"].map(
+    (apis) => `${apis}: ${report.entries.filter((e) => e.streamingApis === apis).length}`,
+  );
+  console.log(`  Streaming endpoints – ${apiCounts.join(" | ")}`);
+  const structuredCounts = ["BOTH", "JSON_OBJECT_ONLY", "JSON_SCHEMA_ONLY", "NONE"].map(
+    (formats) => `${formats}: ${report.entries.filter((e) => e.structuredStreaming === formats).length}`,
   );
+  console.log(`  Structured output while streaming – ${structuredCounts.join(" | ")}`);
 
   if (report.modelsWithoutStreaming > 0) {
     console.log();
     console.log("  ⚠️  Models WITHOUT streaming support:");
     for (const e of report.entries) {
       if (!e.supportsStreaming) {
-        console.log(`       • ${e.model}: ${e.streaming.outcome} – ${e.streaming.error ?? "no SSE events"}`);
+        const which = multiScenario ? ` [${e.scenario}]` : "";
+        console.log(`       • ${e.model}${which}: ${e.streaming.outcome} – ${e.streaming.error ?? "no SSE events"}`);
       }
     }
   }
@@ -5,23 +5,31 @@
  * For each model:
  *   1) POST /chat/completions with stream:false → records outcome + timing
  *   2) POST /chat/completions with stream:true  → records outcome + timing + chunks
+ *      (POST /responses instead when COPILOT_WIRE_API=responses, so the
+ *      streaming verdict reflects the protocol Copilot will use)
+ *   3) POST /completions with a prompt and stream:true → legacy text completions,
+ *      still used by some editors for inline suggestions
+ *   4) response_format json_object and json_schema, each with stream:false and
+ *      stream:true → whether structured output survives streaming
  *
- * Uses strict timeouts so no single model test can hang.
+ * Every request sends cfg.scenario – the current scenario of the benchmark's
+ * prompt suite. Uses strict timeouts so no single model test can hang.
  */
 
 import type { AppConfig } from "../config";
-import type { ChatCompletionRequest, ProbeTimings } from "../types";
-import type { ModelTestResult } from "./types";
+import type { ChatCompletionRequest, SSEAnomaly, StructuredOutputInfo } from "../types";
+import type { BenchmarkReport, ModelBenchmarkEntry, ModelTestResult } from "./types";
 import { Timer } from "../utils/timing";
 import { hashPayload } from "../utils/hash";
 import { parseSSE } from "../sse/parser";
-
-const BENCHMARK_MESSAGES = [
-  {
-    role: "user" as const,
-    content: "Count from 1 to 10, one number per line.",
-  },
-];
+import { ChunkConformanceChecker } from "../sse/conformance";
+import { ResponsesEventChecker, responsesOutcome } from "../sse/responses";
+import { TextCompletionChecker, textCompletionOutcome } from "../sse/text-completion";
+import { startGuards, outcomeForError } from "../probes/guards";
+import { completionsHttpError, completionsPayload } from "../probes/completions-streaming";
+import { checkStructuredOutput } from "../probes/structured-output";
+import { chatRequestFields } from "../prompts/suite";
+import { profileLabel, profileRequestFields, profileResponsesFields } from "../prompts/client-profiles";
 
 /**
  * Test a single model with stream:false.
@@ -37,9 +45,8 @@ export async function testNonStreaming(
   const url = `${cfg.foundryBaseUrl}/chat/completions`;
   const body: ChatCompletionRequest = {
     model,
-    messages: BENCHMARK_MESSAGES,
+    ...chatRequestFields(cfg.scenario),
     stream: false,
-    max_tokens: 128,
   };
 
   try {
@@ -116,52 +123,38 @@ export async function testStreaming(
   cfg: AppConfig,
   model: string,
 ): Promise<ModelTestResult> {
-  const timer = new Timer();
-  const controller = new AbortController();
-
-  let headersReceived = false;
-  let firstEventReceived = false;
-
-  const requestTimer = setTimeout(() => {
-    if (!controller.signal.aborted) controller.abort("REQUEST_TIMEOUT");
-  }, cfg.requestTimeoutMs);
+  if (cfg.copilotWireApi === "responses") return testResponsesStreaming(cfg, model);
 
-  const firstByteTimer = setTimeout(() => {
-    if (!headersReceived && !controller.signal.aborted) {
-      controller.abort("FIRST_BYTE_TIMEOUT");
-    }
-  }, cfg.firstByteTimeoutMs);
-
-  const firstEventTimer = setTimeout(() => {
-    if (!firstEventReceived && !controller.signal.aborted) {
-      controller.abort("FIRST_EVENT_TIMEOUT");
-    }
-  }, cfg.firstEventTimeoutMs);
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  let chunkCount = 0;
+  let lastEventMs: number | undefined;
 
   const url = `${cfg.foundryBaseUrl}/chat/completions`;
+  const profile = cfg.clientProfile;
   const body: ChatCompletionRequest = {
     model,
-    messages: BENCHMARK_MESSAGES,
+    ...profileRequestFields(profile, cfg.scenario),
     stream: true,
-    max_tokens: 128,
   };
 
   let httpStatus: number | undefined;
+  const sseAnomalies: SSEAnomaly[] = [];
 
   try {
     const res = await fetch(url, {
       method: "POST",
       headers: {
+        ...profile.headers,
         "Content-Type": "application/json",
         Accept: "text/event-stream",
         Authorization: `Bearer ${cfg.foundryApiKey}`,
       },
       body: JSON.stringify(body),
-      signal: controller.signal,
+      signal: guards.signal,
     });
 
-    headersReceived = true;
-    clearTimeout(firstByteTimer);
+    guards.onHeaders();
     timer.markTTFB();
     httpStatus = res.status;
 
@@ -171,6 +164,8 @@ export async function testStreaming(
       return {
         model,
         mode: "streaming",
+        wireApi: "completions",
+        clientProfile: profileLabel(profile),
         outcome: "FAIL",
         httpStatus,
         timings: timer.toTimings(),
@@ -183,6 +178,8 @@ export async function testStreaming(
       return {
         model,
         mode: "streaming",
+        wireApi: "completions",
+        clientProfile: profileLabel(profile),
         outcome: "FAIL",
         httpStatus,
         timings: timer.toTimings(),
@@ -190,70 +187,383 @@ export async function testStreaming(
       };
     }
 
-    let chunkCount = 0;
     let doneReceived = false;
     const tokenParts: string[] = [];
-
-    for await (const evt of parseSSE(res.body, controller.signal)) {
-      chunkCount++;
-
-      if (!firstEventReceived) {
-        firstEventReceived = true;
-        clearTimeout(firstEventTimer);
+    const checker = new ChunkConformanceChecker();
+
+    // Read on after [DONE] until the body ends, so the checker sees anything sent after it (DONE_NOT_LAST)
+    try {
+      for await (const evt of parseSSE(res.body, guards.signal, sseAnomalies)) {
+        if (doneReceived) {
+          checker.checkData(evt.data);
+          guards.onEvent();
+          continue;
+        }
+        chunkCount++;
+        lastEventMs = timer.elapsed();
+        guards.onEvent();
         timer.markFirstEvent();
-      }
 
-      if (evt.data === "[DONE]") {
-        doneReceived = true;
-        break;
-      }
-
-      try {
-        const parsed = JSON.parse(evt.data) as {
-          choices?: Array<{ delta?: { content?: string } }>;
-        };
-        const content = parsed.choices?.[0]?.delta?.content;
+        checker.checkData(evt.data);
+
+        if (evt.data === "[DONE]") {
+          doneReceived = true;
+          timer.stop();
+          continue;
+        }
+
+        let content: string | undefined;
+        try {
+          const parsed = JSON.parse(evt.data) as {
+            choices?: Array<{ delta?: { content?: string } }>;
+          };
+          content = parsed.choices?.[0]?.delta?.content;
+        } catch {
+          // skip
+        }
+        timer.markChunk(Boolean(content));
         if (content) tokenParts.push(content);
-      } catch {
-        // skip
       }
+    } catch (err: unknown) {
+      // The reply is complete – a body left open after it does not make streaming fail
+      if (!doneReceived) throw err;
     }
 
     timer.stop();
 
-    const outcome = doneReceived ? "OK" : chunkCount > 0 ? "FAIL" : "NO_FIRST_EVENT";
+    const conformanceViolations = checker.finish();
+    const outcome: ModelTestResult["outcome"] = doneReceived
+      ? conformanceViolations.length > 0 ? "NON_CONFORMANT" : "OK"
+      : chunkCount > 0 ? "FAIL" : "NO_FIRST_EVENT";
 
     return {
       model,
       mode: "streaming",
+      wireApi: "completions",
+      clientProfile: profileLabel(profile),
       outcome,
       httpStatus,
       timings: timer.toTimings(),
       chunkCount,
       doneReceived,
+      buffering: timer.detectBuffering(),
+      sseAnomalies,
+      conformanceViolations,
       tokenPreview: tokenParts.join("").slice(0, 200),
     };
   } catch (err: unknown) {
     timer.stop();
     const msg = err instanceof Error ? err.message : String(err);
 
-    let outcome: ModelTestResult["outcome"] = "ERROR";
-    if (msg.includes("FIRST_BYTE_TIMEOUT")) outcome = "NO_FIRST_BYTE";
-    else if (msg.includes("FIRST_EVENT_TIMEOUT")) outcome = "NO_FIRST_EVENT";
-    else if (msg.includes("REQUEST_TIMEOUT")) outcome = "TIMEOUT";
-    else if (msg.includes("AbortError") || msg.includes("aborted")) outcome = "TIMEOUT";
+    const outcome = outcomeForError(msg, guards.abortReason());
 
     return {
       model,
       mode: "streaming",
+      wireApi: "completions",
+      clientProfile: profileLabel(profile),
       outcome,
       httpStatus,
       timings: timer.toTimings(),
+      chunkCount: chunkCount > 0 ? chunkCount : undefined,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
+      sseAnomalies: sseAnomalies.length > 0 ? sseAnomalies : undefined,
       error: msg,
     };
   } finally {
-    clearTimeout(requestTimer);
-    clearTimeout(firstByteTimer);
-    clearTimeout(firstEventTimer);
+    guards.clear();
   }
 }
+
+/**
+ * Test a single model with POST /responses, stream:true (wire_api "responses").
+ */
+async function testResponsesStreaming(cfg: AppConfig, model: string): Promise<ModelTestResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const checker = new ResponsesEventChecker();
+  const tokenParts: string[] = [];
+  let httpStatus: number | undefined;
+  let chunkCount = 0;
+  let lastEventMs: number | undefined;
+
+  const profile = cfg.clientProfile;
+  const body = {
+    model,
+    ...profileResponsesFields(profile, cfg.scenario),
+    stream: true,
+  };
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/responses`, {
+      method: "POST",
+      headers: {
+        ...profile.headers,
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    timer.markTTFB();
+    httpStatus = res.status;
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "");
+      timer.stop();
+      return {
+        model,
+        mode: "streaming",
+        wireApi: "responses",
+        clientProfile: profileLabel(profile),
+        outcome: "FAIL",
+        httpStatus,
+        timings: timer.toTimings(),
+        error: `HTTP ${httpStatus}: ${errText.slice(0, 300)}`,
+      };
+    }
+
+    for await (const evt of parseSSE(res.body, guards.signal)) {
+      chunkCount++;
+      lastEventMs = timer.elapsed();
+      guards.onEvent();
+      timer.markFirstEvent();
+
+      const delta = checker.checkData(evt.event, evt.data);
+      timer.markChunk(Boolean(delta));
+      if (delta) tokenParts.push(delta);
+    }
+
+    timer.stop();
+    const responses = checker.finish();
+    if (responses.usage) timer.setCompletionTokens(responses.usage.completionTokens);
+
+    return {
+      model,
+      mode: "streaming",
+      wireApi: "responses",
+      clientProfile: profileLabel(profile),
+      ...responsesOutcome(responses),
+      httpStatus,
+      timings: timer.toTimings(),
+      chunkCount,
+      doneReceived: responses.terminalEvent === "response.completed",
+      buffering: timer.detectBuffering(),
+      responses,
+      tokenPreview: tokenParts.join("").slice(0, 200),
+    };
+  } catch (err: unknown) {
+    timer.stop();
+    const msg = err instanceof Error ? err.message : String(err);
+    const outcome = outcomeForError(msg, guards.abortReason());
+
+    return {
+      model,
+      mode: "streaming",
+      wireApi: "responses",
+      clientProfile: profileLabel(profile),
+      outcome,
+      httpStatus,
+      timings: timer.toTimings(),
+      chunkCount: chunkCount > 0 ? chunkCount : undefined,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
+      error: msg,
+    };
+  } finally {
+    guards.clear();
+  }
+}
+
+/**
+ * Test a single model with the legacy POST /completions, stream:true.
+ */
+export async function testCompletionsStreaming(cfg: AppConfig, model: string): Promise<ModelTestResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const checker = new TextCompletionChecker();
+  let httpStatus: number | undefined;
+  let chunkCount = 0;
+  let lastEventMs: number | undefined;
+
+  const body = completionsPayload(model, cfg.scenario);
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    timer.markTTFB();
+    httpStatus = res.status;
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "");
+      timer.stop();
+      return {
+        model,
+        mode: "completions-streaming",
+        outcome: "FAIL",
+        httpStatus,
+        timings: timer.toTimings(),
+        error: completionsHttpError(httpStatus, errText.slice(0, 300)),
+      };
+    }
+
+    for await (const evt of parseSSE(res.body, guards.signal)) {
+      chunkCount++;
+      lastEventMs = timer.elapsed();
+      guards.onEvent();
+      timer.markFirstEvent();
+
+      const text = checker.checkData(evt.data);
+      if (evt.data === "[DONE]") break;
+      timer.markChunk(Boolean(text));
+    }
+
+    timer.stop();
+    const completions = checker.finish();
+
+    return {
+      model,
+      mode: "completions-streaming",
+      ...textCompletionOutcome(completions),
+      httpStatus,
+      timings: timer.toTimings(),
+      chunkCount,
+      doneReceived: completions.doneReceived,
+      buffering: timer.detectBuffering(),
+      completions,
+      tokenPreview: completions.text.slice(0, 200),
+    };
+  } catch (err: unknown) {
+    timer.stop();
+    const msg = err instanceof Error ? err.message : String(err);
+    const outcome = outcomeForError(msg, guards.abortReason());
+
+    return {
+      model,
+      mode: "completions-streaming",
+      outcome,
+      httpStatus,
+      timings: timer.toTimings(),
+      chunkCount: chunkCount > 0 ? chunkCount : undefined,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
+      error: msg,
+    };
+  } finally {
+    guards.clear();
+  }
+}
+
+/**
+ * Test a single model with response_format json_object and json_schema,
+ * streaming and not – the structured-output probe's checks.
+ */
+export async function testStructuredOutput(cfg: AppConfig, model: string): Promise<StructuredOutputInfo> {
+  return checkStructuredOutput({ ...cfg, foundryModel: model });
+}
+
+/**
+ * Derive the per-model verdict from its non-streaming and streaming results.
+ * A NON_CONFORMANT stream still counts as streaming support, as does an OK
+ * stream that arrived buffered (it is reported as BUFFERED instead of BOTH_OK).
+ */
+export function deriveVerdict(
+  nonStreaming: ModelTestResult,
+  streaming: ModelTestResult,
+): Pick<ModelBenchmarkEntry, "supportsStreaming" | "verdict"> {
+  const nsOk = nonStreaming.outcome === "OK";
+  const sOk = streaming.outcome === "OK";
+  const supportsStreaming = sOk || streaming.outcome === "NON_CONFORMANT";
+
+  let verdict: ModelBenchmarkEntry["verdict"];
+  if (nsOk && sOk) verdict = streaming.buffering ? "BUFFERED" : "BOTH_OK";
+  else if (nsOk && supportsStreaming) verdict = "STREAM_NON_CONFORMANT";
+  else if (nsOk) verdict = "STREAM_ONLY_FAIL";
+  else if (supportsStreaming) verdict = "NON_STREAM_FAIL";
+  else verdict = "BOTH_FAIL";
+
+  return { supportsStreaming, verdict };
+}
+
+/**
+ * Which streaming endpoints a model supports: the chat (or responses) stream
+ * and the legacy completions stream. NON_CONFORMANT counts as support, as in
+ * deriveVerdict.
+ */
+export function deriveStreamingApis(
+  streaming: ModelTestResult,
+  completionsStreaming: ModelTestResult,
+): Pick<ModelBenchmarkEntry, "supportsCompletionsStreaming" | "streamingApis"> {
+  const chat = streaming.outcome === "OK" || streaming.outcome === "NON_CONFORMANT";
+  const supportsCompletionsStreaming =
+    completionsStreaming.outcome === "OK" || completionsStreaming.outcome === "NON_CONFORMANT";
+
+  let streamingApis: ModelBenchmarkEntry["streamingApis"];
+  if (chat && supportsCompletionsStreaming) streamingApis = "BOTH";
+  else if (chat) streamingApis = "CHAT_ONLY";
+  else if (supportsCompletionsStreaming) streamingApis = "COMPLETIONS_ONLY";
+  else streamingApis = "NEITHER";
+
+  return { supportsCompletionsStreaming, streamingApis };
+}
+
+/** Which response_format types a model honours with stream:true */
+export function deriveStructuredStreaming(
+  structuredOutput: StructuredOutputInfo,
+): Pick<ModelBenchmarkEntry, "structuredStreaming"> {
+  const honoured = (format: string) =>
+    structuredOutput.variants.some((v) => v.format === format && v.streaming.honoured);
+  const object = honoured("json_object");
+  const schema = honoured("json_schema");
+
+  let structuredStreaming: ModelBenchmarkEntry["structuredStreaming"];
+  if (object && schema) structuredStreaming = "BOTH";
+  else if (object) structuredStreaming = "JSON_OBJECT_ONLY";
+  else if (schema) structuredStreaming = "JSON_SCHEMA_ONLY";
+  else structuredStreaming = "NONE";
+
+  return { structuredStreaming };
+}
+
+/** Per-model counts for the report – a model counts as supporting an API only if every scenario did */
+export function countModels(
+  entries: ModelBenchmarkEntry[],
+): Pick<
+  BenchmarkReport,
+  | "totalModels"
+  | "modelsWithStreaming"
+  | "modelsWithoutStreaming"
+  | "modelsWithCompletionsStreaming"
+  | "modelsWithStructuredStreaming"
+> {
+  const models = [...new Set(entries.map((e) => e.model))];
+  const all = (model: string, test: (e: ModelBenchmarkEntry) => boolean) =>
+    entries.filter((e) => e.model === model).every(test);
+
+  const withStreaming = models.filter((m) => all(m, (e) => e.supportsStreaming)).length;
+  return {
+    totalModels: models.length,
+    modelsWithStreaming: withStreaming,
+    modelsWithoutStreaming: models.length - withStreaming,
+    modelsWithCompletionsStreaming: models.filter((m) => all(m, (e) => e.supportsCompletionsStreaming)).length,
+    modelsWithStructuredStreaming: models.filter((m) => all(m, (e) => e.structuredStreaming === "BOTH")).length,
+  };
+}
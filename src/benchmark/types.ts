@@ -2,36 +2,82 @@
  * Benchmark types – result shapes for the multi-model streaming benchmark.
  */
 
-import type { ProbeOutcome, ProbeTimings } from "../types";
+import type {
+  BufferingInfo,
+  ConformanceViolation,
+  ProbeOutcome,
+  ProbeTimings,
+  ResponsesStreamInfo,
+  SSEAnomaly,
+  StallInfo,
+  StructuredOutputInfo,
+  TextCompletionStreamInfo,
+  WireApi,
+} from "../types";
 
-/** Result of testing one model with one mode (streaming or non-streaming) */
+/** Result of testing one model with one mode (streaming, non-streaming or legacy completions) */
 export interface ModelTestResult {
   model: string;
-  mode: "streaming" | "non-streaming";
+  mode: "streaming" | "non-streaming" | "completions-streaming";
+  /** Wire API of the streaming test (follows COPILOT_WIRE_API) */
+  wireApi?: WireApi;
+  /** Client profile whose request shape the streaming test sent ("name@version") */
+  clientProfile?: string;
   outcome: ProbeOutcome;
   httpStatus?: number;
   timings: ProbeTimings;
   chunkCount?: number;
   doneReceived?: boolean;
+  stall?: StallInfo;
+  buffering?: BufferingInfo;
+  sseAnomalies?: SSEAnomaly[];
+  conformanceViolations?: ConformanceViolation[];
+  responses?: ResponsesStreamInfo;
+  completions?: TextCompletionStreamInfo;
   tokenPreview?: string;
   error?: string;
 }
 
-/** Aggregated benchmark result for a single model */
+/** Aggregated benchmark result for a single model and prompt scenario */
 export interface ModelBenchmarkEntry {
   model: string;
+  /** Prompt-suite scenario the requests sent */
+  scenario: string;
   nonStreaming: ModelTestResult;
   streaming: ModelTestResult;
+  /** POST /completions with a prompt and stream:true */
+  completionsStreaming: ModelTestResult;
+  /** response_format json_object / json_schema with stream:false and stream:true */
+  structuredOutput: StructuredOutputInfo;
   supportsStreaming: boolean;
-  verdict: "BOTH_OK" | "STREAM_ONLY_FAIL" | "BOTH_FAIL" | "NON_STREAM_FAIL";
+  supportsCompletionsStreaming: boolean;
+  /** Which streaming endpoints work: chat (or responses) vs legacy completions */
+  streamingApis: "BOTH" | "CHAT_ONLY" | "COMPLETIONS_ONLY" | "NEITHER";
+  /** Which response_format types hold while streaming */
+  structuredStreaming: "BOTH" | "JSON_OBJECT_ONLY" | "JSON_SCHEMA_ONLY" | "NONE";
+  verdict:
+    | "BOTH_OK"
+    | "BUFFERED"
+    | "STREAM_NON_CONFORMANT"
+    | "STREAM_ONLY_FAIL"
+    | "BOTH_FAIL"
+    | "NON_STREAM_FAIL";
 }
 
 /** The full benchmark report */
 export interface BenchmarkReport {
   timestamp: string;
   foundryBaseUrl: string;
+  /** PROMPT_SUITE name, or "default" for the built-in prompt */
+  promptSuite: string;
+  /** Client profile the streaming test sent ("name@version") */
+  clientProfile: string;
+  /** Model counts are per model: a model supports streaming only if every scenario did */
   totalModels: number;
   modelsWithStreaming: number;
   modelsWithoutStreaming: number;
+  modelsWithCompletionsStreaming: number;
+  /** Models that honour both response_format types while streaming */
+  modelsWithStructuredStreaming: number;
   entries: ModelBenchmarkEntry[];
 }
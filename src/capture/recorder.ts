@@ -0,0 +1,246 @@
+/**
+ * Raw wire capture – records a streaming HTTP exchange to an NDJSON file so a
+ * hang can be attached to an upstream bug report and replayed later.
+ *
+ * One JSON object per line, in order:
+ *   { "type": "meta", … }      probe name, payload hash, start time
+ *   { "type": "request", … }   method, URL, headers (Authorization redacted), body
+ *   { "type": "response", … }  status + all response headers
+ *   { "type": "chunk", … }     one per received byte chunk (base64)
+ *   { "type": "end", … }       why the recording stopped
+ *
+ * Every line after "meta" carries `t`: high-resolution ms since the recorder
+ * was created. Lines are appended synchronously so a recording survives even
+ * if the process is killed mid-hang.
+ */
+
+import { appendFileSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { performance } from "node:perf_hooks";
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+export interface RecordingMeta {
+  type: "meta";
+  version: number;
+  probe: string;
+  payloadHash: string;
+  startedAt: string;
+}
+
+export interface RecordingRequest {
+  type: "request";
+  t: number;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface RecordingResponse {
+  type: "response";
+  t: number;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+}
+
+export interface RecordingChunk {
+  type: "chunk";
+  t: number;
+  /** Raw bytes, base64-encoded */
+  bytes: string;
+}
+
+export interface RecordingEnd {
+  type: "end";
+  t: number;
+  /**
+   * "complete" (server closed the body), "cancelled", "error", or
+   * "stopped-reading" (the probe stopped early, e.g. after [DONE] or a timeout)
+   */
+  reason: string;
+  error?: string;
+}
+
+export type RecordingLine =
+  | RecordingMeta
+  | RecordingRequest
+  | RecordingResponse
+  | RecordingChunk
+  | RecordingEnd;
+
+/** A recording loaded back from disk */
+export interface StreamRecording {
+  meta: RecordingMeta;
+  request?: RecordingRequest;
+  response?: RecordingResponse;
+  chunks: RecordingChunk[];
+  end?: RecordingEnd;
+}
+
+export class StreamRecorder {
+  /** Absolute path of the NDJSON recording */
+  readonly path: string;
+  private readonly t0: number;
+  private ended = false;
+
+  constructor(probe: string, payloadHash: string, dir: string = process.cwd()) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    this.path = resolve(dir, `recording-${probe}-${payloadHash}-${stamp}.ndjson`);
+    this.t0 = performance.now();
+
+    const meta: RecordingMeta = {
+      type: "meta",
+      version: RECORDING_FORMAT_VERSION,
+      probe,
+      payloadHash,
+      startedAt: new Date().toISOString(),
+    };
+    writeFileSync(this.path, JSON.stringify(meta) + "\n", "utf-8");
+  }
+
+  /** Record the outgoing request (the Authorization header is redacted) */
+  recordRequest(method: string, url: string, headers: Record<string, string>, body: unknown): void {
+    const safeHeaders: Record<string, string> = {};
+    for (const [k, v] of Object.entries(headers)) {
+      safeHeaders[k.toLowerCase()] = k.toLowerCase() === "authorization" ? "[redacted]" : v;
+    }
+    this.write({ type: "request", t: this.now(), method, url, headers: safeHeaders, body });
+  }
+
+  /** Record response status and all headers */
+  recordResponse(res: Response): void {
+    const headers: Record<string, string> = {};
+    res.headers.forEach((v, k) => {
+      headers[k] = v;
+    });
+    this.recordResponseHead(res.status, res.statusText, headers);
+  }
+
+  /** Record a response head seen outside fetch (the recording proxy's node:http responses) */
+  recordResponseHead(status: number, statusText: string, headers: Record<string, string>): void {
+    this.write({ type: "response", t: this.now(), status, statusText, headers });
+  }
+
+  /** Record one received byte chunk */
+  recordChunk(bytes: Uint8Array): void {
+    this.write({ type: "chunk", t: this.now(), bytes: Buffer.from(bytes).toString("base64") });
+  }
+
+  /**
+   * Wrap a body stream so every chunk read through it is recorded. A read that
+   * fails because `abortSignal` aborted is recorded under the abort reason.
+   */
+  tap(source: ReadableStream<Uint8Array>, abortSignal?: AbortSignal): ReadableStream<Uint8Array> {
+    const reader = source.getReader();
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            this.finish("complete");
+            controller.close();
+            return;
+          }
+          this.recordChunk(value);
+          controller.enqueue(value);
+        } catch (err) {
+          this.finish("error", errorMessage(err, abortSignal));
+          controller.error(err);
+        }
+      },
+      cancel: (reason) => {
+        this.finish("cancelled", reason === undefined ? undefined : String(reason));
+        return reader.cancel(reason);
+      },
+    });
+  }
+
+  /** Write the "end" line – only the first call has any effect */
+  finish(reason: string, error?: string): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.write({ type: "end", t: this.now(), reason, error });
+  }
+
+  private now(): number {
+    return Math.round((performance.now() - this.t0) * 1000) / 1000;
+  }
+
+  private write(line: RecordingLine): void {
+    appendFileSync(this.path, JSON.stringify(line) + "\n", "utf-8");
+  }
+}
+
+/**
+ * Returns a fetch-compatible function that records the exchange through
+ * `recorder`. Usable directly or as the OpenAI SDK `fetch` option.
+ *
+ * `abortSignal` is the probe's own timeout signal. The SDK aborts fetch with a
+ * generic "This operation was aborted" of its own, so without it a guard's
+ * STALL would be recorded as a broken connection.
+ */
+export function createRecordingFetch(recorder: StreamRecorder, abortSignal?: AbortSignal): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const headers: Record<string, string> = {};
+    new Headers(init?.headers).forEach((v, k) => {
+      headers[k] = v;
+    });
+
+    let body: unknown = init?.body;
+    if (typeof body === "string") {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // keep the raw string
+      }
+    }
+    recorder.recordRequest(init?.method ?? "GET", url, headers, body);
+
+    let res: Response;
+    try {
+      res = await fetch(input, init);
+    } catch (err) {
+      recorder.finish("error", errorMessage(err, abortSignal ?? init?.signal ?? undefined));
+      throw err;
+    }
+
+    recorder.recordResponse(res);
+    if (!res.body) return res;
+
+    return new Response(recorder.tap(res.body, abortSignal ?? init?.signal ?? undefined), {
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+    });
+  };
+}
+
+/** The guard reason (e.g. CHUNK_IDLE_TIMEOUT) when a timeout signal caused the error, else its message */
+function errorMessage(err: unknown, abortSignal: AbortSignal | undefined): string {
+  if (abortSignal?.aborted && typeof abortSignal.reason === "string") return abortSignal.reason;
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Load an NDJSON recording written by StreamRecorder */
+export function readRecording(path: string): StreamRecording {
+  const lines = readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((l) => l.trim())
+    .map((l) => JSON.parse(l) as RecordingLine);
+
+  const meta = lines.find((l): l is RecordingMeta => l.type === "meta");
+  if (!meta) {
+    throw new Error(`${path} is not a stream recording (no "meta" line)`);
+  }
+
+  return {
+    meta,
+    request: lines.find((l): l is RecordingRequest => l.type === "request"),
+    response: lines.find((l): l is RecordingResponse => l.type === "response"),
+    chunks: lines.filter((l): l is RecordingChunk => l.type === "chunk"),
+    end: lines.find((l): l is RecordingEnd => l.type === "end"),
+  };
+}
@@ -3,6 +3,9 @@
  */
 
 import { config as loadDotenv } from "dotenv";
+import type { ClientProfile, PromptScenario, WireApi } from "./types";
+import { DEFAULT_PROBE_SUITE } from "./prompts/suite";
+import { MINIMAL_CLIENT_PROFILE } from "./prompts/client-profiles";
 
 export interface AppConfig {
   /** Base URL for Foundry Local (e.g. http://127.0.0.1:5272/v1) */
@@ -13,14 +16,42 @@ export interface AppConfig {
   foundryApiKey: string;
   /** Copilot BYOK provider type – always "openai" here */
   copilotByokProviderType: string;
-  /** Copilot wire API – "completions" */
-  copilotWireApi: string;
+  /** Copilot wire API – "completions" (/chat/completions) or "responses" (/responses) */
+  copilotWireApi: WireApi;
+  /** Client profile name, "name@version" ("" = minimal) */
+  copilotClientProfile: string;
   /** Hard overall request timeout (ms) */
   requestTimeoutMs: number;
   /** Max time to wait for HTTP response headers (ms) */
   firstByteTimeoutMs: number;
   /** Max time to wait for first SSE data: event (ms) */
   firstEventTimeoutMs: number;
+  /** Max silence between two SSE events once a stream has started (ms) */
+  chunkIdleTimeoutMs: number;
+  /** Chunks the cancellation probe reads before aborting its stream */
+  cancelAfterChunks: number;
+  /** Simultaneous streams opened by the concurrency probe */
+  concurrentStreams: number;
+  /** Largest filler size (tokens) the context-ramp probe doubles up to */
+  contextRampMaxTokens: number;
+  /** Send stream_options.include_usage on streaming probes and validate the usage chunk */
+  includeUsage: boolean;
+  /** Record raw streaming exchanges to NDJSON files next to report.json */
+  captureStreams: boolean;
+  /** Module exporting extra probes to register after the built-ins ("" = none) */
+  customProbesPath: string;
+  /** Prompt suite name or .json path ("" = the built-in suites) */
+  promptSuite: string;
+  /** Times the CLI runs the whole probe set; > 1 adds pass rates to the report */
+  repeatCount: number;
+  /** Runs before the measured ones, left out of the report */
+  warmupRuns: number;
+  /** Port the recording proxy (npm run proxy) listens on */
+  proxyPort: number;
+  /** Scenario the probes send – set per scenario while iterating a suite */
+  scenario: PromptScenario;
+  /** Request shape the SDK probe and the benchmark send – resolved from copilotClientProfile at startup */
+  clientProfile: ClientProfile;
 }
 
 export function loadConfig(): AppConfig {
@@ -37,9 +68,30 @@ export function loadConfig(): AppConfig {
     foundryModel,
     foundryApiKey: process.env.FOUNDRY_API_KEY ?? "unused",
     copilotByokProviderType: process.env.COPILOT_BYOK_PROVIDER_TYPE ?? "openai",
-    copilotWireApi: process.env.COPILOT_WIRE_API ?? "completions",
+    copilotWireApi: parseWireApi(process.env.COPILOT_WIRE_API),
+    copilotClientProfile: process.env.COPILOT_CLIENT_PROFILE ?? "",
     requestTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT_MS ?? "30000", 10),
     firstByteTimeoutMs: parseInt(process.env.FIRST_BYTE_TIMEOUT_MS ?? "10000", 10),
     firstEventTimeoutMs: parseInt(process.env.FIRST_EVENT_TIMEOUT_MS ?? "15000", 10),
+    chunkIdleTimeoutMs: parseInt(process.env.CHUNK_IDLE_TIMEOUT_MS ?? "10000", 10),
+    cancelAfterChunks: parseInt(process.env.CANCEL_AFTER_CHUNKS ?? "3", 10),
+    concurrentStreams: parseInt(process.env.CONCURRENT_STREAMS ?? "3", 10),
+    contextRampMaxTokens: parseInt(process.env.CONTEXT_RAMP_MAX_TOKENS ?? "16384", 10),
+    includeUsage: /^(1|true|yes)$/i.test(process.env.INCLUDE_USAGE ?? ""),
+    captureStreams: /^(1|true|yes)$/i.test(process.env.CAPTURE_STREAMS ?? ""),
+    customProbesPath: process.env.CUSTOM_PROBES_PATH ?? "",
+    promptSuite: process.env.PROMPT_SUITE ?? "",
+    repeatCount: Math.max(1, parseInt(process.env.REPEAT_COUNT ?? "1", 10) || 1),
+    warmupRuns: Math.max(0, parseInt(process.env.WARMUP_RUNS ?? "0", 10) || 0),
+    proxyPort: parseInt(process.env.PROXY_PORT ?? "5273", 10),
+    scenario: DEFAULT_PROBE_SUITE.scenarios[0],
+    clientProfile: MINIMAL_CLIENT_PROFILE,
   };
 }
+
+function parseWireApi(value: string | undefined): WireApi {
+  if (value === undefined || value === "" || value === "completions") return "completions";
+  if (value === "responses") return "responses";
+  console.warn(`  ⚠  COPILOT_WIRE_API="${value}" is not "completions" or "responses" – using "completions"`);
+  return "completions";
+}
@@ -1,5 +1,8 @@
 /**
- * Main entry point – runs all three probes sequentially and produces a report.
+ * Main entry point – runs every registered probe (see probes/registry.ts)
+ * sequentially, once per scenario of the prompt suite (see prompts/suite.ts),
+ * and produces a report. REPEAT_COUNT repeats the whole set to measure how
+ * often an intermittent hang occurs; WARMUP_RUNS go first and are not counted.
  *
  * If FOUNDRY_MODEL is not set in .env, the tool fetches the Foundry Local
  * model catalog from /v1/models and presents an interactive picker.
@@ -14,12 +17,12 @@ import { detectFoundryService, formatServiceInfo } from "./service/detect";
 import { fetchModelCatalog } from "./models/catalog";
 import { pickModel } from "./models/picker";
 import { resolveModelId } from "./models/resolver";
-import { runNonStreamingProbe } from "./probes/non-streaming";
-import { runRawStreamingProbe } from "./probes/raw-streaming";
-import { runCopilotSdkStreamingProbe } from "./probes/copilot-sdk-streaming";
+import { BUILTIN_PROBES, loadProbes, runProbe, type Probe } from "./probes/registry";
+import { DEFAULT_PROBE_SUITE, loadPromptSuite } from "./prompts/suite";
+import { loadClientProfile, profileLabel } from "./prompts/client-profiles";
 import { writeReport, printSummary } from "./report";
 import { getVersionInfo, formatVersionInfo } from "./utils/version";
-import type { ProbeResult } from "./types";
+import type { PromptSuite, ProbeResult } from "./types";
 
 async function main(): Promise<void> {
   console.log("─── Foundry Local Streaming Validation ───\n");
@@ -32,6 +35,25 @@ async function main(): Promise<void> {
 
   const cfg = loadConfig();
 
+  // ── Probe registry (built-ins + CUSTOM_PROBES_PATH) ─────
+  let probes: Probe[];
+  try {
+    probes = loadProbes(cfg);
+  } catch (err) {
+    console.error(`  ❌  ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  // ── Prompt suite and client profile (COPILOT_CLIENT_PROFILE) ──
+  let suite: PromptSuite;
+  try {
+    suite = loadPromptSuite(cfg.promptSuite, DEFAULT_PROBE_SUITE);
+    cfg.clientProfile = loadClientProfile(cfg.copilotClientProfile);
+  } catch (err) {
+    console.error(`  ❌  ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
   // ── Service discovery (auto-detect port) ────────────────
   if (!cfg.foundryBaseUrl) {
     console.log("  ℹ  FOUNDRY_BASE_URL not set – detecting via 'foundry service status'...\n");
@@ -84,57 +106,53 @@ async function main(): Promise<void> {
   console.log(`  Request timeout    : ${cfg.requestTimeoutMs} ms`);
   console.log(`  First-byte timeout : ${cfg.firstByteTimeoutMs} ms`);
   console.log(`  First-event timeout: ${cfg.firstEventTimeoutMs} ms`);
+  console.log(`  Chunk idle timeout : ${cfg.chunkIdleTimeoutMs} ms`);
+  console.log(`  Cancel after       : ${cfg.cancelAfterChunks} chunks`);
+  console.log(`  Concurrent streams : ${cfg.concurrentStreams}`);
+  console.log(`  Context ramp up to : ${cfg.contextRampMaxTokens} tokens`);
   console.log(`  BYOK provider      : ${cfg.copilotByokProviderType}`);
-  console.log(`  Wire API           : ${cfg.copilotWireApi}\n`);
+  console.log(`  Wire API           : ${cfg.copilotWireApi}`);
+  console.log(`  Client profile     : ${profileLabel(cfg.clientProfile)} – ${cfg.clientProfile.description}`);
+  console.log(`  Prompt suite       : ${suite.name} (${suite.scenarios.map((s) => s.name).join(", ")})`);
+  if (cfg.repeatCount > 1 || cfg.warmupRuns > 0) {
+    console.log(`  Runs               : ${cfg.repeatCount}${cfg.warmupRuns > 0 ? ` + ${cfg.warmupRuns} warmup` : ""}`);
+  }
+  if (probes.length > BUILTIN_PROBES.length) {
+    console.log(`  Custom probes      : ${probes.slice(BUILTIN_PROBES.length).map((p) => p.name).join(", ")}`);
+  }
+  console.log();
 
   const results: ProbeResult[] = [];
 
-  // ── Probe 1: Non-streaming ────────────────────────────────
-  console.log("\n═══ Probe 1: Non-streaming (stream: false) ═══\n");
-  try {
-    const r = await runNonStreamingProbe(cfg);
-    results.push(r);
-  } catch (err) {
-    console.error("[non-streaming] Unhandled error:", err);
-    results.push({
-      probe: "non-streaming",
-      outcome: "ERROR",
-      timings: { startMs: Date.now(), endMs: Date.now(), totalMs: 0 },
-      error: String(err),
-      payloadHash: "unknown",
-    });
-  }
+  // ── Warmup runs (discarded), then the measured runs ──────
+  // Runs are numbered 1..REPEAT_COUNT; warmups count up to 0.
+  for (let run = 1 - cfg.warmupRuns; run <= cfg.repeatCount; run++) {
+    const warmup = run < 1;
+    if (warmup) {
+      console.log(`\n████████ Warmup ${run + cfg.warmupRuns}/${cfg.warmupRuns} (not counted) ████████`);
+    } else if (cfg.repeatCount > 1) {
+      console.log(`\n████████ Run ${run}/${cfg.repeatCount} ████████`);
+    }
 
-  // ── Probe 2: Raw streaming (fetch + SSE) ──────────────────
-  console.log("\n═══ Probe 2: Raw streaming (fetch + SSE parser) ═══\n");
-  try {
-    const r = await runRawStreamingProbe(cfg);
-    results.push(r);
-  } catch (err) {
-    console.error("[raw-streaming] Unhandled error:", err);
-    results.push({
-      probe: "raw-streaming",
-      outcome: "ERROR",
-      timings: { startMs: Date.now(), endMs: Date.now(), totalMs: 0 },
-      error: String(err),
-      payloadHash: "unknown",
-    });
-  }
+    // ── Probes, in registry order, for each scenario ────────
+    for (const scenario of suite.scenarios) {
+      const scenarioCfg = { ...cfg, scenario };
+      if (suite.scenarios.length > 1) {
+        console.log(`\n████ Scenario: ${scenario.name}${scenario.description ? ` – ${scenario.description}` : ""} ████`);
+      }
 
-  // ── Probe 3: Copilot SDK BYOK streaming ───────────────────
-  console.log("\n═══ Probe 3: Copilot SDK BYOK streaming (OpenAI SDK) ═══\n");
-  try {
-    const r = await runCopilotSdkStreamingProbe(cfg);
-    results.push(r);
-  } catch (err) {
-    console.error("[copilot-sdk] Unhandled error:", err);
-    results.push({
-      probe: "copilot-sdk-streaming",
-      outcome: "ERROR",
-      timings: { startMs: Date.now(), endMs: Date.now(), totalMs: 0 },
-      error: String(err),
-      payloadHash: "unknown",
-    });
+      for (const [i, probe] of probes.entries()) {
+        const skip = probe.skipReason?.(scenarioCfg);
+        if (skip) {
+          console.log(`\n═══ Probe ${i + 1}: ${probe.description} – skipped (${skip}) ═══`);
+          continue;
+        }
+        console.log(`\n═══ Probe ${i + 1}: ${probe.description} ═══\n`);
+        const result = await runProbe(probe, scenarioCfg);
+        if (warmup) continue;
+        results.push(cfg.repeatCount > 1 ? { ...result, run } : result);
+      }
+    }
   }
 
   // ── Report ────────────────────────────────────────────────
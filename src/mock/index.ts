@@ -0,0 +1,52 @@
+/**
+ * Mock server entry point – starts the fault-injecting Foundry Local mock so
+ * every probe outcome and benchmark verdict can be reproduced without a GPU.
+ *
+ * Usage:
+ *   node dist/mock/index.js [--scenario NAME] [--port N]
+ *   npx ts-node src/mock/index.ts [--scenario NAME] [--port N]
+ *
+ * Then, in another terminal:
+ *   FOUNDRY_BASE_URL=http://127.0.0.1:5272/v1 FOUNDRY_MODEL=mock-hang-after-headers npm start
+ *   FOUNDRY_BASE_URL=http://127.0.0.1:5272/v1 npm run benchmark
+ */
+
+import { startMockServer, isMockScenario, MOCK_SCENARIOS } from "./server";
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const argValue = (flag: string): string | undefined => {
+    const i = args.indexOf(flag);
+    return i !== -1 ? args[i + 1] : undefined;
+  };
+
+  const scenario = argValue("--scenario") ?? process.env.MOCK_SCENARIO ?? "ok";
+  const port = parseInt(argValue("--port") ?? process.env.MOCK_PORT ?? "5272", 10);
+
+  if (!isMockScenario(scenario)) {
+    console.error(`Unknown scenario "${scenario}". Available: ${Object.keys(MOCK_SCENARIOS).join(", ")}`);
+    process.exit(2);
+  }
+
+  const server = await startMockServer({ scenario, port });
+
+  console.log("─── Foundry Local Mock Server ───\n");
+  console.log(`  🟢 Model management service is running on ${server.statusUrl}\n`);
+  console.log(`  Base URL         : ${server.baseUrl}`);
+  console.log(`  Default scenario : ${scenario}\n`);
+  console.log("  Models (model name selects the scenario):");
+  for (const [name, description] of Object.entries(MOCK_SCENARIOS)) {
+    console.log(`    mock-${name.padEnd(22)} ${description}`);
+  }
+  console.log(`\n  Try: FOUNDRY_BASE_URL=${server.baseUrl} FOUNDRY_MODEL=mock-hang-after-headers npm start`);
+  console.log("  Press Ctrl+C to stop.\n");
+
+  process.on("SIGINT", () => {
+    server.close().then(() => process.exit(0));
+  });
+}
+
+main().catch((err) => {
+  console.error("Fatal mock server error:", err);
+  process.exit(2);
+});
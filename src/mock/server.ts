@@ -0,0 +1,669 @@
+/**
+ * Fault-injecting mock of the Foundry Local OpenAI-compatible API.
+ *
+ * Serves:
+ *   GET  /openai/status         – service status page (what `foundry service status` points at)
+ *   GET  /v1/models             – one model per scenario, named "mock-<scenario>"
+ *   POST /v1/chat/completions   – stream:false and stream:true, shaped by the scenario;
+ *                                 requests with `tools` get a call to the first tool;
+ *                                 stream_options.include_usage adds a final usage chunk;
+ *                                 response_format json_object / json_schema gets a JSON reply
+ *   POST /v1/responses          – Responses API, stream:false and stream:true (typed events)
+ *   POST /v1/completions        – legacy text completions, stream:false and stream:true
+ *
+ * The scenario is picked from the request's model ("mock-slow-drip"); any other
+ * model name gets the server's default scenario, except "mock-…" names that
+ * match no scenario, which get a 404 like any unknown model. That way a single mock
+ * instance exercises every probe outcome, and the benchmark – which tests
+ * every catalog model – exercises every verdict.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type MockScenario =
+  | "ok"
+  | "hang-after-headers"
+  | "no-headers"
+  | "no-done"
+  | "stall-mid-stream"
+  | "wedge-on-cancel"
+  | "serialized"
+  | "slow-drip"
+  | "malformed-json"
+  | "http-500"
+  | "http-500-mid-stream"
+  | "buffered"
+  | "drop-final-delta"
+  | "usage-on-finish-chunk"
+  | "no-legacy-completions"
+  | "long-prompt-hang"
+  | "json-stream-ignored"
+  | "sloppy-errors"
+  | "intermittent-hang"
+  | "sse-quirks";
+
+/** Scenario → one-line description (also the order models are listed in) */
+export const MOCK_SCENARIOS: Record<MockScenario, string> = {
+  ok: "Well-formed stream, ~30 ms between chunks",
+  "hang-after-headers": "Streaming sends 200 + headers, then nothing (non-streaming works)",
+  "no-headers": "Accepts the connection but never sends response headers",
+  "no-done": "Streams every chunk, then closes without data: [DONE]",
+  "stall-mid-stream": "Streams three chunks, then goes silent with the connection held open",
+  "wedge-on-cancel": "Well-formed stream, but after a client disconnects mid-stream every request waits ~3 s",
+  serialized: "Well-formed stream, but concurrent requests are answered strictly one at a time",
+  "slow-drip": "Well-formed stream, ~1 s between chunks",
+  "malformed-json": "One streamed chunk is truncated, invalid JSON",
+  "http-500": "Every chat completion request fails with an OpenAI-style 500",
+  "http-500-mid-stream": "Streams a few chunks, sends an error event, then drops the connection",
+  buffered: "Generates the whole completion, then flushes every SSE event at once",
+  "drop-final-delta": "Streaming omits the last content delta, so it disagrees with stream:false",
+  "usage-on-finish-chunk": "include_usage puts usage on the finish_reason chunk instead of a separate empty-choices chunk",
+  "no-legacy-completions": "Chat works, but POST /v1/completions returns 404",
+  "long-prompt-hang": "Latency grows with the prompt; past ~6k tokens streams hang after the headers",
+  "json-stream-ignored": "response_format is honoured with stream:false but ignored when streaming (prose reply)",
+  "sloppy-errors": "Invalid chat requests get a 500 with a plain-text body; unknown parameters are ignored",
+  "intermittent-hang": "About one stream in three, at random, hangs after the headers; the others are well-formed",
+  "sse-quirks": 'Spec-valid SSE naive parsers mis-read: CRLF line endings, comment lines, every other event "data:" with no space',
+};
+
+export interface MockServerOptions {
+  /** Scenario for models that are not named "mock-<scenario>" (default "ok") */
+  scenario?: MockScenario;
+  /** Port to listen on (default: random free port) */
+  port?: number;
+  /** Host to bind (default 127.0.0.1) */
+  host?: string;
+}
+
+export interface MockServer {
+  /** OpenAI-compatible base URL, e.g. http://127.0.0.1:5272/v1 */
+  baseUrl: string;
+  /** Status page URL in the same shape `foundry service status` prints */
+  statusUrl: string;
+  close(): Promise<void>;
+}
+
+const MOCK_TEXT =
+  "The Fibonacci sequence starts with 0 and 1. Each following number is the sum of the two before it. " +
+  "It appears throughout mathematics and nature.";
+
+/** How long "wedge-on-cancel" holds requests after a stream is abandoned */
+const WEDGE_MS = 3000;
+
+/** "long-prompt-hang": simulated prefill speed, and the prompt size past which streams hang */
+const PREFILL_CHARS_PER_MS = 200;
+const LONG_PROMPT_CHARS = 24_000;
+
+/** Server-wide state shared by all requests to one mock instance */
+interface MockState {
+  /** Epoch ms until which every new request is held before being answered */
+  wedgedUntil: number;
+  /** Settles when the last queued "serialized" request has been answered */
+  serialTail: Promise<void>;
+}
+
+/** Split the canned reply into word-sized "tokens" */
+const TOKENS = MOCK_TEXT.match(/\S+\s*/g) ?? [MOCK_TEXT];
+
+/** Token counts reported for every reply */
+const MOCK_USAGE = { prompt_tokens: 16, completion_tokens: TOKENS.length, total_tokens: 16 + TOKENS.length };
+
+/** Reply to a response_format request – matches the structured-output probe's schema */
+const MOCK_JSON_TEXT = JSON.stringify({
+  topic: "Fibonacci sequence",
+  summary: "Each number is the sum of the two before it, starting from 0 and 1.",
+  firstTerms: [0, 1, 1, 2, 3, 5, 8, 13],
+  difficulty: "beginner",
+});
+/** Split mid-token, the way real models stream JSON */
+const JSON_TOKENS = MOCK_JSON_TEXT.match(/.{1,7}/g) ?? [MOCK_JSON_TEXT];
+
+/** Chat completion parameters the mock accepts – anything else is an unrecognized argument */
+const CHAT_PARAMS = new Set([
+  "model",
+  "messages",
+  "stream",
+  "stream_options",
+  "max_tokens",
+  "max_completion_tokens",
+  "temperature",
+  "top_p",
+  "n",
+  "stop",
+  "seed",
+  "user",
+  "presence_penalty",
+  "frequency_penalty",
+  "logit_bias",
+  "logprobs",
+  "top_logprobs",
+  "tools",
+  "tool_choice",
+  "parallel_tool_calls",
+  "response_format",
+]);
+const CHAT_ROLES = new Set(["system", "developer", "user", "assistant", "tool"]);
+
+/** Arguments for a mocked tool call, streamed in small fragments */
+const MOCK_TOOL_ARGS = JSON.stringify({ location: "Seattle", unit: "celsius" });
+const TOOL_ARG_FRAGMENTS = MOCK_TOOL_ARGS.match(/.{1,6}/g) ?? [MOCK_TOOL_ARGS];
+
+export function isMockScenario(value: string): value is MockScenario {
+  return Object.prototype.hasOwnProperty.call(MOCK_SCENARIOS, value);
+}
+
+export async function startMockServer(opts: MockServerOptions = {}): Promise<MockServer> {
+  const defaultScenario = opts.scenario ?? "ok";
+  const host = opts.host ?? "127.0.0.1";
+  const state: MockState = { wedgedUntil: 0, serialTail: Promise.resolve() };
+
+  const server = createServer((req, res) => {
+    handle(req, res, defaultScenario, state).catch((err) => {
+      console.error("[mock] Handler error:", err);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolvePromise) => {
+    server.listen(opts.port ?? 0, host, () => resolvePromise());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://${host}:${port}/v1`,
+    statusUrl: `http://${host}:${port}/openai/status`,
+    close: () =>
+      new Promise<void>((resolvePromise) => {
+        server.closeAllConnections();
+        server.close(() => resolvePromise());
+      }),
+  };
+}
+
+// ── Request handling ─────────────────────────────────────
+
+async function handle(
+  req: IncomingMessage,
+  res: ServerResponse,
+  defaultScenario: MockScenario,
+  state: MockState,
+): Promise<void> {
+  const path = (req.url ?? "/").split("?")[0];
+
+  if (req.method === "GET" && path === "/openai/status") {
+    return sendJson(res, 200, {
+      status: "running",
+      mock: true,
+      defaultScenario,
+      scenarios: MOCK_SCENARIOS,
+    });
+  }
+
+  if (req.method === "GET" && path === "/v1/models") {
+    return sendJson(res, 200, {
+      object: "list",
+      data: Object.keys(MOCK_SCENARIOS).map((s) => ({
+        id: `mock-${s}`,
+        object: "model",
+        created: 0,
+        owned_by: "mock",
+      })),
+    });
+  }
+
+  if (
+    req.method === "POST" &&
+    (path === "/v1/chat/completions" || path === "/v1/responses" || path === "/v1/completions")
+  ) {
+    const body = await readJsonBody(req);
+    if (!body) {
+      return sendError(res, 400, "Request body is not valid JSON", "invalid_request_error");
+    }
+
+    const model = typeof body.model === "string" ? body.model : "";
+    const named = model.startsWith("mock-") ? model.slice(5) : "";
+    if (named && !isMockScenario(named)) {
+      return sendJson(res, 404, {
+        error: { message: `The model '${model}' does not exist`, type: "invalid_request_error", code: "model_not_found" },
+      });
+    }
+    let scenario = isMockScenario(named) ? named : defaultScenario;
+
+    const toolName = firstToolName(body.tools);
+    const jsonReply = wantsJson(body.response_format);
+    const includeUsage =
+      (body.stream_options as { include_usage?: unknown } | undefined)?.include_usage === true;
+
+    console.log(
+      `[mock] POST ${path}  model=${model}  stream=${body.stream === true}  scenario=${scenario}` +
+        (toolName ? `  tool=${toolName}` : "") +
+        (jsonReply ? "  response_format=json" : ""),
+    );
+
+    if (path === "/v1/chat/completions") {
+      const problem = invalidChatRequest(body, scenario === "sloppy-errors");
+      if (problem && scenario === "no-headers") return; // never respond, errors included
+      if (problem && scenario === "sloppy-errors") {
+        res.writeHead(500, { "content-type": "text/plain" });
+        res.end(`Internal Server Error: ${problem}`);
+        return;
+      }
+      if (problem) return sendError(res, 400, problem, "invalid_request_error");
+    }
+
+    const wedgedFor = state.wedgedUntil - Date.now();
+    if (wedgedFor > 0) {
+      console.log(`[mock] Wedged – holding request for ${wedgedFor} ms`);
+      await sleep(wedgedFor);
+    }
+
+    if (scenario === "long-prompt-hang") {
+      const promptChars = JSON.stringify(body.messages ?? body.input ?? body.prompt ?? "").length;
+      await sleep(Math.round(promptChars / PREFILL_CHARS_PER_MS));
+      if (promptChars > LONG_PROMPT_CHARS) scenario = "hang-after-headers"; // stream:false still answers
+    }
+
+    if (path === "/v1/completions" && scenario === "no-legacy-completions") {
+      return sendError(res, 404, `No route for ${req.method} ${path}`, "invalid_request_error");
+    }
+
+    const respond = (): Promise<void> => {
+      if (path === "/v1/completions") {
+        return body.stream === true
+          ? streamEvents(res, scenario, state, textCompletionEvents(model, scenario), CHAT_MID_STREAM_ERROR)
+          : completeTextOnce(res, model, scenario);
+      }
+      if (path === "/v1/responses") {
+        return body.stream === true
+          ? streamEvents(res, scenario, state, responseEvents(model, scenario), RESPONSES_MID_STREAM_ERROR)
+          : respondOnce(res, model, scenario);
+      }
+      if (body.stream !== true) {
+        return completeOnce(res, model, scenario, toolName, jsonReply ? MOCK_JSON_TEXT : MOCK_TEXT);
+      }
+      const tokens = jsonReply && scenario !== "json-stream-ignored" ? JSON_TOKENS : TOKENS;
+      return streamEvents(
+        res,
+        scenario,
+        state,
+        chatEvents(model, scenario, toolName, includeUsage, tokens),
+        CHAT_MID_STREAM_ERROR,
+      );
+    };
+
+    if (scenario !== "serialized") return respond();
+
+    // Queue behind every earlier "serialized" request, like a single-slot inference server
+    const turn = state.serialTail;
+    let release!: () => void;
+    state.serialTail = new Promise((resolvePromise) => {
+      release = resolvePromise;
+    });
+    await turn;
+    try {
+      await respond();
+    } finally {
+      release();
+    }
+    return;
+  }
+
+  sendError(res, 404, `No route for ${req.method} ${path}`, "invalid_request_error");
+}
+
+/** stream:false – only the scenarios that break the whole endpoint affect it */
+async function completeOnce(
+  res: ServerResponse,
+  model: string,
+  scenario: MockScenario,
+  toolName?: string,
+  text = MOCK_TEXT,
+): Promise<void> {
+  if (scenario === "no-headers") return; // never respond
+  if (scenario === "http-500") {
+    return sendError(res, 500, "Mock inference failure", "server_error");
+  }
+
+  sendJson(res, 200, {
+    id: `chatcmpl-mock-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      toolName
+        ? {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                { id: "call_mock_0", type: "function", function: { name: toolName, arguments: MOCK_TOOL_ARGS } },
+              ],
+            },
+            finish_reason: "tool_calls",
+          }
+        : { index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" },
+    ],
+    usage: MOCK_USAGE,
+  });
+}
+
+/** Responses API stream:false – the final response object */
+async function respondOnce(res: ServerResponse, model: string, scenario: MockScenario): Promise<void> {
+  if (scenario === "no-headers") return; // never respond
+  if (scenario === "http-500") {
+    return sendError(res, 500, "Mock inference failure", "server_error");
+  }
+  const last = buildResponseEvents(model).pop()!;
+  const completed = JSON.parse(last.slice(last.indexOf("data: ") + "data: ".length)) as { response: unknown };
+  sendJson(res, 200, completed.response);
+}
+
+/** Text completions stream:false – the whole reply as one text_completion */
+async function completeTextOnce(res: ServerResponse, model: string, scenario: MockScenario): Promise<void> {
+  if (scenario === "no-headers") return; // never respond
+  if (scenario === "http-500") {
+    return sendError(res, 500, "Mock inference failure", "server_error");
+  }
+  sendJson(res, 200, {
+    id: `cmpl-mock-${Date.now()}`,
+    object: "text_completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, text: MOCK_TEXT, logprobs: null, finish_reason: "stop" }],
+    usage: MOCK_USAGE,
+  });
+}
+
+/** chat.completion.chunk events for a stream, shaped by the scenario */
+function chatEvents(
+  model: string,
+  scenario: MockScenario,
+  toolName?: string,
+  includeUsage = false,
+  tokens = TOKENS,
+): string[] {
+  const events = buildChunkEvents(model, toolName, tokens);
+  if (scenario === "malformed-json") {
+    const mid = Math.floor(events.length / 2);
+    events[mid] = events[mid].slice(0, Math.floor(events[mid].length / 2)) + "\n\n";
+  }
+  if (scenario === "drop-final-delta" && !toolName) {
+    events.splice(events.length - 2, 1); // the delta just before the finish_reason chunk
+  }
+  if (includeUsage) {
+    // The finish_reason chunk is well-formed in every scenario, so it doubles as the template
+    const finish = JSON.parse(events[events.length - 1].slice("data: ".length)) as Record<string, unknown>;
+    if (scenario === "usage-on-finish-chunk") {
+      events[events.length - 1] = `data: ${JSON.stringify({ ...finish, usage: MOCK_USAGE })}\n\n`;
+    } else {
+      events.push(`data: ${JSON.stringify({ ...finish, choices: [], usage: MOCK_USAGE })}\n\n`);
+    }
+  }
+  if (scenario !== "no-done") events.push("data: [DONE]\n\n");
+  return events;
+}
+
+/** text_completion events for a legacy completions stream, shaped by the scenario */
+function textCompletionEvents(model: string, scenario: MockScenario): string[] {
+  const id = `cmpl-mock-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (text: string, finishReason: string | null): string =>
+    `data: ${JSON.stringify({
+      id,
+      object: "text_completion",
+      created,
+      model,
+      choices: [{ index: 0, text, logprobs: null, finish_reason: finishReason }],
+    })}\n\n`;
+
+  const events = [...TOKENS.map((t) => chunk(t, null)), chunk("", "stop")];
+  if (scenario === "malformed-json") {
+    const mid = Math.floor(events.length / 2);
+    events[mid] = events[mid].slice(0, Math.floor(events[mid].length / 2)) + "\n\n";
+  }
+  if (scenario === "drop-final-delta") {
+    events.splice(events.length - 2, 1); // the text just before the finish_reason chunk
+  }
+  if (scenario !== "no-done") events.push("data: [DONE]\n\n");
+  return events;
+}
+
+/** Responses API events for a stream, shaped by the scenario */
+function responseEvents(model: string, scenario: MockScenario): string[] {
+  const events = buildResponseEvents(model);
+  if (scenario === "malformed-json") {
+    const mid = Math.floor(events.length / 2);
+    events[mid] = events[mid].slice(0, Math.floor(events[mid].length / 2)) + "\n\n";
+  }
+  if (scenario === "drop-final-delta") {
+    const deltas = events.filter((e) => e.startsWith("event: response.output_text.delta\n"));
+    events.splice(events.lastIndexOf(deltas[deltas.length - 1]), 1);
+  }
+  if (scenario === "no-done") events.pop(); // no response.completed – the Responses analogue of [DONE]
+  return events;
+}
+
+const CHAT_MID_STREAM_ERROR = `data: ${JSON.stringify({
+  error: { message: "Mock inference failure mid-stream", type: "server_error", code: 500 },
+})}\n\n`;
+
+const RESPONSES_MID_STREAM_ERROR = `event: error\ndata: ${JSON.stringify({
+  type: "error",
+  code: "server_error",
+  message: "Mock inference failure mid-stream",
+  param: null,
+})}\n\n`;
+
+/** stream:true – the scenario decides how (and whether) the events go on the wire */
+async function streamEvents(
+  res: ServerResponse,
+  scenario: MockScenario,
+  state: MockState,
+  events: string[],
+  midStreamError: string,
+): Promise<void> {
+  if (scenario === "no-headers") return;
+  if (scenario === "http-500") {
+    return sendError(res, 500, "Mock inference failure", "server_error");
+  }
+
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream",
+    "cache-control": "no-cache",
+    connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  if (scenario === "hang-after-headers") return; // hold the connection open forever
+  if (scenario === "intermittent-hang" && Math.random() < 1 / 3) return;
+
+  if (scenario === "buffered") {
+    await sleep(40 * events.length);
+    if (!closed) res.end(events.join(""));
+    return;
+  }
+
+  // Armed for the whole stream and only cleared by a clean finish, so an abandoned
+  // stream leaves the server wedged regardless of when the disconnect is noticed
+  if (scenario === "wedge-on-cancel") state.wedgedUntil = Date.now() + WEDGE_MS;
+
+  if (scenario === "sse-quirks") events = events.map(quirkyEvent);
+
+  const gapMs = scenario === "slow-drip" ? 1000 : 30;
+  for (let i = 0; i < events.length; i++) {
+    if (closed) return;
+
+    if (scenario === "stall-mid-stream" && i === 3) return; // hold the connection open forever
+
+    if (scenario === "http-500-mid-stream" && i === 3) {
+      res.write(midStreamError);
+      res.destroy();
+      return;
+    }
+
+    res.write(events[i]);
+    if (i < events.length - 1) await sleep(gapMs);
+  }
+  res.end();
+  if (scenario === "wedge-on-cancel") state.wedgedUntil = 0;
+}
+
+/**
+ * "sse-quirks": the same event as a WHATWG parser reads it, written the way a
+ * line-based reader gets wrong – CRLF, a comment line first, and on every
+ * other event no space after "data:"
+ */
+function quirkyEvent(event: string, index: number): string {
+  const fields = index % 2 === 1 ? event.replace(/^data: /gm, "data:") : event;
+  return (": keep-alive\n" + fields).replace(/\n/g, "\r\n");
+}
+
+/** Build well-formed chat.completion.chunk SSE events for the canned reply (or a tool call) */
+function buildChunkEvents(model: string, toolName?: string, tokens = TOKENS): string[] {
+  const id = `chatcmpl-mock-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null): string =>
+    `data: ${JSON.stringify({
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    })}\n\n`;
+
+  if (toolName) {
+    return [
+      chunk(
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ index: 0, id: "call_mock_0", type: "function", function: { name: toolName, arguments: "" } }],
+        },
+        null,
+      ),
+      ...TOOL_ARG_FRAGMENTS.map((f) => chunk({ tool_calls: [{ index: 0, function: { arguments: f } }] }, null)),
+      chunk({}, "tool_calls"),
+    ];
+  }
+
+  return [
+    chunk({ role: "assistant", content: "" }, null),
+    ...tokens.map((t) => chunk({ content: t }, null)),
+    chunk({}, "stop"),
+  ];
+}
+
+/** Build the well-formed Responses API event sequence for the canned reply */
+function buildResponseEvents(model: string): string[] {
+  const id = `resp_mock_${Date.now()}`;
+  const itemId = `msg_mock_${Date.now()}`;
+  const createdAt = Math.floor(Date.now() / 1000);
+  const response = (status: string, output: unknown[], usage: unknown = null) => ({
+    id,
+    object: "response",
+    created_at: createdAt,
+    status,
+    model,
+    output,
+    usage,
+  });
+  const part = (text: string) => ({ type: "output_text", text, annotations: [] });
+  const item = (status: string, content: unknown[]) => ({
+    id: itemId,
+    type: "message",
+    status,
+    role: "assistant",
+    content,
+  });
+
+  let seq = 0;
+  const event = (type: string, fields: Record<string, unknown>): string =>
+    `event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: seq++, ...fields })}\n\n`;
+  const at = { item_id: itemId, output_index: 0, content_index: 0 };
+  const done = item("completed", [part(MOCK_TEXT)]);
+
+  return [
+    event("response.created", { response: response("in_progress", []) }),
+    event("response.in_progress", { response: response("in_progress", []) }),
+    event("response.output_item.added", { output_index: 0, item: item("in_progress", []) }),
+    event("response.content_part.added", { ...at, part: part("") }),
+    ...TOKENS.map((t) => event("response.output_text.delta", { ...at, delta: t })),
+    event("response.output_text.done", { ...at, text: MOCK_TEXT }),
+    event("response.content_part.done", { ...at, part: part(MOCK_TEXT) }),
+    event("response.output_item.done", { output_index: 0, item: done }),
+    event("response.completed", {
+      response: response("completed", [done], {
+        input_tokens: MOCK_USAGE.prompt_tokens,
+        output_tokens: MOCK_USAGE.completion_tokens,
+        total_tokens: MOCK_USAGE.total_tokens,
+      }),
+    }),
+  ];
+}
+
+// ── Helpers ──────────────────────────────────────────────
+
+/** Why a chat completion request is invalid, if it is; `lenient` skips the unknown-parameter check */
+function invalidChatRequest(body: Record<string, unknown>, lenient: boolean): string | undefined {
+  const unknown = Object.keys(body).find((key) => !CHAT_PARAMS.has(key));
+  if (unknown && !lenient) return `Unrecognized request argument supplied: ${unknown}`;
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) return "'messages' must be a non-empty array";
+  for (const [i, m] of (body.messages as unknown[]).entries()) {
+    const role = (m as { role?: unknown } | null)?.role;
+    if (typeof role !== "string" || !CHAT_ROLES.has(role)) {
+      return `Invalid value for 'messages[${i}].role': ${JSON.stringify(role)}`;
+    }
+  }
+
+  const maxTokens = body.max_tokens;
+  if (maxTokens !== undefined && !(typeof maxTokens === "number" && Number.isInteger(maxTokens) && maxTokens > 0)) {
+    return `Invalid 'max_tokens': ${JSON.stringify(maxTokens)} – must be a positive integer`;
+  }
+  return undefined;
+}
+
+/** Whether a request's `response_format` asks for JSON (json_object or json_schema) */
+function wantsJson(responseFormat: unknown): boolean {
+  const type = (responseFormat as { type?: unknown } | undefined)?.type;
+  return type === "json_object" || type === "json_schema";
+}
+
+/** Name of the first function in a request's `tools`, if any */
+function firstToolName(tools: unknown): string | undefined {
+  if (!Array.isArray(tools)) return undefined;
+  const name = (tools[0] as { function?: { name?: unknown } } | undefined)?.function?.name;
+  return typeof name === "string" ? name : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, message: string, type: string): void {
+  sendJson(res, status, { error: { message, type, code: status } });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown> | undefined> {
+  const parts: Buffer[] = [];
+  for await (const part of req) parts.push(part as Buffer);
+  try {
+    const parsed: unknown = JSON.parse(Buffer.concat(parts).toString("utf-8"));
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolvePromise) => setTimeout(resolvePromise, ms));
+}
@@ -0,0 +1,201 @@
+/**
+ * Probe 5 – Mid-stream cancellation and server recovery.
+ *
+ * Foundry Local has been seen to get wedged after a client disconnects
+ * mid-generation. This probe:
+ *   1. Starts a raw streaming request (fetch + SSE parser) and aborts it via
+ *      its AbortController after CANCEL_AFTER_CHUNKS events.
+ *   2. Immediately re-runs the non-streaming probe, then the raw streaming
+ *      probe, as follow-ups.
+ *   3. Reports the recovery latency: ms from the abort until the first
+ *      follow-up completes OK.
+ *
+ * The outcome is OK when every follow-up is OK; otherwise it is the outcome
+ * of the first follow-up that was not. If the stream never got far enough to
+ * be cancelled, that failure is reported and no follow-ups are sent.
+ */
+
+import type { AppConfig } from "../config";
+import type { ChatCompletionRequest, ProbeResult } from "../types";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { parseSSE } from "../sse/parser";
+import { runNonStreamingProbe } from "./non-streaming";
+import { chatRequestFields } from "../prompts/suite";
+import { runRawStreamingProbe } from "./raw-streaming";
+
+export async function runCancellationRecoveryProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const controller = new AbortController();
+
+  // ── Timeout guards (same as the raw streaming probe) ─────
+  let headersReceived = false;
+  let firstEventReceived = false;
+
+  const requestTimer = setTimeout(() => {
+    if (!controller.signal.aborted) controller.abort("REQUEST_TIMEOUT");
+  }, cfg.requestTimeoutMs);
+
+  const firstByteTimer = setTimeout(() => {
+    if (!headersReceived && !controller.signal.aborted) {
+      controller.abort("FIRST_BYTE_TIMEOUT");
+    }
+  }, cfg.firstByteTimeoutMs);
+
+  const firstEventTimer = setTimeout(() => {
+    if (!firstEventReceived && !controller.signal.aborted) {
+      controller.abort("FIRST_EVENT_TIMEOUT");
+    }
+  }, cfg.firstEventTimeoutMs);
+
+  let idleTimer: NodeJS.Timeout | undefined;
+  const armIdleTimer = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      if (!controller.signal.aborted) controller.abort("CHUNK_IDLE_TIMEOUT");
+    }, cfg.chunkIdleTimeoutMs);
+  };
+
+  const url = `${cfg.foundryBaseUrl}/chat/completions`;
+  const body: ChatCompletionRequest = {
+    model: cfg.foundryModel,
+    ...chatRequestFields(cfg.scenario),
+    stream: true,
+  };
+  const pHash = hashPayload(body);
+
+  console.log(
+    `[cancel-recovery] POST ${url}  stream:true  cancel after ${cfg.cancelAfterChunks} chunks  (payload hash: ${pHash})`,
+  );
+
+  let httpStatus: number | undefined;
+  let chunkCount = 0;
+  let cancelAtMs: number | undefined;
+
+  // ── Phase 1: start a stream and cancel it ────────────────
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    headersReceived = true;
+    clearTimeout(firstByteTimer);
+    timer.markTTFB();
+    httpStatus = res.status;
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      timer.stop();
+      return {
+        probe: "cancellation-recovery",
+        outcome: "FAIL",
+        httpStatus,
+        timings: timer.toTimings(),
+        error: `HTTP ${httpStatus}: ${errText.slice(0, 500)}`,
+        payloadHash: pHash,
+      };
+    }
+
+    for await (const evt of parseSSE(res.body, controller.signal)) {
+      chunkCount++;
+      armIdleTimer();
+
+      if (!firstEventReceived) {
+        firstEventReceived = true;
+        clearTimeout(firstEventTimer);
+        timer.markFirstEvent();
+      }
+      timer.markChunk(false);
+
+      if (evt.data === "[DONE]") break;
+
+      if (chunkCount >= cfg.cancelAfterChunks) {
+        cancelAtMs = timer.elapsed();
+        console.log(`[cancel-recovery] Aborting after ${chunkCount} chunks at ${cancelAtMs} ms`);
+        controller.abort("CLIENT_CANCEL");
+      }
+    }
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+
+    // Our own abort surfaces as an AbortError – anything else is a real failure
+    if (!msg.includes("CLIENT_CANCEL")) {
+      timer.stop();
+      let outcome: ProbeResult["outcome"] = "ERROR";
+      if (msg.includes("CHUNK_IDLE_TIMEOUT")) outcome = "STALL";
+      else if (msg.includes("FIRST_BYTE_TIMEOUT")) outcome = "NO_FIRST_BYTE";
+      else if (msg.includes("FIRST_EVENT_TIMEOUT")) outcome = "NO_FIRST_EVENT";
+      else if (msg.includes("REQUEST_TIMEOUT")) outcome = "TIMEOUT";
+
+      console.error(`[cancel-recovery] ${outcome} before the cancel point: ${msg}`);
+      return {
+        probe: "cancellation-recovery",
+        outcome,
+        httpStatus,
+        timings: timer.toTimings(),
+        chunkCount: chunkCount > 0 ? chunkCount : undefined,
+        error: msg,
+        payloadHash: pHash,
+      };
+    }
+  } finally {
+    clearTimeout(requestTimer);
+    clearTimeout(firstByteTimer);
+    clearTimeout(firstEventTimer);
+    clearTimeout(idleTimer);
+  }
+
+  if (cancelAtMs === undefined) {
+    timer.stop();
+    const error = `Stream finished after ${chunkCount} chunks, before the cancel point (CANCEL_AFTER_CHUNKS=${cfg.cancelAfterChunks})`;
+    console.error(`[cancel-recovery] FAIL: ${error}`);
+    return {
+      probe: "cancellation-recovery",
+      outcome: "FAIL",
+      httpStatus,
+      timings: timer.toTimings(),
+      chunkCount,
+      error,
+      payloadHash: pHash,
+    };
+  }
+
+  // ── Phase 2: follow-ups right after the disconnect ───────
+  const followUps: ProbeResult[] = [];
+  let recoveryMs: number | undefined;
+
+  for (const run of [runNonStreamingProbe, runRawStreamingProbe]) {
+    const r = await run(cfg);
+    followUps.push(r);
+    if (r.outcome === "OK" && recoveryMs === undefined) {
+      recoveryMs = timer.elapsed() - cancelAtMs;
+    }
+  }
+  timer.stop();
+
+  const failed = followUps.find((r) => r.outcome !== "OK");
+  const outcome = failed?.outcome ?? "OK";
+
+  console.log(
+    `[cancel-recovery] Done. outcome=${outcome}  follow-ups=${followUps.map((r) => r.outcome).join("/")}  ` +
+      `recovery=${recoveryMs !== undefined ? `${recoveryMs} ms` : "never"}`,
+  );
+
+  return {
+    probe: "cancellation-recovery",
+    outcome,
+    httpStatus,
+    timings: timer.toTimings(),
+    chunkCount,
+    recovery: { cancelledAfterChunk: chunkCount, cancelAtMs, followUps, recoveryMs },
+    error: failed ? `Follow-up ${failed.probe} after cancel: ${failed.error ?? failed.outcome}` : undefined,
+    payloadHash: pHash,
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Probe 14 – Client parser compatibility matrix.
+ *
+ * The other probes parse streams the way this repo does. A server quirk that
+ * our WHATWG parser shrugs off can still break another ecosystem: a missing
+ * space after "data:" defeats hand-rolled line readers, a body left open after
+ * data: [DONE] hangs the OpenAI SDK, a stream without [DONE] makes an
+ * EventSource-style client reconnect. This probe captures one stream:true
+ * reply and feeds the same bytes to four client strategies (sse/clients.ts):
+ *
+ *   • strict-sse          – WHATWG parsing, message events, requires [DONE]
+ *   • line-based          – split on "\n", "data: " lines, stop at [DONE]
+ *   • openai-sdk          – the openai package's Stream decoder
+ *   • eventsource-parser  – WHATWG parsing, every event, ends with the body
+ *
+ * and reports which would succeed, lose content, error or hang. After
+ * data: [DONE] the capture waits up to BODY_END_WAIT_MS for the server to end
+ * the body; one that stays open is handed to the clients still open.
+ *
+ * The replay tool runs the same matrix over a CAPTURE_STREAMS recording
+ * (runClientCompatOnRecording) – no server needed.
+ *
+ * Outcome: a capture that hit a guard or a non-2xx status decides it;
+ * otherwise FAIL if no client is OK, NON_CONFORMANT if some are not, else OK.
+ */
+
+import type { AppConfig } from "../config";
+import type { ChatCompletionRequest, ClientCompatInfo, ProbeOutcome, ProbeResult } from "../types";
+import type { StreamRecording } from "../capture/recorder";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { chatRequestFields } from "../prompts/suite";
+import { runClientMatrix, type CapturedStream } from "../sse/clients";
+import { startGuards, outcomeForError } from "./guards";
+
+/** How long to wait after data: [DONE] for the server to end the body */
+const BODY_END_WAIT_MS = 1000;
+
+const DONE_LINE = /^data: ?\[DONE\]\s*$/m;
+
+export async function runClientCompatProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const url = `${cfg.foundryBaseUrl}/chat/completions`;
+  const body: ChatCompletionRequest = {
+    model: cfg.foundryModel,
+    ...chatRequestFields(cfg.scenario),
+    stream: true,
+    ...(cfg.includeUsage ? { stream_options: { include_usage: true } } : {}),
+  };
+  const pHash = hashPayload(body);
+
+  console.log(`[client-compat] POST ${url}  stream:true  (payload hash: ${pHash})`);
+
+  const captured: CapturedStream = { chunks: [], ended: false, headers: {} };
+  let httpStatus: number | undefined;
+  let doneReceived = false;
+  let outcome: ProbeOutcome | undefined;
+  let error: string | undefined;
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    timer.markTTFB();
+    httpStatus = res.status;
+    res.headers.forEach((v, k) => {
+      captured.headers![k] = v;
+    });
+
+    if (!res.ok || !res.body) {
+      const text = await res.text().catch(() => "");
+      timer.stop();
+      console.log(`[client-compat] HTTP ${res.status} – no stream to compare`);
+      return {
+        probe: "client-compat",
+        outcome: "FAIL",
+        httpStatus,
+        timings: timer.toTimings(),
+        error: `HTTP ${res.status}: ${text.slice(0, 500)}`,
+        payloadHash: pHash,
+      };
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    try {
+      for (;;) {
+        const next = await readWithin(reader, doneReceived ? BODY_END_WAIT_MS : undefined);
+        if (next === undefined) break; // still open after [DONE]
+        if (next.done) {
+          captured.ended = true;
+          break;
+        }
+        if (captured.chunks.length === 0) timer.markFirstEvent();
+        guards.onEvent();
+        captured.chunks.push(next.value);
+        text += decoder.decode(next.value, { stream: true });
+        doneReceived ||= DONE_LINE.test(text);
+      }
+    } finally {
+      if (!captured.ended) await reader.cancel().catch(() => undefined);
+    }
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    outcome = outcomeForError(msg, guards.abortReason());
+    error = msg;
+    // A guard gave up on an open body; anything else broke the connection
+    if (guards.abortReason() === undefined) captured.error = msg;
+  } finally {
+    guards.clear();
+  }
+  timer.stop();
+
+  const bodyEnd: ClientCompatInfo["bodyEnd"] = captured.error !== undefined ? "error" : captured.ended ? "ended" : "open";
+  const clientCompat = await compareClients("live", captured, bodyEnd);
+  const failing = clientCompat.clients.filter((c) => c.outcome !== "OK");
+  if (outcome === undefined) {
+    outcome = matrixOutcome(clientCompat);
+    error = failing.length > 0 ? failing.map((c) => `${c.client}: ${c.outcome} – ${c.detail}`).join("; ") : undefined;
+  }
+
+  console.log(
+    `[client-compat] Done. outcome=${outcome}  ${clientCompat.clients.length - failing.length}/${clientCompat.clients.length} clients OK`,
+  );
+
+  return {
+    probe: "client-compat",
+    outcome,
+    httpStatus,
+    headers: captured.headers,
+    timings: timer.toTimings(),
+    doneReceived,
+    clientCompat,
+    error,
+    payloadHash: pHash,
+  };
+}
+
+/**
+ * The same matrix over a CAPTURE_STREAMS recording of a chat completions
+ * stream. A recording that stopped reading (after [DONE]) does not say
+ * whether the server would have ended the body, so the clients get it ended.
+ */
+export async function runClientCompatOnRecording(recording: StreamRecording): Promise<ProbeResult> {
+  const timer = new Timer();
+  const end = recording.end;
+  // Guard aborts are recorded as errors named after the guard (older recordings: a
+  // generic "operation was aborted") – the client gave up, the body was still open
+  const aborted = end?.error !== undefined && (end.error.endsWith("_TIMEOUT") || /\baborted\b/i.test(end.error));
+  const bodyEnd: ClientCompatInfo["bodyEnd"] =
+    end?.reason === "complete"
+      ? "ended"
+      : end?.reason === "stopped-reading"
+        ? "unknown"
+        : end?.reason === "error" && !aborted
+          ? "error"
+          : "open";
+  const captured: CapturedStream = {
+    chunks: recording.chunks.map((c) => new Uint8Array(Buffer.from(c.bytes, "base64"))),
+    ended: bodyEnd === "ended" || bodyEnd === "unknown",
+    error: bodyEnd === "error" ? (end?.error ?? "connection failed") : undefined,
+    headers: recording.response?.headers,
+  };
+
+  console.log(`[client-compat] Feeding ${captured.chunks.length} recorded byte chunks to each client (body ${bodyEnd})`);
+
+  const clientCompat = await compareClients("recording", captured, bodyEnd);
+  timer.stop();
+  const failing = clientCompat.clients.filter((c) => c.outcome !== "OK");
+  const outcome = matrixOutcome(clientCompat);
+
+  console.log(
+    `[client-compat] Done. outcome=${outcome}  ${clientCompat.clients.length - failing.length}/${clientCompat.clients.length} clients OK`,
+  );
+
+  return {
+    probe: "client-compat",
+    outcome,
+    httpStatus: recording.response?.status,
+    headers: recording.response?.headers,
+    timings: timer.toTimings(),
+    clientCompat,
+    error: failing.length > 0 ? failing.map((c) => `${c.client}: ${c.outcome} – ${c.detail}`).join("; ") : undefined,
+    payloadHash: recording.meta.payloadHash,
+  };
+}
+
+async function compareClients(
+  source: ClientCompatInfo["source"],
+  captured: CapturedStream,
+  bodyEnd: ClientCompatInfo["bodyEnd"],
+): Promise<ClientCompatInfo> {
+  const clients = await runClientMatrix(captured);
+  for (const c of clients) {
+    console.log(
+      `[client-compat] ${c.client.padEnd(20)} ${c.outcome.padEnd(10)} chunks=${c.chunks}  text=${c.textLength} chars  ` +
+        `finish_reason=${c.finishReason ?? "–"}` +
+        (c.detail ? `  ${c.detail}` : ""),
+    );
+  }
+  return {
+    source,
+    bytes: captured.chunks.reduce((n, c) => n + c.byteLength, 0),
+    byteChunks: captured.chunks.length,
+    bodyEnd,
+    clients,
+  };
+}
+
+/** FAIL when no client read the stream, NON_CONFORMANT when only some did */
+function matrixOutcome(info: ClientCompatInfo): ProbeOutcome {
+  const ok = info.clients.filter((c) => c.outcome === "OK").length;
+  return ok === info.clients.length ? "OK" : ok === 0 ? "FAIL" : "NON_CONFORMANT";
+}
+
+/** reader.read(), or undefined if nothing arrives within `ms` (no limit when ms is undefined) */
+async function readWithin(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  ms: number | undefined,
+): Promise<Awaited<ReturnType<typeof reader.read>> | undefined> {
+  if (ms === undefined) return reader.read();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      reader.read(),
+      new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => resolve(undefined), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
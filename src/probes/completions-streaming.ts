@@ -0,0 +1,166 @@
+/**
+ * Probe 9 – Legacy text completions streaming (POST /completions, stream: true).
+ *
+ * Some editors and older tools still request inline suggestions from the
+ * text completions endpoint: a plain `prompt` in, `text_completion` chunks
+ * with `choices[].text` deltas out. This probe sends the current scenario
+ * that way (a conversation flattened into one transcript prompt) via fetch + the hand-rolled SSE parser and records:
+ *   • TTFB, first event, per-delta timing, stalls and buffering
+ *   • SSE protocol anomalies
+ *   • the text reassembled from choices[].text and the finish_reason
+ *   • text_completion chunk shape violations (NON_CONFORMANT outcome)
+ *
+ * A 404 / 405 / 501 means the server has no /completions endpoint; a stream
+ * of chat deltas means it mapped the request onto chat. Both are FAIL, with
+ * an error saying which.
+ */
+
+import type { AppConfig } from "../config";
+import type { ProbeResult, PromptScenario, SSEAnomaly } from "../types";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { parseSSE } from "../sse/parser";
+import { TextCompletionChecker, textCompletionOutcome } from "../sse/text-completion";
+import { StreamRecorder, createRecordingFetch } from "../capture/recorder";
+import { scenarioPrompt } from "../prompts/suite";
+import { startGuards, outcomeForError } from "./guards";
+
+/** HTTP statuses that mean "this server has no /completions endpoint" */
+const UNSUPPORTED_STATUSES = new Set([404, 405, 501]);
+
+/** A prompt scenario as a text completions request body */
+export function completionsPayload(model: string, scenario: PromptScenario) {
+  return {
+    model,
+    prompt: scenarioPrompt(scenario),
+    stream: true as const,
+    max_tokens: scenario.maxTokens,
+    ...(scenario.temperature !== undefined ? { temperature: scenario.temperature } : {}),
+  };
+}
+
+/** The error for a non-2xx answer, naming a missing endpoint as such */
+export function completionsHttpError(status: number, body: string): string {
+  const detail = `HTTP ${status}: ${body.slice(0, 500)}`;
+  return UNSUPPORTED_STATUSES.has(status) ? `/completions not supported – ${detail}` : detail;
+}
+
+export async function runCompletionsStreamingProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const checker = new TextCompletionChecker();
+
+  const url = `${cfg.foundryBaseUrl}/completions`;
+  const body = completionsPayload(cfg.foundryModel, cfg.scenario);
+  const pHash = hashPayload(body);
+  const recorder = cfg.captureStreams ? new StreamRecorder("completions-streaming", pHash) : undefined;
+  const doFetch = recorder ? createRecordingFetch(recorder) : fetch;
+
+  console.log(`[completions] POST ${url}  stream:true  prompt (payload hash: ${pHash})`);
+  if (recorder) console.log(`[completions] Capturing to ${recorder.path}`);
+
+  let httpStatus: number | undefined;
+  let chunkCount = 0;
+  let lastEventMs: number | undefined;
+  const sseAnomalies: SSEAnomaly[] = [];
+
+  try {
+    const res = await doFetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    timer.markTTFB();
+    httpStatus = res.status;
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      timer.stop();
+      const error = completionsHttpError(httpStatus, errText);
+      console.error(`[completions] FAIL: ${error.slice(0, 120)}`);
+      return {
+        probe: "completions-streaming",
+        outcome: "FAIL",
+        httpStatus,
+        timings: timer.toTimings(),
+        error,
+        payloadHash: pHash,
+        recordingPath: recorder?.path,
+      };
+    }
+
+    for await (const evt of parseSSE(res.body, guards.signal, sseAnomalies)) {
+      chunkCount++;
+      lastEventMs = timer.elapsed();
+      guards.onEvent();
+      timer.markFirstEvent();
+
+      const text = checker.checkData(evt.data);
+      if (evt.data === "[DONE]") break;
+      timer.markChunk(Boolean(text));
+    }
+
+    timer.stop();
+    const completions = checker.finish();
+    const timings = timer.toTimings();
+    const buffering = timer.detectBuffering();
+    const { outcome, error } = textCompletionOutcome(completions);
+
+    console.log(
+      `[completions] Done. outcome=${outcome}  chunks=${chunkCount}  done=${completions.doneReceived}  ` +
+        `finish_reason=${completions.finishReason ?? "none"}  total=${timings.totalMs} ms`,
+    );
+    for (const v of completions.violations) {
+      console.warn(`[completions] Non-conformant chunk: ${v}`);
+    }
+
+    return {
+      probe: "completions-streaming",
+      outcome,
+      httpStatus,
+      timings,
+      chunkCount,
+      doneReceived: completions.doneReceived,
+      buffering,
+      sseAnomalies,
+      completions,
+      tokenPreview: completions.text.slice(0, 200),
+      error,
+      payloadHash: pHash,
+      recordingPath: recorder?.path,
+    };
+  } catch (err: unknown) {
+    timer.stop();
+    const msg = err instanceof Error ? err.message : String(err);
+    const outcome = outcomeForError(msg, guards.abortReason());
+    console.error(`[completions] ${outcome}: ${msg}`);
+
+    const completions = checker.finish();
+    return {
+      probe: "completions-streaming",
+      outcome,
+      httpStatus,
+      timings: timer.toTimings(),
+      chunkCount: chunkCount > 0 ? chunkCount : undefined,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
+      sseAnomalies: sseAnomalies.length > 0 ? sseAnomalies : undefined,
+      completions: chunkCount > 0 ? completions : undefined,
+      tokenPreview: completions.text.slice(0, 200) || undefined,
+      error: msg,
+      payloadHash: pHash,
+      recordingPath: recorder?.path,
+    };
+  } finally {
+    recorder?.finish("stopped-reading");
+    guards.clear();
+  }
+}
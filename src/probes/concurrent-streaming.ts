@@ -0,0 +1,116 @@
+/**
+ * Probe 6 – Concurrent streaming (parallel Copilot sessions).
+ *
+ * Copilot opens several completions at once – chat plus inline suggestions –
+ * while every other probe sends one request at a time. This probe fires
+ * CONCURRENT_STREAMS raw streaming probes simultaneously against the selected
+ * model and reports:
+ *
+ *   • per-stream TTFB, first event, total time and throughput
+ *   • streams that hung, stalled or timed out
+ *   • streams that were starved – no event until another stream had finished
+ *   • whether the server serialized the requests (no two streams ever
+ *     generating at the same moment)
+ *
+ * Each stream is a full raw-streaming probe, so the usual timeouts apply to
+ * every one of them. Stream capture is disabled here to keep recordings 1:1
+ * with the sequential probes.
+ */
+
+import type { AppConfig } from "../config";
+import type { ConcurrencyInfo, ConcurrentStreamResult, ProbeOutcome, ProbeResult } from "../types";
+import { Timer } from "../utils/timing";
+import { runRawStreamingProbe } from "./raw-streaming";
+
+/** Outcomes that mean a stream never finished on its own */
+const HUNG_OUTCOMES: ProbeOutcome[] = ["HANG", "NO_FIRST_BYTE", "NO_FIRST_EVENT", "TIMEOUT", "STALL"];
+
+export async function runConcurrentStreamingProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const n = Math.max(1, cfg.concurrentStreams);
+  const streamCfg: AppConfig = { ...cfg, captureStreams: false };
+
+  console.log(`[concurrent] Opening ${n} simultaneous streams to ${cfg.foundryModel}`);
+
+  const results = await Promise.all(Array.from({ length: n }, () => runRawStreamingProbe(streamCfg)));
+  timer.stop();
+
+  const concurrency = analyzeConcurrency(results);
+
+  for (const s of concurrency.perStream) {
+    console.log(
+      `[concurrent] #${s.index} ${s.outcome}  ttfb=${s.ttfbMs ?? "–"} ms  first=${s.firstEventMs ?? "–"} ms  ` +
+        `total=${s.totalMs} ms` +
+        (concurrency.starved.includes(s.index) ? "  (starved)" : ""),
+    );
+  }
+  console.log(
+    `[concurrent] Done. peak parallel=${concurrency.peakParallel}/${n}  serialized=${concurrency.serialized}  ` +
+      `hung=${concurrency.hung.length}  starved=${concurrency.starved.length}`,
+  );
+
+  const failed = concurrency.perStream.find((s) => s.outcome !== "OK");
+
+  return {
+    probe: "concurrent-streaming",
+    outcome: failed?.outcome ?? "OK",
+    timings: timer.toTimings(),
+    chunkCount: results.reduce((sum, r) => sum + (r.chunkCount ?? 0), 0),
+    concurrency,
+    error: failed ? `Stream #${failed.index}: ${failed.error ?? failed.outcome}` : undefined,
+    payloadHash: results[0].payloadHash,
+  };
+}
+
+/** Per-stream metrics plus hung / starved / serialization analysis */
+function analyzeConcurrency(results: ProbeResult[]): ConcurrencyInfo {
+  const t0 = Math.min(...results.map((r) => r.timings.startMs));
+
+  const perStream: ConcurrentStreamResult[] = results.map((r, index) => ({
+    index,
+    outcome: r.outcome,
+    startOffsetMs: r.timings.startMs - t0,
+    ttfbMs: r.timings.ttfbMs,
+    firstEventMs: r.timings.firstEventMs,
+    totalMs: r.timings.totalMs,
+    chunkCount: r.chunkCount,
+    tokensPerSec: r.timings.tokensPerSec,
+    error: r.error,
+  }));
+
+  // Generation window of every stream that produced at least one event (epoch ms)
+  const windows = results
+    .map((r, index) => ({
+      index,
+      from: r.timings.firstEventMs !== undefined ? r.timings.startMs + r.timings.firstEventMs : undefined,
+      to: r.timings.endMs,
+    }))
+    .filter((w): w is { index: number; from: number; to: number } => w.from !== undefined);
+
+  const starved = windows
+    .filter((w) => windows.some((other) => other.index !== w.index && other.to <= w.from))
+    .map((w) => w.index);
+
+  // Sweep: +1 when a window opens, −1 when one closes (closes first on ties)
+  const edges = windows
+    .flatMap((w) => [
+      { at: w.from, delta: 1 },
+      { at: w.to, delta: -1 },
+    ])
+    .sort((a, b) => a.at - b.at || a.delta - b.delta);
+  let active = 0;
+  let peakParallel = 0;
+  for (const e of edges) {
+    active += e.delta;
+    peakParallel = Math.max(peakParallel, active);
+  }
+
+  return {
+    streams: results.length,
+    perStream,
+    hung: perStream.filter((s) => HUNG_OUTCOMES.includes(s.outcome)).map((s) => s.index),
+    starved,
+    peakParallel,
+    serialized: windows.length >= 2 && peakParallel === 1,
+  };
+}
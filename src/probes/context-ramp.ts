@@ -0,0 +1,197 @@
+/**
+ * Probe 10 – Context-length ramp.
+ *
+ * Hangs on real machines correlate with long prompts, which the other probes
+ * never send. This probe pads the current scenario's last user message with
+ * filler text – ~1k tokens, then 2k, 4k … up to CONTEXT_RAMP_MAX_TOKENS – and
+ * at every size runs a non-streaming and a raw streaming request. It records:
+ *
+ *   • TTFB, first-event time, total time and outcome of both requests
+ *   • the prompt_tokens the server counted, when it reports usage
+ *   • the smallest size at which either request fails – a chunk-schema quirk
+ *     (NON_CONFORMANT) still completed, so it does not count
+ *   • the smallest size at which latency jumps far more than doubling the
+ *     prompt explains (prefill should grow roughly linearly)
+ *
+ * Replies are capped at a few tokens so the timings measure prompt
+ * processing, not generation. The ramp stops early once both requests fail
+ * at a size – larger prompts will not do better.
+ */
+
+import type { AppConfig } from "../config";
+import type {
+  ContextRampInfo,
+  ContextRampSample,
+  ContextRampStep,
+  ProbeResult,
+  PromptScenario,
+} from "../types";
+import { Timer } from "../utils/timing";
+import { runNonStreamingProbe } from "./non-streaming";
+import { runRawStreamingProbe } from "./raw-streaming";
+
+/** First filler size; each step doubles it */
+const START_TOKENS = 1024;
+
+/** Rough English average – close enough to aim sizes; usage reports the real count */
+const CHARS_PER_TOKEN = 4;
+
+/** Reply cap, so the timings are dominated by prompt processing */
+const MAX_REPLY_TOKENS = 16;
+
+/**
+ * Latency growth between two consecutive sizes that counts as an explosion:
+ * twice the ~2× a doubled prompt should cost. Ignored below LATENCY_FLOOR_MS,
+ * where a few ms of jitter would trip it.
+ */
+const LATENCY_EXPLOSION_FACTOR = 4;
+const LATENCY_FLOOR_MS = 1000;
+
+const FILLER_SENTENCE =
+  "The committee reviewed the quarterly maintenance logs for the northern facility and noted " +
+  "that every inspection had been completed on schedule without any unusual findings. ";
+
+export async function runContextRampProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const sizes = rampSizes(cfg.contextRampMaxTokens);
+
+  console.log(
+    `[context-ramp] Padding scenario "${cfg.scenario.name}" with ${sizes.map(formatTokens).join(", ")} ` +
+      `tokens of filler (stream:false and stream:true at each size)`,
+  );
+
+  const steps: ContextRampStep[] = [];
+  let payloadHash = "";
+
+  for (const targetTokens of sizes) {
+    // A distinct first line per request, so the second request cannot reuse a cached prefix
+    const nsCfg = rampConfig(cfg, targetTokens, "stream:false");
+    const sCfg = rampConfig(cfg, targetTokens, "stream:true");
+
+    const ns = await runNonStreamingProbe(nsCfg);
+    const s = await runRawStreamingProbe(sCfg);
+    payloadHash ||= ns.payloadHash;
+
+    const step: ContextRampStep = {
+      targetTokens,
+      promptTokens: ns.usage?.promptTokens,
+      streaming: toSample(s),
+      nonStreaming: toSample(ns),
+    };
+    steps.push(step);
+
+    console.log(
+      `[context-ramp] ~${formatTokens(targetTokens)}` +
+        (step.promptTokens !== undefined ? ` (${step.promptTokens} prompt tokens)` : "") +
+        `  stream:false ${ns.outcome} ${ns.timings.totalMs} ms  ` +
+        `stream:true ${s.outcome} ttfb=${s.timings.ttfbMs ?? "–"} ms first=${s.timings.firstEventMs ?? "–"} ms`,
+    );
+
+    if (!completed(ns) && !completed(s)) {
+      console.log(`[context-ramp] Both requests failed at ~${formatTokens(targetTokens)} – stopping the ramp`);
+      break;
+    }
+  }
+  timer.stop();
+
+  const contextRamp = analyzeRamp(steps);
+  console.log(
+    `[context-ramp] Done. fails at=${contextRamp.failsAt !== undefined ? formatTokens(contextRamp.failsAt) : "never"}  ` +
+      `latency explodes at=${contextRamp.latencyExplodesAt !== undefined ? formatTokens(contextRamp.latencyExplodesAt) : "never"}`,
+  );
+
+  // The first failure decides the outcome – streaming first, as that is what hangs in the field
+  const failedStep = steps.find((st) => st.targetTokens === contextRamp.failsAt);
+  const failed = failedStep
+    ? !completed(failedStep.streaming)
+      ? { mode: "stream:true", sample: failedStep.streaming }
+      : { mode: "stream:false", sample: failedStep.nonStreaming }
+    : undefined;
+
+  return {
+    probe: "context-ramp",
+    outcome: failed?.sample.outcome ?? "OK",
+    timings: timer.toTimings(),
+    contextRamp,
+    error:
+      failedStep && failed
+        ? `At ~${formatTokens(failedStep.targetTokens)} tokens, ${failed.mode}: ${failed.sample.error ?? failed.sample.outcome}`
+        : undefined,
+    payloadHash,
+  };
+}
+
+/** START_TOKENS doubled up to maxTokens (always at least the first size) */
+function rampSizes(maxTokens: number): number[] {
+  const sizes = [START_TOKENS];
+  while (sizes[sizes.length - 1] * 2 <= maxTokens) sizes.push(sizes[sizes.length - 1] * 2);
+  return sizes;
+}
+
+/** The probe config with the scenario padded to `targetTokens` and captures off */
+function rampConfig(cfg: AppConfig, targetTokens: number, label: string): AppConfig {
+  return { ...cfg, captureStreams: false, scenario: padScenario(cfg.scenario, targetTokens, label) };
+}
+
+/** Prefix the last user message with filler; earlier turns and the system prompt stay as they are */
+function padScenario(scenario: PromptScenario, targetTokens: number, label: string): PromptScenario {
+  const chars = targetTokens * CHARS_PER_TOKEN;
+  const filler = FILLER_SENTENCE.repeat(Math.ceil(chars / FILLER_SENTENCE.length)).slice(0, chars);
+  const lastUser = scenario.messages.map((m) => m.role).lastIndexOf("user");
+
+  return {
+    ...scenario,
+    maxTokens: MAX_REPLY_TOKENS,
+    messages: scenario.messages.map((m, i) =>
+      i === lastUser
+        ? {
+            ...m,
+            content:
+              `[context-ramp ${targetTokens} ${label}]\n` +
+              `Background notes (not relevant to the question):\n${filler}\n\n${m.content}`,
+          }
+        : m,
+    ),
+  };
+}
+
+function toSample(r: ProbeResult): ContextRampSample {
+  return {
+    outcome: r.outcome,
+    ttfbMs: r.timings.ttfbMs,
+    firstEventMs: r.timings.firstEventMs,
+    totalMs: r.timings.totalMs,
+    error: r.error,
+  };
+}
+
+/** Where requests start failing and where latency stops growing with the prompt */
+function analyzeRamp(steps: ContextRampStep[]): ContextRampInfo {
+  const failsAt = steps.find((s) => !completed(s.streaming) || !completed(s.nonStreaming))?.targetTokens;
+
+  // Time until the model starts answering: the first streamed event, or – when a
+  // stream failed at either size – the whole non-streaming reply
+  const grew = (before: ContextRampStep, now: ContextRampStep): boolean => {
+    const streamed = completed(before.streaming) && completed(now.streaming);
+    const pair = streamed
+      ? [before.streaming.firstEventMs, now.streaming.firstEventMs]
+      : completed(before.nonStreaming) && completed(now.nonStreaming)
+        ? [before.nonStreaming.totalMs, now.nonStreaming.totalMs]
+        : [];
+    const [a, b] = pair;
+    if (a === undefined || b === undefined || b < LATENCY_FLOOR_MS) return false;
+    return b > Math.max(a, 1) * LATENCY_EXPLOSION_FACTOR;
+  };
+  const latencyExplodesAt = steps.find((s, i) => i > 0 && grew(steps[i - 1], s))?.targetTokens;
+
+  return { steps, latencyExplodesAt, failsAt };
+}
+
+/** The request got its reply – schema deviations are the other probes' concern, not a size limit */
+function completed(sample: Pick<ContextRampSample, "outcome">): boolean {
+  return sample.outcome === "OK" || sample.outcome === "NON_CONFORMANT";
+}
+
+function formatTokens(tokens: number): string {
+  return tokens % 1024 === 0 ? `${tokens / 1024}k` : String(tokens);
+}
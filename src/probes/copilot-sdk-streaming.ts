@@ -5,14 +5,26 @@
  * provider type "openai" and wire_api "completions" delegates to the
  * standard OpenAI chat completions wire protocol. The official
  * `openai` npm package is therefore the faithful SDK representation
- * of what Copilot does under the hood.
+ * of what Copilot does under the hood. With COPILOT_WIRE_API=responses
+ * Copilot talks to /responses instead, so the probe streams
+ * `client.responses.create` (see responses-streaming.ts).
  *
  * This probe:
- *   1. Creates an OpenAI client pointed at FOUNDRY_BASE_URL with FOUNDRY_API_KEY.
- *   2. Calls chat.completions.create({ stream: true }).
- *   3. Iterates the async stream and records timing + tokens.
- *   4. Hard-timeboxes the entire operation. If no first event arrives
- *      within FIRST_EVENT_TIMEOUT_MS, it terminates and reports NO_FIRST_EVENT.
+ *   1. Creates an OpenAI client pointed at FOUNDRY_BASE_URL with FOUNDRY_API_KEY,
+ *      sending the headers of the COPILOT_CLIENT_PROFILE client profile.
+ *   2. Calls chat.completions.create({ stream: true }) with the request shape
+ *      of that profile – system prompt, sampling settings and tools included
+ *      (see prompts/client-profiles.ts).
+ *   3. Iterates the async stream and records timing + tokens, checking each
+ *      chunk for chat.completion.chunk conformance.
+ *      With INCLUDE_USAGE, or a profile that sends it, it requests
+ *      stream_options.include_usage and validates the final usage chunk the
+ *      SDK hands back.
+ *   4. With CAPTURE_STREAMS enabled, routes the SDK through a recording
+ *      fetch so the raw bytes it receives are written to an NDJSON file.
+ *   5. Hard-timeboxes the entire operation. If no first event arrives
+ *      within FIRST_EVENT_TIMEOUT_MS, it terminates and reports NO_FIRST_EVENT;
+ *      if the stream goes silent for CHUNK_IDLE_TIMEOUT_MS after that, STALL.
  */
 
 import OpenAI from "openai";
@@ -20,9 +32,15 @@ import type { AppConfig } from "../config";
 import type { ProbeResult } from "../types";
 import { Timer } from "../utils/timing";
 import { hashPayload } from "../utils/hash";
-import { PROBE_MESSAGES } from "./non-streaming";
+import { ChunkConformanceChecker } from "../sse/conformance";
+import { StreamUsageTracker } from "../sse/usage";
+import { StreamRecorder, createRecordingFetch } from "../capture/recorder";
+import { profileLabel, profileRequestFields } from "../prompts/client-profiles";
+import { runSdkResponsesStream } from "./responses-streaming";
 
 export async function runCopilotSdkStreamingProbe(cfg: AppConfig): Promise<ProbeResult> {
+  if (cfg.copilotWireApi === "responses") return runSdkResponsesStream(cfg);
+
   const timer = new Timer();
 
   // AbortController for hard timebox
@@ -40,19 +58,35 @@ export async function runCopilotSdkStreamingProbe(cfg: AppConfig): Promise<Probe
     }
   }, cfg.firstEventTimeoutMs);
 
+  // Re-armed on every chunk: fires when an already-flowing stream goes silent
+  let idleTimer: NodeJS.Timeout | undefined;
+  let lastEventMs: number | undefined;
+  const armIdleTimer = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      if (!controller.signal.aborted) controller.abort("CHUNK_IDLE_TIMEOUT");
+    }, cfg.chunkIdleTimeoutMs);
+  };
+
+  const profile = cfg.clientProfile;
   const payload = {
     model: cfg.foundryModel,
-    messages: [...PROBE_MESSAGES],
+    ...profileRequestFields(profile, cfg.scenario),
     stream: true as const,
-    max_tokens: 256,
+    ...(cfg.includeUsage ? { stream_options: { include_usage: true } } : {}),
   };
+  const includeUsage = payload.stream_options?.include_usage === true;
   const pHash = hashPayload(payload);
+  const recorder = cfg.captureStreams
+    ? new StreamRecorder("copilot-sdk-streaming", pHash)
+    : undefined;
 
   console.log(
     `[copilot-sdk] OpenAI SDK streaming via ${cfg.foundryBaseUrl}  ` +
-      `provider=${cfg.copilotByokProviderType}  wire=${cfg.copilotWireApi}  ` +
+      `provider=${cfg.copilotByokProviderType}  wire=${cfg.copilotWireApi}  profile=${profileLabel(profile)}  ` +
       `(payload hash: ${pHash})`,
   );
+  if (recorder) console.log(`[copilot-sdk] Capturing to ${recorder.path}`);
 
   // ── Create OpenAI client pointed at Foundry Local ─────────
   const client = new OpenAI({
@@ -60,11 +94,16 @@ export async function runCopilotSdkStreamingProbe(cfg: AppConfig): Promise<Probe
     baseURL: cfg.foundryBaseUrl,
     timeout: cfg.requestTimeoutMs,
     maxRetries: 0,
+    defaultHeaders: profile.headers,
+    // Capture swaps the SDK's default fetch for a recording wrapper around global fetch
+    ...(recorder ? { fetch: createRecordingFetch(recorder, controller.signal) } : {}),
   });
 
   let chunkCount = 0;
   let doneReceived = false;
   const tokenParts: string[] = [];
+  const checker = new ChunkConformanceChecker();
+  const usageTracker = new StreamUsageTracker();
   let httpStatus: number | undefined;
   let headers: Record<string, string> | undefined;
 
@@ -90,23 +129,29 @@ export async function runCopilotSdkStreamingProbe(cfg: AppConfig): Promise<Probe
     }
 
     console.log(
-      `[copilot-sdk] Stream object obtained (TTFB ${timer.toTimings().ttfbMs} ms)`,
+      `[copilot-sdk] Stream object obtained (TTFB ${timer.elapsed()} ms)`,
     );
 
     for await (const chunk of stream) {
       chunkCount++;
+      lastEventMs = timer.elapsed();
+      armIdleTimer();
 
       if (!firstEventReceived) {
         firstEventReceived = true;
         clearTimeout(firstEventTimer);
         timer.markFirstEvent();
         console.log(
-          `[copilot-sdk] First chunk at ${timer.toTimings().firstEventMs} ms`,
+          `[copilot-sdk] First chunk at ${timer.elapsed()} ms`,
         );
       }
 
+      checker.checkChunk(chunk);
+      usageTracker.checkChunk(chunk);
+
       // Extract token content
       const delta = chunk.choices?.[0]?.delta;
+      timer.markChunk(Boolean(delta?.content));
       if (delta?.content) {
         tokenParts.push(delta.content);
       }
@@ -118,38 +163,79 @@ export async function runCopilotSdkStreamingProbe(cfg: AppConfig): Promise<Probe
       }
     }
 
+    // The SDK ends the iterator quietly when its signal aborts – that is not a clean finish
+    if (controller.signal.aborted) {
+      throw new Error(`Stream aborted: ${String(controller.signal.reason)}`);
+    }
+
     // After iterator exhausts, [DONE] has been received
     if (!doneReceived && chunkCount > 0) {
       doneReceived = true; // Iterator completing means [DONE] was processed by SDK
     }
 
     timer.stop();
+    const usage = usageTracker.result();
+    if (usage) timer.setCompletionTokens(usage.completionTokens);
     const timings = timer.toTimings();
+    const buffering = timer.detectBuffering();
 
-    const outcome = doneReceived ? "OK" : chunkCount > 0 ? "FAIL" : "NO_FIRST_EVENT";
+    // The SDK consumes data:[DONE] internally, so it cannot be checked here
+    const conformanceViolations = checker.finish(false);
+    const usageCheck = includeUsage ? usageTracker.finish(doneReceived) : undefined;
+    const outcome: ProbeResult["outcome"] = doneReceived
+      ? conformanceViolations.length > 0 || usageCheck?.problems.length ? "NON_CONFORMANT" : "OK"
+      : chunkCount > 0 ? "FAIL" : "NO_FIRST_EVENT";
 
     console.log(
       `[copilot-sdk] Done. outcome=${outcome}  chunks=${chunkCount}  ` +
         `tokens=${tokenParts.length}  total=${timings.totalMs} ms`,
     );
+    if (buffering) {
+      console.warn(
+        `[copilot-sdk] Buffered: first chunk at ${Math.round(buffering.firstChunkRatio * 100)}% of stream time, ` +
+          `${Math.round(buffering.burstRatio * 100)}% of chunks within ${buffering.burstWindowMs} ms`,
+      );
+    }
+    for (const v of conformanceViolations) {
+      console.warn(`[copilot-sdk] Non-conformant chunk ${v.rule}: ${v.message}`);
+    }
+    if (usage) {
+      console.log(
+        `[copilot-sdk] Usage: prompt=${usage.promptTokens}  completion=${usage.completionTokens}  total=${usage.totalTokens}`,
+      );
+    }
+    for (const problem of usageCheck?.problems ?? []) {
+      console.warn(`[copilot-sdk] Usage: ${problem}`);
+    }
 
     return {
       probe: "copilot-sdk-streaming",
+      wireApi: "completions",
+      clientProfile: profileLabel(profile),
       outcome,
       httpStatus,
       headers,
       timings,
       chunkCount,
       doneReceived,
+      buffering,
+      conformanceViolations,
+      usage,
+      usageCheck,
       tokenPreview: tokenParts.join("").slice(0, 200),
       payloadHash: pHash,
+      recordingPath: recorder?.path,
     };
   } catch (err: unknown) {
     timer.stop();
     const msg = err instanceof Error ? err.message : String(err);
+    // The SDK reports its own "Request was aborted." – the reason lives on the signal
+    const abortReason = controller.signal.aborted ? String(controller.signal.reason) : "";
 
     let outcome: ProbeResult["outcome"] = "ERROR";
-    if (msg.includes("FIRST_EVENT_TIMEOUT") || msg.includes("NO_FIRST_EVENT")) {
+    if (abortReason === "CHUNK_IDLE_TIMEOUT") {
+      outcome = "STALL";
+    } else if (msg.includes("FIRST_EVENT_TIMEOUT") || msg.includes("NO_FIRST_EVENT")) {
       outcome = "NO_FIRST_EVENT";
     } else if (msg.includes("REQUEST_TIMEOUT")) {
       outcome = "TIMEOUT";
@@ -163,18 +249,27 @@ export async function runCopilotSdkStreamingProbe(cfg: AppConfig): Promise<Probe
 
     return {
       probe: "copilot-sdk-streaming",
+      wireApi: "completions",
+      clientProfile: profileLabel(profile),
       outcome,
       httpStatus,
       headers,
       timings: timer.toTimings(),
       chunkCount: chunkCount > 0 ? chunkCount : undefined,
       doneReceived,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
       error: msg,
       payloadHash: pHash,
+      recordingPath: recorder?.path,
     };
   } finally {
+    recorder?.finish("stopped-reading");
     clearTimeout(requestTimer);
     clearTimeout(firstEventTimer);
+    clearTimeout(idleTimer);
   }
 }
 
@@ -0,0 +1,214 @@
+/**
+ * Probe 12 – Error-path contract.
+ *
+ * The OpenAI SDK – and with it Copilot – turns a failed request into an
+ * APIError only when the server answers promptly with an error status and an
+ * OpenAI-shaped body. A server that streams anyway, answers 500 to a client
+ * mistake (the SDK retries those) or hangs leaves Copilot spinning instead of
+ * showing the message. This probe sends deliberately bad stream:true requests:
+ *
+ *   • unknown-model        – a model name the server does not have
+ *   • malformed-json       – a truncated request body
+ *   • invalid-role         – a message with role "wizard"
+ *   • negative-max-tokens  – max_tokens: -1
+ *   • unsupported-param    – best_of, which only legacy completions accept
+ *
+ * and checks every reply against the contract:
+ *
+ *   • headers within FIRST_BYTE_TIMEOUT_MS, the whole reply within the other guards
+ *   • a 4xx status – not 2xx (accepted) and not 5xx (blamed on the server)
+ *   • Content-Type application/json, not an SSE stream
+ *   • a body of the form { error: { message, type, code } }, message non-empty
+ *
+ * Outcome: a case that hung decides it; otherwise FAIL if a bad request was
+ * accepted, NON_CONFORMANT if an error reply broke the contract, else OK.
+ */
+
+import type { AppConfig } from "../config";
+import type { ErrorContractCase, ProbeOutcome, ProbeResult } from "../types";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { chatRequestFields } from "../prompts/suite";
+import { startGuards, outcomeForError } from "./guards";
+
+/** Cap on the response body kept in the report */
+const BODY_LIMIT = 300;
+
+interface BadRequest {
+  name: string;
+  description: string;
+  /** Raw request body – not always valid JSON */
+  body: string;
+}
+
+export async function runErrorContractProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const requests = badRequests(cfg);
+  const pHash = hashPayload(requests.map((r) => r.body));
+
+  console.log(
+    `[error-contract] Sending ${requests.length} bad stream:true requests: ${requests.map((r) => r.name).join(", ")}  ` +
+      `(payload hash: ${pHash})`,
+  );
+
+  const cases: ErrorContractCase[] = [];
+  for (const request of requests) {
+    const c = await sendBadRequest(cfg, request);
+    cases.push(c);
+    console.log(
+      `[error-contract] ${c.name.padEnd(20)} ${c.outcome}  status=${c.httpStatus ?? "–"}  ` +
+        `content-type=${c.contentType ?? "–"}  ${c.totalMs} ms` +
+        (c.violations.length > 0 ? `  ${c.violations.join("; ")}` : ""),
+    );
+  }
+  timer.stop();
+
+  // A hang is the worst answer, then accepting the request, then a malformed error
+  const hung = cases.find((c) => !["OK", "FAIL", "NON_CONFORMANT"].includes(c.outcome));
+  const failed = hung ?? cases.find((c) => c.outcome === "FAIL") ?? cases.find((c) => c.outcome === "NON_CONFORMANT");
+  const outcome: ProbeOutcome = failed?.outcome ?? "OK";
+
+  console.log(
+    `[error-contract] Done. outcome=${outcome}  ${cases.filter((c) => c.outcome === "OK").length}/${cases.length} replies met the contract`,
+  );
+
+  return {
+    probe: "error-contract",
+    outcome,
+    timings: timer.toTimings(),
+    errorContract: { cases },
+    error: failed ? `${failed.name}: ${[...failed.violations, failed.error].filter(Boolean).join("; ")}` : undefined,
+    payloadHash: pHash,
+  };
+}
+
+/** The bad requests, built from the current scenario so only the mistake differs */
+function badRequests(cfg: AppConfig): BadRequest[] {
+  const base = { model: cfg.foundryModel, stream: true, ...chatRequestFields(cfg.scenario) };
+  const valid = JSON.stringify(base);
+
+  return [
+    {
+      name: "unknown-model",
+      description: "A model name the server does not have",
+      body: JSON.stringify({ ...base, model: `${cfg.foundryModel}-does-not-exist` }),
+    },
+    {
+      name: "malformed-json",
+      description: "The request body is truncated, invalid JSON",
+      body: valid.slice(0, Math.floor(valid.length / 2)),
+    },
+    {
+      name: "invalid-role",
+      description: 'A message with role "wizard"',
+      body: JSON.stringify({ ...base, messages: [{ role: "wizard", content: "Hello" }] }),
+    },
+    {
+      name: "negative-max-tokens",
+      description: "max_tokens: -1",
+      body: JSON.stringify({ ...base, max_tokens: -1 }),
+    },
+    {
+      name: "unsupported-param",
+      description: "best_of, a legacy completions parameter chat completions do not accept",
+      body: JSON.stringify({ ...base, best_of: 2 }),
+    },
+  ];
+}
+
+async function sendBadRequest(cfg: AppConfig, request: BadRequest): Promise<ErrorContractCase> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const result = (
+    outcome: ProbeOutcome,
+    extra: Partial<Omit<ErrorContractCase, "name" | "description" | "outcome" | "totalMs">> = {},
+  ): ErrorContractCase => {
+    timer.stop();
+    return {
+      name: request.name,
+      description: request.description,
+      outcome,
+      totalMs: timer.toTimings().totalMs,
+      violations: [],
+      ...extra,
+    };
+  };
+
+  let httpStatus: number | undefined;
+  let contentType: string | undefined;
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: request.body,
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    httpStatus = res.status;
+    contentType = res.headers.get("content-type") ?? undefined;
+
+    // A stream means the request was accepted – do not wait for it to finish
+    if (contentType?.includes("text/event-stream")) {
+      await res.body?.cancel().catch(() => undefined);
+      return result("FAIL", {
+        httpStatus,
+        contentType,
+        violations: [`answered with an SSE stream (HTTP ${httpStatus}) instead of an error`],
+      });
+    }
+
+    const body = await res.text();
+    const violations = checkErrorReply(httpStatus, contentType, body);
+    return result(res.ok ? "FAIL" : violations.length > 0 ? "NON_CONFORMANT" : "OK", {
+      httpStatus,
+      contentType,
+      body: body.slice(0, BODY_LIMIT),
+      violations,
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return result(outcomeForError(msg, guards.abortReason()), {
+      httpStatus,
+      contentType,
+      violations: [httpStatus === undefined ? "no response headers" : "response body never completed"],
+      error: msg,
+    });
+  } finally {
+    guards.clear();
+  }
+}
+
+/** Ways a reply breaks the OpenAI error contract – empty when it is a proper error */
+function checkErrorReply(status: number, contentType: string | undefined, body: string): string[] {
+  const violations: string[] = [];
+
+  if (status < 400) violations.push(`HTTP ${status} – the bad request was accepted`);
+  else if (status >= 500) violations.push(`HTTP ${status} for a client mistake – the OpenAI SDK retries 5xx`);
+  if (!contentType?.includes("application/json")) {
+    violations.push(`Content-Type ${contentType ?? "missing"}, expected application/json`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    violations.push(body.trim() === "" ? "empty body" : "body is not JSON");
+    return violations;
+  }
+
+  const error = (parsed as { error?: unknown } | null)?.error;
+  if (typeof error !== "object" || error === null) {
+    violations.push("body has no `error` object");
+    return violations;
+  }
+  const e = error as Record<string, unknown>;
+  if (typeof e.message !== "string" || e.message === "") violations.push("error.message missing or empty");
+  if (typeof e.type !== "string") violations.push("error.type missing");
+  if (!("code" in e)) violations.push("error.code missing");
+  return violations;
+}
@@ -0,0 +1,65 @@
+/**
+ * Timeout guards for streaming requests – the FIRST_BYTE / FIRST_EVENT /
+ * CHUNK_IDLE / REQUEST timers of the raw streaming probe, bundled around one
+ * AbortController for probes that issue more than one stream.
+ */
+
+import type { AppConfig } from "../config";
+import type { ProbeOutcome } from "../types";
+
+export interface StreamGuards {
+  signal: AbortSignal;
+  /** Response headers arrived – disarms the first-byte timeout */
+  onHeaders(): void;
+  /** A chunk arrived – disarms the first-event timeout and re-arms the idle timeout */
+  onEvent(): void;
+  /** The reason a guard aborted the request, if one did */
+  abortReason(): string | undefined;
+  clear(): void;
+}
+
+export function startGuards(cfg: AppConfig): StreamGuards {
+  const controller = new AbortController();
+  const abort = (reason: string) => () => {
+    if (!controller.signal.aborted) controller.abort(reason);
+  };
+
+  const requestTimer = setTimeout(abort("REQUEST_TIMEOUT"), cfg.requestTimeoutMs);
+  const firstByteTimer = setTimeout(abort("FIRST_BYTE_TIMEOUT"), cfg.firstByteTimeoutMs);
+  const firstEventTimer = setTimeout(abort("FIRST_EVENT_TIMEOUT"), cfg.firstEventTimeoutMs);
+  let idleTimer: NodeJS.Timeout | undefined;
+
+  return {
+    signal: controller.signal,
+    onHeaders: () => clearTimeout(firstByteTimer),
+    onEvent: () => {
+      clearTimeout(firstEventTimer);
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(abort("CHUNK_IDLE_TIMEOUT"), cfg.chunkIdleTimeoutMs);
+    },
+    abortReason: () => (controller.signal.aborted ? String(controller.signal.reason) : undefined),
+    clear: () => {
+      clearTimeout(requestTimer);
+      clearTimeout(firstByteTimer);
+      clearTimeout(firstEventTimer);
+      clearTimeout(idleTimer);
+    },
+  };
+}
+
+/** Map a failed request to an outcome, preferring the reason a guard aborted with */
+export function outcomeForError(msg: string, abortReason: string | undefined): ProbeOutcome {
+  switch (abortReason) {
+    case "CHUNK_IDLE_TIMEOUT":
+      return "STALL";
+    case "FIRST_BYTE_TIMEOUT":
+      return "NO_FIRST_BYTE";
+    case "FIRST_EVENT_TIMEOUT":
+      return "NO_FIRST_EVENT";
+    case "REQUEST_TIMEOUT":
+      return "TIMEOUT";
+  }
+  if (msg.includes("ECONNREFUSED") || msg.includes("ENOTFOUND")) return "FAIL";
+  if (msg.includes("timed out")) return "TIMEOUT";
+  return "ERROR";
+}
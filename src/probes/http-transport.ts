@@ -0,0 +1,402 @@
+/**
+ * Probe 13 – HTTP transport diagnostics (node:http, below fetch).
+ *
+ * fetch (undici) decodes the chunked body and buffers as it sees fit, so a
+ * late event in the other probes could be the server or the client. This
+ * probe sends the streaming request with node:http and watches the socket
+ * itself:
+ *
+ *   • TCP connect (and TLS handshake) time, and when the headers arrived
+ *   • every raw read from the socket after the headers – time and byte count
+ *   • when each SSE event came off the socket, and whether they all came in
+ *     one burst at the end (server-side buffering)
+ *   • chunked transfer-encoding frames: when each size line arrived, and
+ *     how many frames the server packed into one read
+ *   • Connection / Keep-Alive / Transfer-Encoding response headers
+ *   • whether the socket closes after data: [DONE], and whether a follow-up
+ *     request on the same keep-alive agent reuses it
+ *
+ * The FIRST_EVENT and CHUNK_IDLE guards apply to socket reads, so a STALL
+ * here means the server stopped sending. report.ts puts this view next to
+ * the raw-streaming probe's (report.transport).
+ */
+
+import { Agent as HttpAgent, request as httpRequest, type IncomingMessage } from "node:http";
+import { Agent as HttpsAgent, request as httpsRequest } from "node:https";
+import type { Socket } from "node:net";
+import type { AppConfig } from "../config";
+import type { ChatCompletionRequest, ProbeOutcome, ProbeResult, TransportInfo } from "../types";
+import { Timer, detectBuffering } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { chatRequestFields } from "../prompts/suite";
+import { startGuards, outcomeForError, type StreamGuards } from "./guards";
+
+/** How long to watch for the server closing the socket once the response has ended */
+const CLOSE_WAIT_MS = 1000;
+
+/** Cap on the reads and frames kept in the report */
+const LIST_LIMIT = 500;
+
+/** Response headers that decide how a stream travels */
+const TRANSPORT_HEADERS = [
+  "content-type",
+  "transfer-encoding",
+  "content-length",
+  "content-encoding",
+  "connection",
+  "keep-alive",
+  "cache-control",
+  "x-accel-buffering",
+];
+
+const DONE_LINE = /^data: ?\[DONE\]\s*$/m;
+
+type AnyAgent = HttpAgent | HttpsAgent;
+
+export async function runHttpTransportProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const url = new URL(`${cfg.foundryBaseUrl}/chat/completions`);
+  const body: ChatCompletionRequest = {
+    model: cfg.foundryModel,
+    ...chatRequestFields(cfg.scenario),
+    stream: true,
+  };
+  const pHash = hashPayload(body);
+  // One keep-alive socket, so the follow-up request can only reuse it or open a new one
+  const agent: AnyAgent =
+    url.protocol === "https:"
+      ? new HttpsAgent({ keepAlive: true, maxSockets: 1 })
+      : new HttpAgent({ keepAlive: true, maxSockets: 1 });
+
+  console.log(`[http-transport] POST ${url.href} via node:http (stream:true, payload hash: ${pHash})`);
+
+  const guards = startGuards(cfg);
+  const wire = new WireWatcher(timer, guards);
+  const transport: TransportInfo = {
+    protocol: url.protocol,
+    headers: {},
+    reads: [],
+    readCount: 0,
+    bodyBytes: 0,
+    eventCount: 0,
+    closedAfterEnd: false,
+  };
+
+  let outcome: ProbeOutcome = "OK";
+  let error: string | undefined;
+  try {
+    const res = await streamRequest(url, agent, body, cfg, timer, guards, wire, transport);
+    timer.stop(); // the keep-alive checks below are not part of the stream
+    if (res.status < 200 || res.status >= 300) {
+      outcome = "FAIL";
+      error = `HTTP ${res.status}: ${res.text.slice(0, 500)}`;
+    } else if (transport.doneMs === undefined) {
+      outcome = "FAIL";
+      error = "Stream ended without data: [DONE]";
+    }
+
+    // Keep-alive: does the server close the socket, and will the next request reuse it?
+    const endedAt = Date.now();
+    const closedAt = await wire.closed(CLOSE_WAIT_MS);
+    transport.closedAfterEnd = closedAt !== undefined;
+    if (closedAt !== undefined) transport.closedAfterEndMs = Math.max(0, closedAt - endedAt);
+    transport.socketReused = await followUpReusesSocket(url, agent, body, cfg);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    outcome = outcomeForError(msg, guards.abortReason());
+    error = msg;
+  } finally {
+    guards.clear();
+    wire.detach();
+    agent.destroy();
+  }
+
+  timer.stop();
+  const timings = timer.toTimings();
+  wire.summarize(transport, timings.totalMs);
+  transport.buffering = detectBuffering(wire.eventArrivals);
+
+  console.log(
+    `[http-transport] Done. outcome=${outcome}  connect=${transport.connectMs ?? "–"} ms  headers=${transport.headersMs ?? "–"} ms  ` +
+      `reads=${transport.readCount}  frames=${transport.frameCount ?? "n/a"}  ` +
+      `longest silence=${transport.longestSilence?.ms ?? "–"} ms  closed after end=${transport.closedAfterEnd}  ` +
+      `socket reused=${transport.socketReused ?? "–"}`,
+  );
+
+  return {
+    probe: "http-transport",
+    outcome,
+    httpStatus: transport.httpStatus,
+    timings,
+    chunkCount: transport.readCount,
+    doneReceived: transport.doneMs !== undefined,
+    transport,
+    error,
+    payloadHash: pHash,
+  };
+}
+
+/** The streaming request; resolves when the response ends, rejects on error or a guard */
+function streamRequest(
+  url: URL,
+  agent: AnyAgent,
+  body: ChatCompletionRequest,
+  cfg: AppConfig,
+  timer: Timer,
+  guards: StreamGuards,
+  wire: WireWatcher,
+  transport: TransportInfo,
+): Promise<{ status: number; text: string }> {
+  return new Promise((resolvePromise, reject) => {
+    const req = (url.protocol === "https:" ? httpsRequest : httpRequest)(url, {
+      method: "POST",
+      agent,
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      signal: guards.signal,
+    });
+
+    req.on("socket", (socket) => {
+      if (socket.connecting) {
+        socket.once("connect", () => (transport.connectMs = timer.elapsed()));
+        socket.once("secureConnect", () => (transport.tlsMs = timer.elapsed()));
+      }
+      wire.attach(socket);
+    });
+
+    req.on("response", (res: IncomingMessage) => {
+      guards.onHeaders();
+      timer.markTTFB();
+      transport.headersMs = timer.elapsed();
+      transport.httpStatus = res.statusCode;
+      transport.httpVersion = res.httpVersion;
+      for (const name of TRANSPORT_HEADERS) {
+        const value = res.headers[name];
+        if (value !== undefined) transport.headers[name] = Array.isArray(value) ? value.join(", ") : value;
+      }
+
+      let text = "";
+      // A "\r" ending a read may be the first half of a CRLF split across reads
+      let pendingCR = false;
+      // Whether text ends in a "\n" that does not yet close a blank line
+      let openNewline = false;
+      const append = (raw: string): void => {
+        const lineStart = text.lastIndexOf("\n") + 1;
+        const added = raw.replace(/\r\n?/g, "\n");
+        text += added;
+
+        // Events whose terminating blank line arrived in this read
+        let events = 0;
+        for (const ch of added) {
+          if (ch === "\n" && openNewline) events++;
+          openNewline = ch === "\n" && !openNewline;
+        }
+        wire.onEvents(events);
+        if (transport.doneMs === undefined && DONE_LINE.test(text.slice(lineStart))) transport.doneMs = timer.elapsed();
+      };
+
+      res.setEncoding("utf-8");
+      res.on("data", (part: string) => {
+        let raw = (pendingCR ? "\r" : "") + part;
+        pendingCR = raw.endsWith("\r");
+        if (pendingCR) raw = raw.slice(0, -1);
+        append(raw);
+      });
+      res.on("end", () => {
+        if (pendingCR) append("\r");
+        wire.onEnd();
+        resolvePromise({ status: res.statusCode ?? 0, text });
+      });
+      res.on("error", reject);
+    });
+
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+/**
+ * A small non-streaming request on the same agent.
+ * @returns Whether it went out on the streaming request's socket (undefined if it failed)
+ */
+function followUpReusesSocket(
+  url: URL,
+  agent: AnyAgent,
+  body: ChatCompletionRequest,
+  cfg: AppConfig,
+): Promise<boolean | undefined> {
+  return new Promise((resolvePromise) => {
+    const req = (url.protocol === "https:" ? httpsRequest : httpRequest)(url, {
+      method: "POST",
+      agent,
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${cfg.foundryApiKey}` },
+      signal: AbortSignal.timeout(cfg.requestTimeoutMs),
+    });
+    req.on("response", (res) => {
+      res.resume();
+      res.on("end", () => resolvePromise(req.reusedSocket));
+      res.on("error", () => resolvePromise(undefined));
+    });
+    req.on("error", () => resolvePromise(undefined));
+    req.end(JSON.stringify({ ...body, stream: false, max_tokens: 1 }));
+  });
+}
+
+/**
+ * Listens to the raw socket next to the HTTP parser: skips the header
+ * block, then records each body read and walks the chunked framing.
+ */
+class WireWatcher {
+  private socket: Socket | undefined;
+  /** Epoch ms – the timer has stopped by the time the socket closes */
+  private closedAt: number | undefined;
+  private onClose: (() => void) | undefined;
+
+  private headerBytes = Buffer.alloc(0);
+  private inBody = false;
+  private chunked = false;
+
+  private readonly reads: { atMs: number; bytes: number; frames: number }[] = [];
+  private readonly frames: { atMs: number; size: number }[] = [];
+  /** Arrival of each SSE event (ms since the request started) */
+  readonly eventArrivals: number[] = [];
+  private endMs: number | undefined;
+
+  // Chunked-framing state
+  private pending = Buffer.alloc(0);
+  private state: "size" | "data" | "crlf" | "trailer" | "invalid" = "size";
+  private remaining = 0;
+
+  constructor(
+    private readonly timer: Timer,
+    private readonly guards: StreamGuards,
+  ) {}
+
+  private readonly onData = (buf: Buffer): void => {
+    if (!this.inBody) {
+      this.headerBytes = Buffer.concat([this.headerBytes, buf]);
+      const end = this.headerBytes.indexOf("\r\n\r\n");
+      if (end === -1) return;
+      const head = this.headerBytes.subarray(0, end).toString("latin1");
+      this.chunked = /^transfer-encoding:.*chunked/im.test(head);
+      this.inBody = true;
+      buf = this.headerBytes.subarray(end + 4);
+      if (buf.length === 0) return;
+    }
+
+    const atMs = this.timer.elapsed();
+    this.timer.markChunk(false);
+    this.guards.onEvent();
+    this.reads.push({ atMs, bytes: buf.length, frames: this.chunked ? this.walkFrames(buf, atMs) : 0 });
+  };
+
+  attach(socket: Socket): void {
+    this.socket = socket;
+    socket.on("data", this.onData);
+    socket.once("close", () => {
+      this.closedAt = Date.now();
+      this.onClose?.();
+    });
+  }
+
+  /** `count` SSE events completed in the body read that just arrived */
+  onEvents(count: number): void {
+    const atMs = this.timer.elapsed();
+    for (let i = 0; i < count; i++) this.eventArrivals.push(atMs);
+  }
+
+  /** The response ended – stop reading, so a reused socket's next response is not counted */
+  onEnd(): void {
+    this.endMs ??= this.timer.elapsed();
+    this.socket?.off("data", this.onData);
+  }
+
+  detach(): void {
+    this.socket?.off("data", this.onData);
+  }
+
+  /** When the socket closed (epoch ms), waiting up to `waitMs` for it to happen */
+  async closed(waitMs: number): Promise<number | undefined> {
+    if (this.closedAt === undefined) {
+      await new Promise<void>((resolvePromise) => {
+        const timeout = setTimeout(resolvePromise, waitMs);
+        this.onClose = () => {
+          clearTimeout(timeout);
+          resolvePromise();
+        };
+      });
+    }
+    return this.closedAt;
+  }
+
+  /** Fill in `t` from what was seen; `totalMs` is when the request finished or was aborted */
+  summarize(t: TransportInfo, totalMs: number): void {
+    t.readCount = this.reads.length;
+    t.bodyBytes = this.reads.reduce((sum, r) => sum + r.bytes, 0);
+    t.reads = this.reads.slice(0, LIST_LIMIT).map(({ atMs, bytes }) => ({ atMs, bytes }));
+    t.endMs = this.endMs;
+
+    let longest: TransportInfo["longestSilence"];
+    for (let i = 1; i < this.reads.length; i++) {
+      const ms = this.reads[i].atMs - this.reads[i - 1].atMs;
+      if (!longest || ms > longest.ms) longest = { ms, afterRead: i };
+    }
+    // A body that never ended was silent from its last read until the abort
+    const last = this.reads[this.reads.length - 1];
+    if (last && this.endMs === undefined && (!longest || totalMs - last.atMs > longest.ms)) {
+      longest = { ms: totalMs - last.atMs, afterRead: this.reads.length };
+    }
+    t.longestSilence = longest;
+    t.eventCount = this.eventArrivals.length;
+
+    if (this.chunked) {
+      t.frameCount = this.frames.length;
+      t.frames = this.frames.slice(0, LIST_LIMIT);
+      t.maxFramesPerRead = Math.max(0, ...this.reads.map((r) => r.frames));
+    }
+  }
+
+  /** Advance the chunked-framing parser over one read; returns the frames that started in it */
+  private walkFrames(buf: Buffer, atMs: number): number {
+    this.pending = Buffer.concat([this.pending, buf]);
+    let started = 0;
+
+    for (;;) {
+      if (this.state === "size") {
+        const eol = this.pending.indexOf("\r\n");
+        if (eol === -1) break;
+        const size = parseInt(this.pending.subarray(0, eol).toString("latin1").split(";")[0].trim(), 16);
+        this.pending = this.pending.subarray(eol + 2);
+        if (Number.isNaN(size)) {
+          this.state = "invalid";
+          break;
+        }
+        this.frames.push({ atMs, size });
+        started++;
+        if (size === 0) {
+          this.endMs = atMs;
+          this.state = "trailer";
+          break;
+        }
+        this.state = "data";
+        this.remaining = size;
+      } else if (this.state === "data") {
+        const n = Math.min(this.remaining, this.pending.length);
+        this.pending = this.pending.subarray(n);
+        this.remaining -= n;
+        if (this.remaining > 0) break;
+        this.state = "crlf";
+      } else if (this.state === "crlf") {
+        if (this.pending.length < 2) break;
+        this.pending = this.pending.subarray(2);
+        this.state = "size";
+      } else {
+        break; // trailer or unparseable framing – nothing more to count
+      }
+    }
+    return started;
+  }
+}
@@ -2,22 +2,19 @@
  * Probe 1 – Non-streaming chat completion (stream: false).
  *
  * Sends a single POST to {base}/chat/completions with stream:false.
- * Must succeed or fail fast with error details.
+ * Must succeed or fail fast with error details. The response's `usage`
+ * block is the reference the streamed usage is compared against.
+ *
+ * Like every prompt-driven probe it sends cfg.scenario – one scenario of the
+ * selected prompt suite (see prompts/suite.ts).
  */
 
 import type { AppConfig } from "../config";
 import type { ChatCompletionRequest, ProbeResult } from "../types";
 import { Timer } from "../utils/timing";
 import { hashPayload } from "../utils/hash";
-
-/** The prompt used across all probes – designed to elicit multi-token output */
-export const PROBE_MESSAGES = [
-  {
-    role: "user",
-    content:
-      "Explain the Fibonacci sequence in exactly three sentences. Be concise but complete.",
-  },
-] as const;
+import { toTokenUsage } from "../sse/usage";
+import { chatRequestFields } from "../prompts/suite";
 
 export async function runNonStreamingProbe(cfg: AppConfig): Promise<ProbeResult> {
   const timer = new Timer();
@@ -27,9 +24,8 @@ export async function runNonStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
   const url = `${cfg.foundryBaseUrl}/chat/completions`;
   const body: ChatCompletionRequest = {
     model: cfg.foundryModel,
-    messages: [...PROBE_MESSAGES],
+    ...chatRequestFields(cfg.scenario),
     stream: false,
-    max_tokens: 256,
   };
   const pHash = hashPayload(body);
 
@@ -75,9 +71,10 @@ export async function runNonStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
       json !== null &&
       "choices" in json &&
       Array.isArray((json as Record<string, unknown>).choices);
+    const usage = hasChoices ? toTokenUsage((json as Record<string, unknown>).usage) : undefined;
 
     console.log(
-      `[non-streaming] ${status} OK – choices present: ${hasChoices}  (${timer.toTimings().totalMs} ms)`,
+      `[non-streaming] ${status} OK – choices present: ${hasChoices}  (${timer.elapsed()} ms)`,
     );
 
     return {
@@ -86,6 +83,7 @@ export async function runNonStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
       httpStatus: status,
       headers: headersObj,
       timings: timer.toTimings(),
+      usage,
       error: hasChoices ? undefined : "Response JSON missing 'choices' array",
       payloadHash: pHash,
     };
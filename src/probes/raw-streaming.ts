@@ -5,18 +5,30 @@
  *   • TTFB (time to response headers)
  *   • Time to first SSE "data:" event
  *   • Number of chunks
- *   • Whether data:[DONE] is received
+ *   • Whether data:[DONE] is received – reading goes on until the body ends
+ *     (or CHUNK_IDLE_TIMEOUT_MS passes), so events after it are flagged too
+ *   • SSE protocol anomalies (line endings, missing terminators, …)
+ *   • chat.completion.chunk schema violations (NON_CONFORMANT outcome)
+ *   • token usage – with INCLUDE_USAGE, stream_options.include_usage is sent
+ *     and the final usage chunk is validated (NON_CONFORMANT outcome)
  *
- * Enforces FIRST_BYTE_TIMEOUT_MS, FIRST_EVENT_TIMEOUT_MS, and REQUEST_TIMEOUT_MS
- * using AbortController so the demo never hangs.
+ * With CAPTURE_STREAMS enabled, every received byte chunk is also written to
+ * an NDJSON recording (see capture/recorder.ts).
+ *
+ * Enforces FIRST_BYTE_TIMEOUT_MS, FIRST_EVENT_TIMEOUT_MS, CHUNK_IDLE_TIMEOUT_MS
+ * and REQUEST_TIMEOUT_MS using AbortController so the demo never hangs. A
+ * stream that starts and then goes silent is reported as STALL.
  */
 
 import type { AppConfig } from "../config";
-import type { ChatCompletionRequest, ProbeResult } from "../types";
+import type { ChatCompletionRequest, ProbeResult, SSEAnomaly } from "../types";
 import { Timer } from "../utils/timing";
 import { hashPayload } from "../utils/hash";
 import { parseSSE } from "../sse/parser";
-import { PROBE_MESSAGES } from "./non-streaming";
+import { ChunkConformanceChecker } from "../sse/conformance";
+import { StreamUsageTracker } from "../sse/usage";
+import { StreamRecorder, createRecordingFetch } from "../capture/recorder";
+import { chatRequestFields } from "../prompts/suite";
 
 export async function runRawStreamingProbe(cfg: AppConfig): Promise<ProbeResult> {
   const timer = new Timer();
@@ -42,22 +54,39 @@ export async function runRawStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
     }
   }, cfg.firstEventTimeoutMs);
 
+  // Re-armed on every event: fires when an already-flowing stream goes silent
+  let idleTimer: NodeJS.Timeout | undefined;
+  let chunkCount = 0;
+  let lastEventMs: number | undefined;
+  const armIdleTimer = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      if (!controller.signal.aborted) controller.abort("CHUNK_IDLE_TIMEOUT");
+    }, cfg.chunkIdleTimeoutMs);
+  };
+
   const url = `${cfg.foundryBaseUrl}/chat/completions`;
   const body: ChatCompletionRequest = {
     model: cfg.foundryModel,
-    messages: [...PROBE_MESSAGES],
+    ...chatRequestFields(cfg.scenario),
     stream: true,
-    max_tokens: 256,
+    ...(cfg.includeUsage ? { stream_options: { include_usage: true } } : {}),
   };
   const pHash = hashPayload(body);
+  const recorder = cfg.captureStreams ? new StreamRecorder("raw-streaming", pHash) : undefined;
+  const doFetch = recorder ? createRecordingFetch(recorder) : fetch;
 
-  console.log(`[raw-streaming] POST ${url}  stream:true  (payload hash: ${pHash})`);
+  console.log(
+    `[raw-streaming] POST ${url}  stream:true${cfg.includeUsage ? "  include_usage" : ""}  (payload hash: ${pHash})`,
+  );
+  if (recorder) console.log(`[raw-streaming] Capturing to ${recorder.path}`);
 
   let httpStatus: number | undefined;
   let headers: Record<string, string> | undefined;
+  const sseAnomalies: SSEAnomaly[] = [];
 
   try {
-    const res = await fetch(url, {
+    const res = await doFetch(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -75,7 +104,7 @@ export async function runRawStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
     headers = extractHeaders(res.headers);
 
     console.log(
-      `[raw-streaming] Headers received: ${httpStatus}  content-type=${headers["content-type"] ?? "n/a"}  (TTFB ${timer.toTimings().ttfbMs} ms)`,
+      `[raw-streaming] Headers received: ${httpStatus}  content-type=${headers["content-type"] ?? "n/a"}  (TTFB ${timer.elapsed()} ms)`,
     );
 
     if (!res.ok) {
@@ -89,6 +118,7 @@ export async function runRawStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
         timings: timer.toTimings(),
         error: `HTTP ${httpStatus}: ${errText.slice(0, 500)}`,
         payloadHash: pHash,
+        recordingPath: recorder?.path,
       };
     }
 
@@ -102,52 +132,101 @@ export async function runRawStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
         timings: timer.toTimings(),
         error: "Response body is null – cannot stream",
         payloadHash: pHash,
+        recordingPath: recorder?.path,
       };
     }
 
     // ── Parse SSE events ──────────────────────────────────
-    let chunkCount = 0;
     let doneReceived = false;
     const tokenParts: string[] = [];
+    const checker = new ChunkConformanceChecker();
+    const usageTracker = new StreamUsageTracker();
 
-    for await (const evt of parseSSE(res.body, controller.signal)) {
-      chunkCount++;
+    // Read on after [DONE] until the body ends, so the checker sees anything sent after it (DONE_NOT_LAST)
+    try {
+      for await (const evt of parseSSE(res.body, controller.signal, sseAnomalies)) {
+        if (doneReceived) {
+          checker.checkData(evt.data);
+          armIdleTimer();
+          continue;
+        }
+        chunkCount++;
+        lastEventMs = timer.elapsed();
+        armIdleTimer();
 
-      if (!firstEventReceived) {
-        firstEventReceived = true;
-        clearTimeout(firstEventTimer);
-        timer.markFirstEvent();
-        console.log(
-          `[raw-streaming] First SSE event at ${timer.toTimings().firstEventMs} ms`,
-        );
-      }
+        if (!firstEventReceived) {
+          firstEventReceived = true;
+          clearTimeout(firstEventTimer);
+          timer.markFirstEvent();
+          console.log(
+            `[raw-streaming] First SSE event at ${timer.elapsed()} ms`,
+          );
+        }
 
-      if (evt.data === "[DONE]") {
-        doneReceived = true;
-        console.log(`[raw-streaming] Received [DONE] after ${chunkCount} chunks`);
-        break;
-      }
+        checker.checkData(evt.data);
+
+        if (evt.data === "[DONE]") {
+          doneReceived = true;
+          console.log(`[raw-streaming] Received [DONE] after ${chunkCount} chunks`);
+          timer.stop();
+          continue;
+        }
 
-      // Attempt to extract delta content for a token preview
-      try {
-        const parsed = JSON.parse(evt.data) as {
-          choices?: Array<{ delta?: { content?: string } }>;
-        };
-        const content = parsed.choices?.[0]?.delta?.content;
+        // Attempt to extract delta content for a token preview
+        let content: string | undefined;
+        try {
+          const parsed = JSON.parse(evt.data) as {
+            choices?: Array<{ delta?: { content?: string } }>;
+          };
+          content = parsed.choices?.[0]?.delta?.content;
+          usageTracker.checkChunk(parsed);
+        } catch {
+          // non-JSON data line – skip
+        }
+        timer.markChunk(Boolean(content));
         if (content) tokenParts.push(content);
-      } catch {
-        // non-JSON data line – skip
       }
+    } catch (err: unknown) {
+      // The reply is complete – a body left open after it is the client-compat probe's finding
+      if (!doneReceived) throw err;
+      console.log(`[raw-streaming] Body not ended after [DONE] (${String(controller.signal.reason ?? err)}) – stopped reading`);
     }
 
     timer.stop();
+    const usage = usageTracker.result();
+    if (usage) timer.setCompletionTokens(usage.completionTokens);
     const timings = timer.toTimings();
+    const buffering = timer.detectBuffering();
 
-    const outcome = doneReceived ? "OK" : chunkCount > 0 ? "FAIL" : "NO_FIRST_EVENT";
+    const conformanceViolations = checker.finish();
+    const usageCheck = cfg.includeUsage ? usageTracker.finish(doneReceived) : undefined;
+    const outcome: ProbeResult["outcome"] = doneReceived
+      ? conformanceViolations.length > 0 || usageCheck?.problems.length ? "NON_CONFORMANT" : "OK"
+      : chunkCount > 0 ? "FAIL" : "NO_FIRST_EVENT";
 
     console.log(
       `[raw-streaming] Done. outcome=${outcome}  chunks=${chunkCount}  done=${doneReceived}  total=${timings.totalMs} ms`,
     );
+    if (buffering) {
+      console.warn(
+        `[raw-streaming] Buffered: first chunk at ${Math.round(buffering.firstChunkRatio * 100)}% of stream time, ` +
+          `${Math.round(buffering.burstRatio * 100)}% of chunks within ${buffering.burstWindowMs} ms`,
+      );
+    }
+    for (const a of sseAnomalies) {
+      console.warn(`[raw-streaming] SSE anomaly ${a.kind} (after ${a.eventIndex} events): ${a.detail}`);
+    }
+    for (const v of conformanceViolations) {
+      console.warn(`[raw-streaming] Non-conformant chunk ${v.rule}: ${v.message}`);
+    }
+    if (usage) {
+      console.log(
+        `[raw-streaming] Usage: prompt=${usage.promptTokens}  completion=${usage.completionTokens}  total=${usage.totalTokens}`,
+      );
+    }
+    for (const problem of usageCheck?.problems ?? []) {
+      console.warn(`[raw-streaming] Usage: ${problem}`);
+    }
 
     return {
       probe: "raw-streaming",
@@ -157,15 +236,22 @@ export async function runRawStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
       timings,
       chunkCount,
       doneReceived,
+      buffering,
+      sseAnomalies,
+      conformanceViolations,
+      usage,
+      usageCheck,
       tokenPreview: tokenParts.join("").slice(0, 200),
       payloadHash: pHash,
+      recordingPath: recorder?.path,
     };
   } catch (err: unknown) {
     timer.stop();
     const msg = err instanceof Error ? err.message : String(err);
 
     let outcome: ProbeResult["outcome"] = "ERROR";
-    if (msg.includes("FIRST_BYTE_TIMEOUT")) outcome = "NO_FIRST_BYTE";
+    if (msg.includes("CHUNK_IDLE_TIMEOUT")) outcome = "STALL";
+    else if (msg.includes("FIRST_BYTE_TIMEOUT")) outcome = "NO_FIRST_BYTE";
     else if (msg.includes("FIRST_EVENT_TIMEOUT")) outcome = "NO_FIRST_EVENT";
     else if (msg.includes("REQUEST_TIMEOUT")) outcome = "TIMEOUT";
     else if (msg.includes("AbortError") || msg.includes("aborted")) outcome = "TIMEOUT";
@@ -178,13 +264,22 @@ export async function runRawStreamingProbe(cfg: AppConfig): Promise<ProbeResult>
       httpStatus,
       headers,
       timings: timer.toTimings(),
+      chunkCount: chunkCount > 0 ? chunkCount : undefined,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
+      sseAnomalies: sseAnomalies.length > 0 ? sseAnomalies : undefined,
       error: msg,
       payloadHash: pHash,
+      recordingPath: recorder?.path,
     };
   } finally {
+    recorder?.finish("stopped-reading");
     clearTimeout(requestTimer);
     clearTimeout(firstByteTimer);
     clearTimeout(firstEventTimer);
+    clearTimeout(idleTimer);
   }
 }
 
@@ -0,0 +1,206 @@
+/**
+ * Probe registry – the one list of probes the CLI, the web routes and the
+ * dashboard enumerate and run.
+ *
+ * Built-in probes are listed in run order. Team-specific probes are loaded
+ * from the module at CUSTOM_PROBES_PATH and run after them. The module may
+ * export a Probe, an array of Probes, or either one as `default` or `probes`:
+ *
+ *   // my-probes.js
+ *   module.exports = {
+ *     name: "proxy-headers",
+ *     description: "Corporate proxy keeps SSE unbuffered",
+ *     run: async (cfg) => ({ probe: "proxy-headers", outcome: "OK", … }),
+ *   };
+ */
+
+import { resolve } from "node:path";
+import type { AppConfig } from "../config";
+import type { ProbeResult } from "../types";
+import { runNonStreamingProbe } from "./non-streaming";
+import { runRawStreamingProbe } from "./raw-streaming";
+import { runCopilotSdkStreamingProbe } from "./copilot-sdk-streaming";
+import { runToolCallingStreamingProbe } from "./tool-calling-streaming";
+import { runCancellationRecoveryProbe } from "./cancellation-recovery";
+import { runConcurrentStreamingProbe } from "./concurrent-streaming";
+import { runStreamParityProbe } from "./stream-parity";
+import { runResponsesStreamingProbe } from "./responses-streaming";
+import { runCompletionsStreamingProbe } from "./completions-streaming";
+import { runContextRampProbe } from "./context-ramp";
+import { runStructuredOutputProbe } from "./structured-output";
+import { runErrorContractProbe } from "./error-contract";
+import { runHttpTransportProbe } from "./http-transport";
+import { runClientCompatProbe } from "./client-compat";
+
+export interface Probe {
+  /** Identifier – the /api/probe/:name route and, by convention, ProbeResult.probe */
+  name: string;
+  /** One-line summary for CLI headings and the dashboard */
+  description: string;
+  /** Short dashboard button label (defaults to name) */
+  label?: string;
+  /** Why the probe does not apply to this config, if it doesn't – "run all" skips it */
+  skipReason?(cfg: AppConfig): string | undefined;
+  run(cfg: AppConfig): Promise<ProbeResult>;
+}
+
+/** Built-in probes, in run order */
+export const BUILTIN_PROBES: readonly Probe[] = [
+  {
+    name: "non-streaming",
+    label: "Non-streaming",
+    description: "Non-streaming (stream: false)",
+    run: runNonStreamingProbe,
+  },
+  {
+    name: "raw-streaming",
+    label: "Raw SSE",
+    description: "Raw streaming (fetch + SSE parser)",
+    run: runRawStreamingProbe,
+  },
+  {
+    name: "copilot-sdk-streaming",
+    label: "SDK",
+    description: "Copilot SDK BYOK streaming (OpenAI SDK, COPILOT_WIRE_API)",
+    run: runCopilotSdkStreamingProbe,
+  },
+  {
+    name: "tool-calling-streaming",
+    label: "Tool calling",
+    description: "Tool-calling streaming (raw SSE + OpenAI SDK)",
+    run: runToolCallingStreamingProbe,
+  },
+  {
+    name: "cancellation-recovery",
+    label: "Cancel & recover",
+    description: "Mid-stream cancellation & recovery",
+    run: runCancellationRecoveryProbe,
+  },
+  {
+    name: "concurrent-streaming",
+    label: "Concurrent",
+    description: "Concurrent streaming (CONCURRENT_STREAMS at once)",
+    run: runConcurrentStreamingProbe,
+  },
+  {
+    name: "stream-parity",
+    label: "Parity",
+    description: "Streaming vs non-streaming parity",
+    run: runStreamParityProbe,
+  },
+  {
+    name: "responses-streaming",
+    label: "Responses API",
+    description: "Responses API streaming (POST /responses)",
+    // Only relevant when Copilot is configured for it
+    skipReason: (cfg) => (cfg.copilotWireApi === "responses" ? undefined : "COPILOT_WIRE_API=completions"),
+    run: runResponsesStreamingProbe,
+  },
+  {
+    name: "completions-streaming",
+    label: "Completions",
+    description: "Legacy completions streaming (POST /completions)",
+    run: runCompletionsStreamingProbe,
+  },
+  {
+    name: "context-ramp",
+    label: "Context ramp",
+    description: "Context-length ramp (1k → CONTEXT_RAMP_MAX_TOKENS tokens of prompt)",
+    run: runContextRampProbe,
+  },
+  {
+    name: "structured-output",
+    label: "JSON mode",
+    description: "Structured output streaming (response_format json_object / json_schema)",
+    run: runStructuredOutputProbe,
+  },
+  {
+    name: "error-contract",
+    label: "Error replies",
+    description: "Error-path contract (bad requests get prompt OpenAI-shaped errors)",
+    run: runErrorContractProbe,
+  },
+  {
+    name: "http-transport",
+    label: "Transport",
+    description: "HTTP transport via node:http (socket reads, chunk frames, keep-alive)",
+    run: runHttpTransportProbe,
+  },
+  {
+    name: "client-compat",
+    label: "Client parsers",
+    description: "Client parser compatibility (strict SSE, line-based, OpenAI SDK, eventsource-parser)",
+    run: runClientCompatProbe,
+  },
+];
+
+/**
+ * The built-in probes followed by any loaded from CUSTOM_PROBES_PATH.
+ * Throws if that module cannot be loaded or exports something that is not a probe.
+ */
+export function loadProbes(cfg: AppConfig): Probe[] {
+  const probes = [...BUILTIN_PROBES];
+  if (!cfg.customProbesPath) return probes;
+
+  const path = resolve(process.cwd(), cfg.customProbesPath);
+  let mod: unknown;
+  try {
+    mod = require(path);
+  } catch (err) {
+    throw new Error(
+      `CUSTOM_PROBES_PATH: cannot load ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  for (const candidate of customExports(mod)) {
+    if (!isProbe(candidate)) {
+      throw new Error(
+        `CUSTOM_PROBES_PATH: ${path} exports something that is not a probe (need name, description, run)`,
+      );
+    }
+    if (probes.some((p) => p.name === candidate.name)) {
+      throw new Error(`CUSTOM_PROBES_PATH: probe "${candidate.name}" in ${path} clashes with an existing probe`);
+    }
+    probes.push(candidate);
+  }
+  return probes;
+}
+
+/**
+ * Run one probe against cfg.scenario and tag the result with that scenario.
+ * An exception becomes an ERROR result instead of ending the run.
+ */
+export async function runProbe(probe: Probe, cfg: AppConfig): Promise<ProbeResult> {
+  try {
+    return { ...(await probe.run(cfg)), scenario: cfg.scenario.name };
+  } catch (err) {
+    console.error(`[${probe.name}] Unhandled error:`, err);
+    return {
+      probe: probe.name,
+      scenario: cfg.scenario.name,
+      outcome: "ERROR",
+      timings: { startMs: Date.now(), endMs: Date.now(), totalMs: 0 },
+      error: String(err),
+      payloadHash: "unknown",
+    };
+  }
+}
+
+/** Probe exports the custom module may use: a probe or an array, bare or as `default` / `probes` */
+function customExports(mod: unknown): unknown[] {
+  const m = mod as { default?: unknown; probes?: unknown } | null;
+  const value = m?.probes ?? m?.default ?? mod;
+  return Array.isArray(value) ? value : [value];
+}
+
+function isProbe(value: unknown): value is Probe {
+  if (typeof value !== "object" || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return (
+    typeof p.name === "string" &&
+    p.name !== "" &&
+    typeof p.description === "string" &&
+    typeof p.run === "function" &&
+    (p.skipReason === undefined || typeof p.skipReason === "function")
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * Probe 8 – Responses API streaming (POST /responses, stream: true).
+ *
+ * Copilot BYOK with wire_api "responses" talks to `/responses` instead of
+ * `/chat/completions`. That endpoint streams typed events –
+ * `response.created`, `response.output_text.delta`, `response.completed`, … –
+ * and has no data:[DONE]; the terminal event ends the stream.
+ *
+ * This probe sends the shared prompt as Responses `input` via fetch + the
+ * hand-rolled SSE parser and records:
+ *   • TTFB, first event, per-delta timing, stalls and buffering
+ *   • every event type received, the terminal event and final status
+ *   • the text reassembled from output_text deltas, checked against
+ *     response.output_text.done
+ *   • usage from response.completed (input/output tokens)
+ *
+ * `runSdkResponsesStream` runs the same request through the OpenAI SDK's
+ * `client.responses` iterator, shaped by COPILOT_CLIENT_PROFILE; the Copilot
+ * SDK probe uses it when COPILOT_WIRE_API=responses.
+ */
+
+import OpenAI from "openai";
+import type { AppConfig } from "../config";
+import type { ClientProfile, ProbeResult, ResponsesStreamInfo } from "../types";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { parseSSE } from "../sse/parser";
+import { ResponsesEventChecker, responsesOutcome } from "../sse/responses";
+import { StreamRecorder, createRecordingFetch } from "../capture/recorder";
+import { responsesRequestFields } from "../prompts/suite";
+import { profileLabel, profileResponsesFields } from "../prompts/client-profiles";
+import { startGuards, outcomeForError } from "./guards";
+
+/** The current scenario as a Responses API request body, as `profile` sends it when given */
+export function responsesPayload(cfg: AppConfig, profile?: ClientProfile) {
+  return {
+    model: cfg.foundryModel,
+    ...(profile ? profileResponsesFields(profile, cfg.scenario) : responsesRequestFields(cfg.scenario)),
+    stream: true as const,
+  };
+}
+
+export async function runResponsesStreamingProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const checker = new ResponsesEventChecker();
+
+  const url = `${cfg.foundryBaseUrl}/responses`;
+  const body = responsesPayload(cfg);
+  const pHash = hashPayload(body);
+  const recorder = cfg.captureStreams ? new StreamRecorder("responses-streaming", pHash) : undefined;
+  const doFetch = recorder ? createRecordingFetch(recorder) : fetch;
+
+  console.log(`[responses] POST ${url}  stream:true  (payload hash: ${pHash})`);
+  if (recorder) console.log(`[responses] Capturing to ${recorder.path}`);
+
+  let httpStatus: number | undefined;
+  let chunkCount = 0;
+  let lastEventMs: number | undefined;
+
+  try {
+    const res = await doFetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    timer.markTTFB();
+    httpStatus = res.status;
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      timer.stop();
+      return {
+        probe: "responses-streaming",
+        wireApi: "responses",
+        outcome: "FAIL",
+        httpStatus,
+        timings: timer.toTimings(),
+        error: `HTTP ${httpStatus}: ${errText.slice(0, 500)}`,
+        payloadHash: pHash,
+        recordingPath: recorder?.path,
+      };
+    }
+
+    for await (const evt of parseSSE(res.body, guards.signal)) {
+      chunkCount++;
+      lastEventMs = timer.elapsed();
+      guards.onEvent();
+      timer.markFirstEvent();
+
+      const delta = checker.checkData(evt.event, evt.data);
+      timer.markChunk(Boolean(delta));
+    }
+
+    return finishResult("responses-streaming", timer, checker.finish(), chunkCount, httpStatus, pHash, recorder);
+  } catch (err: unknown) {
+    timer.stop();
+    const msg = err instanceof Error ? err.message : String(err);
+    const outcome = outcomeForError(msg, guards.abortReason());
+    console.error(`[responses] ${outcome}: ${msg}`);
+
+    const responses = checker.finish();
+    return {
+      probe: "responses-streaming",
+      wireApi: "responses",
+      outcome,
+      httpStatus,
+      timings: timer.toTimings(),
+      chunkCount: chunkCount > 0 ? chunkCount : undefined,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
+      responses: chunkCount > 0 ? responses : undefined,
+      tokenPreview: responses.text.slice(0, 200) || undefined,
+      error: msg,
+      payloadHash: pHash,
+      recordingPath: recorder?.path,
+    };
+  } finally {
+    recorder?.finish("stopped-reading");
+    guards.clear();
+  }
+}
+
+/**
+ * The same Responses request through the OpenAI SDK – what Copilot BYOK does
+ * with wire_api "responses". Reported as the copilot-sdk-streaming probe.
+ */
+export async function runSdkResponsesStream(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const checker = new ResponsesEventChecker();
+
+  const profile = cfg.clientProfile;
+  const payload = responsesPayload(cfg, profile);
+  const pHash = hashPayload(payload);
+  const recorder = cfg.captureStreams ? new StreamRecorder("copilot-sdk-streaming", pHash) : undefined;
+
+  console.log(
+    `[copilot-sdk] OpenAI SDK responses.create stream via ${cfg.foundryBaseUrl}  ` +
+      `provider=${cfg.copilotByokProviderType}  wire=responses  profile=${profileLabel(profile)}  (payload hash: ${pHash})`,
+  );
+  if (recorder) console.log(`[copilot-sdk] Capturing to ${recorder.path}`);
+
+  const client = new OpenAI({
+    apiKey: cfg.foundryApiKey,
+    baseURL: cfg.foundryBaseUrl,
+    timeout: cfg.requestTimeoutMs,
+    maxRetries: 0,
+    defaultHeaders: profile.headers,
+    ...(recorder ? { fetch: createRecordingFetch(recorder, guards.signal) } : {}),
+  });
+
+  let chunkCount = 0;
+  let lastEventMs: number | undefined;
+
+  try {
+    const stream = await client.responses.create(payload, { signal: guards.signal });
+    guards.onHeaders();
+    timer.markTTFB();
+
+    for await (const event of stream) {
+      chunkCount++;
+      lastEventMs = timer.elapsed();
+      guards.onEvent();
+      timer.markFirstEvent();
+
+      const delta = checker.checkEvent(event);
+      timer.markChunk(Boolean(delta));
+    }
+
+    // The SDK ends the iterator quietly when its signal aborts – that is not a clean finish
+    if (guards.signal.aborted) {
+      throw new Error(`Stream aborted: ${String(guards.signal.reason)}`);
+    }
+
+    return {
+      ...finishResult("copilot-sdk-streaming", timer, checker.finish(), chunkCount, undefined, pHash, recorder),
+      clientProfile: profileLabel(profile),
+    };
+  } catch (err: unknown) {
+    timer.stop();
+    const msg = err instanceof Error ? err.message : String(err);
+    const outcome = outcomeForError(msg, guards.abortReason());
+    console.error(`[copilot-sdk] ${outcome}: ${msg}`);
+
+    const responses = checker.finish();
+    return {
+      probe: "copilot-sdk-streaming",
+      wireApi: "responses",
+      clientProfile: profileLabel(profile),
+      outcome,
+      httpStatus: err instanceof OpenAI.APIError ? err.status : undefined,
+      timings: timer.toTimings(),
+      chunkCount: chunkCount > 0 ? chunkCount : undefined,
+      stall:
+        outcome === "STALL" && lastEventMs !== undefined
+          ? { afterChunk: chunkCount, elapsedMs: lastEventMs, idleMs: cfg.chunkIdleTimeoutMs }
+          : undefined,
+      responses: chunkCount > 0 ? responses : undefined,
+      tokenPreview: responses.text.slice(0, 200) || undefined,
+      error: msg,
+      payloadHash: pHash,
+      recordingPath: recorder?.path,
+    };
+  } finally {
+    recorder?.finish("stopped-reading");
+    guards.clear();
+  }
+}
+
+/** Build the result for a stream that ended without an exception */
+function finishResult(
+  probe: "responses-streaming" | "copilot-sdk-streaming",
+  timer: Timer,
+  responses: ResponsesStreamInfo,
+  chunkCount: number,
+  httpStatus: number | undefined,
+  payloadHash: string,
+  recorder: StreamRecorder | undefined,
+): ProbeResult {
+  timer.stop();
+  if (responses.usage) timer.setCompletionTokens(responses.usage.completionTokens);
+  const timings = timer.toTimings();
+  const buffering = timer.detectBuffering();
+  const { outcome, error } = responsesOutcome(responses);
+  const tag = probe === "responses-streaming" ? "[responses]" : "[copilot-sdk]";
+
+  console.log(
+    `${tag} Done. outcome=${outcome}  events=${chunkCount}  terminal=${responses.terminalEvent ?? "none"}  ` +
+      `status=${responses.status ?? "?"}  total=${timings.totalMs} ms`,
+  );
+  for (const v of responses.violations) {
+    console.warn(`${tag} Event sequence: ${v}`);
+  }
+
+  return {
+    probe,
+    wireApi: "responses",
+    outcome,
+    httpStatus,
+    timings,
+    chunkCount,
+    doneReceived: responses.terminalEvent === "response.completed",
+    buffering,
+    responses,
+    usage: responses.usage,
+    tokenPreview: responses.text.slice(0, 200),
+    error,
+    payloadHash,
+    recordingPath: recorder?.path,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Probe 7 – Streaming vs non-streaming content parity.
+ *
+ * Some Foundry Local builds are suspected of returning different text over
+ * SSE than over stream:false – truncated text, or a missing final delta.
+ * This probe sends the same deterministic request (temperature 0, fixed seed)
+ * both ways, reassembles every streamed delta (not just the 200-char
+ * tokenPreview) and compares:
+ *
+ *   • the full text against choices[0].message.content
+ *   • finish_reason
+ *   • usage counts, when both sides report them (with INCLUDE_USAGE the
+ *     streamed request asks for them via stream_options.include_usage)
+ *
+ * Any difference is listed in `parity.divergences` and fails the probe.
+ * Sampling can still differ on some backends despite the seed, so a text
+ * divergence is reported with the offset and surrounding context to help
+ * tell truncation apart from a different generation.
+ */
+
+import type { AppConfig } from "../config";
+import type { ChatCompletionRequest, ParityInfo, ParitySide, ProbeResult, TokenUsage } from "../types";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { parseSSE } from "../sse/parser";
+import { chatRequestFields } from "../prompts/suite";
+import { startGuards, outcomeForError } from "./guards";
+import { toTokenUsage } from "../sse/usage";
+
+const PARITY_SEED = 42;
+
+/** Wire shape of the parts of a completion / chunk this probe reads */
+interface CompletionJson {
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: unknown;
+}
+
+export async function runStreamParityProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+
+  const body: ChatCompletionRequest = {
+    model: cfg.foundryModel,
+    ...chatRequestFields(cfg.scenario),
+    stream: false,
+    // Pinned regardless of the scenario so both answers are comparable
+    temperature: 0,
+    seed: PARITY_SEED,
+  };
+  // Hash of the stream:false body – the streamed one differs only in stream / stream_options
+  const pHash = hashPayload(body);
+
+  console.log(
+    `[stream-parity] Same request with stream:false and stream:true  temperature=0 seed=${PARITY_SEED}  ` +
+      `(payload hash: ${pHash})`,
+  );
+
+  const nonStreaming = await completeOnce(cfg, body);
+  const streaming = await completeStreamed(cfg, {
+    ...body,
+    stream: true,
+    ...(cfg.includeUsage ? { stream_options: { include_usage: true } } : {}),
+  });
+  timer.stop();
+
+  const parity = compare(nonStreaming, streaming);
+  const failedSide = [nonStreaming, streaming].find((s) => s.outcome !== "OK");
+  const outcome = failedSide?.outcome ?? (parity.divergences.length > 0 ? "FAIL" : "OK");
+
+  console.log(
+    `[stream-parity] Done. outcome=${outcome}  non-stream=${nonStreaming.text.length} chars  ` +
+      `stream=${streaming.text.length} chars  match=${parity.textMatches}`,
+  );
+  for (const d of parity.divergences) {
+    console.warn(`[stream-parity] Divergence: ${d}`);
+  }
+
+  return {
+    probe: "stream-parity",
+    outcome,
+    timings: timer.toTimings(),
+    parity,
+    tokenPreview: streaming.text.slice(0, 200) || undefined,
+    error: failedSide?.error ?? (parity.divergences.length > 0 ? parity.divergences.join("; ") : undefined),
+    payloadHash: pHash,
+  };
+}
+
+// ── stream:false ─────────────────────────────────────────
+
+async function completeOnce(cfg: AppConfig, body: ChatCompletionRequest): Promise<ParitySide> {
+  const timer = new Timer();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort("REQUEST_TIMEOUT"), cfg.requestTimeoutMs);
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      return side("FAIL", timer, { error: `HTTP ${res.status}: ${errText.slice(0, 500)}` });
+    }
+
+    const json = (await res.json()) as CompletionJson;
+    const choice = json.choices?.[0];
+    if (!choice) return side("FAIL", timer, { error: "Response JSON missing 'choices' array" });
+
+    return side("OK", timer, {
+      text: choice.message?.content ?? "",
+      finishReason: choice.finish_reason ?? undefined,
+      usage: toTokenUsage(json.usage),
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return side(msg.includes("REQUEST_TIMEOUT") ? "TIMEOUT" : "ERROR", timer, { error: msg });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// ── stream:true ──────────────────────────────────────────
+
+async function completeStreamed(cfg: AppConfig, body: ChatCompletionRequest): Promise<ParitySide> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const parts: string[] = [];
+  let finishReason: string | undefined;
+  let usage: TokenUsage | undefined;
+  let doneReceived = false;
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      return side("FAIL", timer, { error: `HTTP ${res.status}: ${errText.slice(0, 500)}` });
+    }
+
+    for await (const evt of parseSSE(res.body, guards.signal)) {
+      guards.onEvent();
+      if (evt.data === "[DONE]") {
+        doneReceived = true;
+        break;
+      }
+
+      try {
+        const chunk = JSON.parse(evt.data) as CompletionJson;
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) parts.push(choice.delta.content);
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        usage = toTokenUsage(chunk.usage) ?? usage;
+      } catch {
+        // non-JSON data line – the raw streaming probe reports these
+      }
+    }
+
+    const text = parts.join("");
+    if (!doneReceived) {
+      return side("FAIL", timer, { text, finishReason, usage, error: "Stream ended without data: [DONE]" });
+    }
+    return side("OK", timer, { text, finishReason, usage });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return side(outcomeForError(msg, guards.abortReason()), timer, {
+      text: parts.join(""),
+      finishReason,
+      usage,
+      error: msg,
+    });
+  } finally {
+    guards.clear();
+  }
+}
+
+// ── Comparison ───────────────────────────────────────────
+
+function compare(nonStreaming: ParitySide, streaming: ParitySide): ParityInfo {
+  const a = nonStreaming.text;
+  const b = streaming.text;
+  const divergences: string[] = [];
+
+  let firstDiffAt: number | undefined;
+  if (a !== b) {
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) i++;
+    firstDiffAt = i;
+
+    if (i === b.length) {
+      divergences.push(`Streamed text is truncated: ${b.length} of ${a.length} chars, missing "${excerpt(a, i)}"`);
+    } else if (i === a.length) {
+      divergences.push(`Streamed text has ${b.length - a.length} extra chars: "${excerpt(b, i)}"`);
+    } else {
+      divergences.push(
+        `Texts differ at char ${i}: non-stream "${excerpt(a, i)}" vs stream "${excerpt(b, i)}"`,
+      );
+    }
+  }
+
+  if (nonStreaming.finishReason !== streaming.finishReason) {
+    divergences.push(
+      `finish_reason differs: non-stream "${nonStreaming.finishReason ?? "none"}" vs stream "${streaming.finishReason ?? "none"}"`,
+    );
+  }
+
+  const ua = nonStreaming.usage;
+  const ub = streaming.usage;
+  if (ua && ub) {
+    if (ua.promptTokens !== ub.promptTokens) {
+      divergences.push(`prompt_tokens differ: non-stream ${ua.promptTokens} vs stream ${ub.promptTokens}`);
+    }
+    if (ua.completionTokens !== ub.completionTokens) {
+      divergences.push(
+        `completion_tokens differ: non-stream ${ua.completionTokens} vs stream ${ub.completionTokens}`,
+      );
+    }
+  }
+
+  return { nonStreaming, streaming, textMatches: a === b, firstDiffAt, divergences };
+}
+
+/** Up to 40 chars of `text` from `at`, with newlines made visible */
+function excerpt(text: string, at: number): string {
+  const s = text.slice(at, at + 40).replace(/\n/g, "\\n");
+  return at + 40 < text.length ? `${s}…` : s;
+}
+
+function side(
+  outcome: ParitySide["outcome"],
+  timer: Timer,
+  fields: Partial<Omit<ParitySide, "outcome" | "totalMs">>,
+): ParitySide {
+  timer.stop();
+  return { outcome, text: "", ...fields, totalMs: timer.toTimings().totalMs };
+}
@@ -0,0 +1,332 @@
+/**
+ * Probe 11 – Structured output (response_format) with and without streaming.
+ *
+ * Extensions that parse the model's reply need `response_format` to hold
+ * while streaming, where some servers apply it only to stream:false or drop
+ * it altogether. For each format – `json_object`, then `json_schema` with a
+ * strict schema – this probe sends the same request with stream:false and
+ * stream:true (raw fetch + SSE parser) and checks that:
+ *
+ *   • the reply (reassembled from the deltas when streamed) parses as JSON
+ *   • it is a JSON object
+ *   • for json_schema, it matches the schema (utils/json-schema.ts)
+ *
+ * Outcome: a request that failed or hung decides it; otherwise FAIL unless
+ * every format was honoured in both modes. `structuredOutput` says which
+ * combinations held. The benchmark runs the same checks for every model.
+ */
+
+import type { AppConfig } from "../config";
+import type {
+  ChatCompletionRequest,
+  JsonSchema,
+  ProbeOutcome,
+  ProbeResult,
+  StructuredOutputAttempt,
+  StructuredOutputFormat,
+  StructuredOutputInfo,
+  StructuredOutputVariant,
+} from "../types";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { validateJsonSchema } from "../utils/json-schema";
+import { parseSSE } from "../sse/parser";
+import { startGuards, outcomeForError } from "./guards";
+
+/** The structure requested – small, but with nesting, an integer array and an enum */
+export const STRUCTURED_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    topic: { type: "string" },
+    summary: { type: "string" },
+    firstTerms: { type: "array", items: { type: "integer" }, minItems: 5 },
+    difficulty: { type: "string", enum: ["beginner", "intermediate", "advanced"] },
+  },
+  required: ["topic", "summary", "firstTerms", "difficulty"],
+  additionalProperties: false,
+};
+
+// json_object mode requires the word "JSON" in the messages, so the prompt spells out the shape
+const STRUCTURED_OUTPUT_PROMPT =
+  "Describe the Fibonacci sequence as a JSON object with exactly these keys: " +
+  '"topic" (string), "summary" (one sentence), "firstTerms" (the first 8 terms, as integers) and ' +
+  '"difficulty" ("beginner", "intermediate" or "advanced"). Reply with the JSON object only.';
+
+const FORMATS: StructuredOutputFormat[] = ["json_object", "json_schema"];
+
+/** Cap on the reply text kept in the report */
+const TEXT_LIMIT = 500;
+
+interface CompletionJson {
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+}
+
+export async function runStructuredOutputProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+  const pHash = hashPayload(structuredOutputRequest(cfg, "json_schema", false));
+
+  console.log(
+    `[structured-output] response_format ${FORMATS.join(" and ")}, each with stream:false and stream:true  ` +
+      `(payload hash: ${pHash})`,
+  );
+
+  const structuredOutput = await checkStructuredOutput(cfg);
+  timer.stop();
+
+  for (const v of structuredOutput.variants) {
+    for (const [mode, a] of [["stream:false", v.nonStreaming], ["stream:true ", v.streaming]] as const) {
+      console.log(
+        `[structured-output] ${v.format.padEnd(11)} ${mode} ${a.outcome}  json=${a.validJson}  ` +
+          `honoured=${a.honoured}` + (a.formatErrors.length > 0 ? `  ${a.formatErrors[0]}` : ""),
+      );
+    }
+  }
+
+  const attempts = structuredOutput.variants.flatMap((v) => [
+    { label: `${v.format} stream:false`, a: v.nonStreaming },
+    { label: `${v.format} stream:true`, a: v.streaming },
+  ]);
+  const failed = attempts.find(({ a }) => a.outcome !== "OK");
+  const notHonoured = attempts.filter(({ a }) => !a.honoured);
+  const outcome: ProbeOutcome = failed?.a.outcome ?? (notHonoured.length > 0 ? "FAIL" : "OK");
+
+  console.log(
+    `[structured-output] Done. outcome=${outcome}  stream:false honoured=${structuredOutput.nonStreamingHonoured}  ` +
+      `stream:true honoured=${structuredOutput.streamingHonoured}`,
+  );
+
+  return {
+    probe: "structured-output",
+    outcome,
+    timings: timer.toTimings(),
+    structuredOutput,
+    tokenPreview: structuredOutput.variants[0]?.streaming.text.slice(0, 200) || undefined,
+    error: failed
+      ? `${failed.label}: ${failed.a.error ?? failed.a.outcome}`
+      : notHonoured.length > 0
+        ? `Format not honoured: ${notHonoured
+            .map(({ label, a }) => `${label} (${a.formatErrors[0] ?? "reply is not JSON"})`)
+            .join("; ")}`
+        : undefined,
+    payloadHash: pHash,
+  };
+}
+
+/** Every format with stream:false and stream:true, against cfg.foundryModel */
+export async function checkStructuredOutput(cfg: AppConfig): Promise<StructuredOutputInfo> {
+  const variants: StructuredOutputVariant[] = [];
+  for (const format of FORMATS) {
+    variants.push({
+      format,
+      nonStreaming: await completeOnce(cfg, structuredOutputRequest(cfg, format, false), format),
+      streaming: await completeStreamed(cfg, structuredOutputRequest(cfg, format, true), format),
+    });
+  }
+  return {
+    variants,
+    nonStreamingHonoured: variants.every((v) => v.nonStreaming.honoured),
+    streamingHonoured: variants.every((v) => v.streaming.honoured),
+  };
+}
+
+/** The request body for one format; the scenario's system prompt applies, its question does not */
+function structuredOutputRequest(
+  cfg: AppConfig,
+  format: StructuredOutputFormat,
+  stream: boolean,
+): ChatCompletionRequest {
+  return {
+    model: cfg.foundryModel,
+    messages: [
+      ...cfg.scenario.messages.filter((m) => m.role === "system"),
+      { role: "user", content: STRUCTURED_OUTPUT_PROMPT },
+    ],
+    stream,
+    max_tokens: 256,
+    temperature: 0,
+    response_format:
+      format === "json_object"
+        ? { type: "json_object" }
+        : {
+            type: "json_schema",
+            json_schema: { name: "fibonacci_summary", strict: true, schema: STRUCTURED_OUTPUT_SCHEMA },
+          },
+  };
+}
+
+// ── stream:false ─────────────────────────────────────────
+
+async function completeOnce(
+  cfg: AppConfig,
+  body: ChatCompletionRequest,
+  format: StructuredOutputFormat,
+): Promise<StructuredOutputAttempt> {
+  const timer = new Timer();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort("REQUEST_TIMEOUT"), cfg.requestTimeoutMs);
+  let httpStatus: number | undefined;
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    httpStatus = res.status;
+
+    if (!res.ok) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      return attempt("FAIL", timer, format, { httpStatus, error: `HTTP ${res.status}: ${errText.slice(0, 500)}` });
+    }
+
+    const json = (await res.json()) as CompletionJson;
+    const choice = json.choices?.[0];
+    if (!choice) {
+      return attempt("FAIL", timer, format, { httpStatus, error: "Response JSON missing 'choices' array" });
+    }
+
+    return attempt("OK", timer, format, {
+      httpStatus,
+      text: choice.message?.content ?? "",
+      finishReason: choice.finish_reason ?? undefined,
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return attempt(msg.includes("REQUEST_TIMEOUT") ? "TIMEOUT" : "ERROR", timer, format, { httpStatus, error: msg });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// ── stream:true ──────────────────────────────────────────
+
+async function completeStreamed(
+  cfg: AppConfig,
+  body: ChatCompletionRequest,
+  format: StructuredOutputFormat,
+): Promise<StructuredOutputAttempt> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const parts: string[] = [];
+  let httpStatus: number | undefined;
+  let chunkCount = 0;
+  let finishReason: string | undefined;
+  let doneReceived = false;
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    httpStatus = res.status;
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      return attempt("FAIL", timer, format, { httpStatus, error: `HTTP ${res.status}: ${errText.slice(0, 500)}` });
+    }
+
+    for await (const evt of parseSSE(res.body, guards.signal)) {
+      chunkCount++;
+      guards.onEvent();
+      if (evt.data === "[DONE]") {
+        doneReceived = true;
+        break;
+      }
+
+      try {
+        const chunk = JSON.parse(evt.data) as CompletionJson;
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) parts.push(choice.delta.content);
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+      } catch {
+        // non-JSON data line – the raw streaming probe reports these
+      }
+    }
+
+    const text = parts.join("");
+    if (!doneReceived) {
+      return attempt("FAIL", timer, format, {
+        httpStatus,
+        chunkCount,
+        text,
+        finishReason,
+        error: "Stream ended without data: [DONE]",
+      });
+    }
+    return attempt("OK", timer, format, { httpStatus, chunkCount, text, finishReason });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return attempt(outcomeForError(msg, guards.abortReason()), timer, format, {
+      httpStatus,
+      chunkCount,
+      text: parts.join(""),
+      finishReason,
+      error: msg,
+    });
+  } finally {
+    guards.clear();
+  }
+}
+
+// ── Format check ─────────────────────────────────────────
+
+function attempt(
+  outcome: ProbeOutcome,
+  timer: Timer,
+  format: StructuredOutputFormat,
+  extra: Partial<Omit<StructuredOutputAttempt, "outcome" | "totalMs">> = {},
+): StructuredOutputAttempt {
+  timer.stop();
+  const text = extra.text ?? "";
+  const { validJson, formatErrors } = checkFormat(text, format);
+  return {
+    ...extra,
+    outcome,
+    totalMs: timer.toTimings().totalMs,
+    text: text.slice(0, TEXT_LIMIT),
+    validJson,
+    formatErrors: outcome === "OK" ? formatErrors : [],
+    honoured: outcome === "OK" && validJson && formatErrors.length === 0,
+  };
+}
+
+/** Whether `text` is a JSON object – and, for json_schema, one that matches the schema */
+function checkFormat(text: string, format: StructuredOutputFormat): { validJson: boolean; formatErrors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    const fenced = /^\s*```/.test(text);
+    return {
+      validJson: false,
+      formatErrors: [
+        fenced
+          ? "reply is wrapped in a Markdown code fence"
+          : `reply is not JSON: ${err instanceof Error ? err.message : String(err)}`,
+      ],
+    };
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { validJson: true, formatErrors: ["$: reply is JSON but not an object"] };
+  }
+  return {
+    validJson: true,
+    formatErrors: format === "json_schema" ? validateJsonSchema(parsed, STRUCTURED_OUTPUT_SCHEMA) : [],
+  };
+}
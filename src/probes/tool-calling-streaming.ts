@@ -0,0 +1,354 @@
+/**
+ * Probe 4 – Tool-calling streaming (stream: true with `tools`).
+ *
+ * Copilot BYOK agent mode depends on streamed `tool_calls` deltas: the
+ * function name arrives once, and `function.arguments` arrives as string
+ * fragments that the client concatenates per `tool_calls[].index`.
+ *
+ * This probe sends one function definition and streams the reply twice:
+ *   1. raw-sse    – fetch + the hand-rolled SSE parser
+ *   2. openai-sdk – the OpenAI Node SDK stream iterator (what Copilot uses)
+ *
+ * For each path it reassembles the argument fragments by index, checks they
+ * parse as a JSON object and that the choice finished with
+ * `finish_reason: "tool_calls"`. A name sent again for the same index is a
+ * conformance problem (TOOL_CALL_NAME_REPEATED) – the first one is kept.
+ * Both paths are timeboxed with the same FIRST_BYTE / FIRST_EVENT /
+ * CHUNK_IDLE / REQUEST timeouts as the other probes.
+ */
+
+import OpenAI from "openai";
+import type { AppConfig } from "../config";
+import type {
+  ConformanceViolation,
+  ProbeResult,
+  ToolCallCheck,
+  ToolCallPathResult,
+  ToolDefinition,
+} from "../types";
+import { Timer } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { parseSSE } from "../sse/parser";
+import { ChunkConformanceChecker } from "../sse/conformance";
+import { startGuards, outcomeForError } from "./guards";
+
+/** The function offered to the model */
+export const PROBE_TOOL: ToolDefinition = {
+  type: "function",
+  function: {
+    name: "get_weather",
+    description: "Get the current weather for a city.",
+    parameters: {
+      type: "object",
+      properties: {
+        location: { type: "string", description: "City name, e.g. Seattle" },
+        unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+      },
+      required: ["location"],
+    },
+  },
+};
+
+const TOOL_MESSAGES = [
+  {
+    role: "user",
+    content: "What is the weather in Seattle right now? Use the get_weather tool to find out.",
+  },
+] as const;
+
+/** Shape of one streamed tool_calls delta (raw JSON and SDK chunks alike) */
+interface ToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+export async function runToolCallingStreamingProbe(cfg: AppConfig): Promise<ProbeResult> {
+  const timer = new Timer();
+
+  const payload = {
+    model: cfg.foundryModel,
+    // The scenario's system prompt applies here too; its question does not
+    messages: [...cfg.scenario.messages.filter((m) => m.role === "system"), ...TOOL_MESSAGES],
+    stream: true as const,
+    max_tokens: 256,
+    tools: [PROBE_TOOL],
+    tool_choice: "auto" as const,
+  };
+  const pHash = hashPayload(payload);
+
+  console.log(
+    `[tool-calling] Streaming with tools=[${PROBE_TOOL.function.name}] via raw SSE and OpenAI SDK  ` +
+      `(payload hash: ${pHash})`,
+  );
+
+  const paths: ToolCallPathResult[] = [];
+  paths.push(await streamRaw(cfg, payload));
+  paths.push(await streamSdk(cfg, payload));
+  timer.stop();
+
+  for (const p of paths) {
+    const calls = p.toolCalls.map((c) => `${c.name ?? "?"}(${c.arguments.slice(0, 60)})`).join(", ");
+    console.log(
+      `[tool-calling] ${p.path}: outcome=${p.outcome}  chunks=${p.chunkCount}  ` +
+        `finish_reason=${p.finishReason ?? "none"}  calls=${calls || "none"}`,
+    );
+  }
+
+  const failed = paths.find((p) => p.outcome !== "OK");
+  const errors = paths.filter((p) => p.error).map((p) => `${p.path}: ${p.error}`);
+  const firstCall = paths.find((p) => p.toolCalls.length > 0)?.toolCalls[0];
+
+  return {
+    probe: "tool-calling-streaming",
+    outcome: failed?.outcome ?? "OK",
+    timings: timer.toTimings(),
+    toolCalling: paths,
+    tokenPreview: firstCall ? `${firstCall.name ?? "?"}(${firstCall.arguments})`.slice(0, 200) : undefined,
+    error: errors.length > 0 ? errors.join("; ") : undefined,
+    payloadHash: pHash,
+  };
+}
+
+// ── Path 1: raw fetch + SSE parser ───────────────────────
+
+async function streamRaw(cfg: AppConfig, payload: object): Promise<ToolCallPathResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const assembler = new ToolCallAssembler();
+  const checker = new ChunkConformanceChecker();
+  let chunkCount = 0;
+  let finishReason: string | undefined;
+  let doneReceived = false;
+
+  try {
+    const res = await fetch(`${cfg.foundryBaseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${cfg.foundryApiKey}`,
+      },
+      body: JSON.stringify(payload),
+      signal: guards.signal,
+    });
+    guards.onHeaders();
+    timer.markTTFB();
+
+    if (!res.ok || !res.body) {
+      const errText = await res.text().catch(() => "(unable to read body)");
+      timer.stop();
+      return {
+        path: "raw-sse",
+        outcome: "FAIL",
+        timings: timer.toTimings(),
+        chunkCount,
+        toolCalls: [],
+        error: `HTTP ${res.status}: ${errText.slice(0, 500)}`,
+      };
+    }
+
+    for await (const evt of parseSSE(res.body, guards.signal)) {
+      chunkCount++;
+      guards.onEvent();
+      timer.markFirstEvent();
+      timer.markChunk(false);
+      checker.checkData(evt.data);
+
+      if (evt.data === "[DONE]") {
+        doneReceived = true;
+        break;
+      }
+
+      try {
+        const parsed = JSON.parse(evt.data) as {
+          choices?: Array<{ delta?: { tool_calls?: ToolCallDelta[] }; finish_reason?: string | null }>;
+        };
+        const choice = parsed.choices?.[0];
+        assembler.add(choice?.delta?.tool_calls, chunkCount - 1);
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+      } catch {
+        // non-JSON data line – already reported by the checker
+      }
+    }
+
+    timer.stop();
+    return {
+      path: "raw-sse",
+      ...evaluate(doneReceived, finishReason, assembler.calls(), [...checker.finish(), ...assembler.violations]),
+      timings: timer.toTimings(),
+      chunkCount,
+      finishReason,
+      toolCalls: assembler.calls(),
+    };
+  } catch (err: unknown) {
+    timer.stop();
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      path: "raw-sse",
+      outcome: outcomeForError(msg, guards.abortReason()),
+      timings: timer.toTimings(),
+      chunkCount,
+      finishReason,
+      toolCalls: assembler.calls(),
+      error: msg,
+    };
+  } finally {
+    guards.clear();
+  }
+}
+
+// ── Path 2: OpenAI SDK stream iterator ───────────────────
+
+async function streamSdk(
+  cfg: AppConfig,
+  payload: OpenAI.Chat.ChatCompletionCreateParamsStreaming,
+): Promise<ToolCallPathResult> {
+  const timer = new Timer();
+  const guards = startGuards(cfg);
+  const assembler = new ToolCallAssembler();
+  const checker = new ChunkConformanceChecker();
+  let chunkCount = 0;
+  let finishReason: string | undefined;
+
+  const client = new OpenAI({
+    apiKey: cfg.foundryApiKey,
+    baseURL: cfg.foundryBaseUrl,
+    timeout: cfg.requestTimeoutMs,
+    maxRetries: 0,
+  });
+
+  try {
+    const stream = await client.chat.completions.create(payload, { signal: guards.signal });
+    guards.onHeaders();
+    timer.markTTFB();
+
+    for await (const chunk of stream) {
+      chunkCount++;
+      guards.onEvent();
+      timer.markFirstEvent();
+      timer.markChunk(false);
+      checker.checkChunk(chunk);
+
+      const choice = chunk.choices?.[0];
+      assembler.add(choice?.delta?.tool_calls, chunkCount - 1);
+      if (choice?.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    // The SDK ends the iterator quietly when its signal aborts – that is not a clean finish
+    if (guards.signal.aborted) {
+      throw new Error(`Stream aborted: ${String(guards.signal.reason)}`);
+    }
+
+    timer.stop();
+    // The SDK consumes data:[DONE] internally, so a finished iterator counts as done
+    return {
+      path: "openai-sdk",
+      ...evaluate(true, finishReason, assembler.calls(), [...checker.finish(false), ...assembler.violations]),
+      timings: timer.toTimings(),
+      chunkCount,
+      finishReason,
+      toolCalls: assembler.calls(),
+    };
+  } catch (err: unknown) {
+    timer.stop();
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      path: "openai-sdk",
+      outcome: outcomeForError(msg, guards.abortReason()),
+      timings: timer.toTimings(),
+      chunkCount,
+      finishReason,
+      toolCalls: assembler.calls(),
+      error: msg,
+    };
+  } finally {
+    guards.clear();
+  }
+}
+
+// ── Tool call reassembly ─────────────────────────────────
+
+/** Concatenates tool_calls[].function.arguments fragments per index */
+class ToolCallAssembler {
+  private readonly byIndex = new Map<number, { id?: string; name?: string; args: string; fragments: number }>();
+  /** Names sent more than once for the same index */
+  readonly violations: ConformanceViolation[] = [];
+
+  add(deltas: ToolCallDelta[] | undefined, chunkIndex: number): void {
+    for (const d of deltas ?? []) {
+      const index = typeof d.index === "number" ? d.index : 0;
+      let call = this.byIndex.get(index);
+      if (!call) {
+        call = { args: "", fragments: 0 };
+        this.byIndex.set(index, call);
+      }
+      if (d.id) call.id = d.id;
+      if (d.function?.name && call.name === undefined) {
+        call.name = d.function.name;
+      } else if (d.function?.name) {
+        this.violations.push({
+          rule: "TOOL_CALL_NAME_REPEATED",
+          message:
+            d.function.name === call.name
+              ? `Tool call ${index} sent its name "${call.name}" again`
+              : `Tool call ${index} changed its name from "${call.name}" to "${d.function.name}"`,
+          chunkIndex,
+        });
+      }
+      if (typeof d.function?.arguments === "string" && d.function.arguments.length > 0) {
+        call.args += d.function.arguments;
+        call.fragments++;
+      }
+    }
+  }
+
+  calls(): ToolCallCheck[] {
+    return [...this.byIndex.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, c]) => ({
+        index,
+        id: c.id,
+        name: c.name,
+        arguments: c.args,
+        fragments: c.fragments,
+        argumentsValid: isJsonObject(c.args),
+      }));
+  }
+}
+
+/** Outcome for a stream that ended without an exception */
+function evaluate(
+  completed: boolean,
+  finishReason: string | undefined,
+  calls: ToolCallCheck[],
+  violations: ConformanceViolation[],
+): Pick<ToolCallPathResult, "outcome" | "error" | "conformanceViolations"> {
+  const conformanceViolations = violations.length > 0 ? violations : undefined;
+  const fail = (error: string) => ({ outcome: "FAIL" as const, error, conformanceViolations });
+
+  if (!completed) return fail("Stream ended without data: [DONE]");
+  if (calls.length === 0) {
+    return fail(`No tool_calls deltas received (finish_reason=${finishReason ?? "none"})`);
+  }
+  for (const c of calls) {
+    if (!c.name) return fail(`Tool call ${c.index} never received a function name`);
+    if (!c.argumentsValid) {
+      return fail(`Tool call ${c.index} arguments are not a JSON object: ${c.arguments.slice(0, 80)}`);
+    }
+  }
+  if (finishReason !== "tool_calls") {
+    return fail(`finish_reason was "${finishReason ?? "none"}", expected "tool_calls"`);
+  }
+  if (conformanceViolations) return { outcome: "NON_CONFORMANT", conformanceViolations };
+  return { outcome: "OK" };
+}
+
+function isJsonObject(text: string): boolean {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Client profiles – the chat completion request shapes real clients send.
+ *
+ * The probes' own requests carry only model, messages, stream and max_tokens.
+ * Copilot Chat in BYOK mode sends more: its own system prompt ahead of the
+ * conversation, temperature, top_p, n, stop, stream_options, tool definitions and
+ * editor headers. A server can answer the minimal request and still reject or
+ * hang on Copilot's, so COPILOT_CLIENT_PROFILE picks the shape the SDK probe
+ * (Probe 3) and the benchmark's streaming test send:
+ *
+ *   minimal             – the probes' own request (default)
+ *   copilot-chat@0.22   – ask mode: system prompt, temperature 0.1, top_p, n, stop, editor headers
+ *   copilot-chat@0.26   – agent mode: adds stream_options.include_usage and workspace tools
+ *
+ * A bare name picks the newest version. The scenario's messages and
+ * max_tokens are kept, so only the client's additions differ between profiles.
+ * With COPILOT_WIRE_API=responses the profile's headers, system prompt,
+ * temperature, top_p and tools go into the POST /responses request instead;
+ * n, stop and stream_options have no Responses API equivalent.
+ * When a Copilot release changes what it sends, add a version rather than
+ * editing an existing one – reports name the profile they ran under.
+ */
+
+import type { ChatMessage, ClientProfile, PromptScenario, ToolDefinition } from "../types";
+
+const COPILOT_SYSTEM_PROMPT = [
+  "You are an AI programming assistant.",
+  'When asked for your name, you must respond with "GitHub Copilot".',
+  "Follow the user's requirements carefully & to the letter.",
+  "Keep your answers short and impersonal.",
+  "Use Markdown formatting in your answers.",
+  "Make sure to include the programming language name at the start of the Markdown code blocks.",
+].join("\n");
+
+/** Copilot ends generation at the end-of-text marker rather than relying on the server */
+const COPILOT_STOP = ["<|endoftext|>"];
+
+const COPILOT_AGENT_SYSTEM_PROMPT = [
+  COPILOT_SYSTEM_PROMPT,
+  "You are a highly sophisticated automated coding agent with expert-level knowledge across many programming languages and frameworks.",
+  "If you can infer the project type from the user's query or the context you have, keep it in mind when making changes.",
+  "Don't make assumptions about the situation – gather context first using the tools available to you.",
+].join("\n");
+
+/** A few of the workspace tools agent mode offers on every request */
+const COPILOT_AGENT_TOOLS: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "read_file",
+      description: "Read the contents of a file. Line numbers are 1-indexed.",
+      parameters: {
+        type: "object",
+        properties: {
+          filePath: { type: "string", description: "The absolute path of the file to read." },
+          startLine: { type: "number", description: "The line number to start reading from." },
+          endLine: { type: "number", description: "The inclusive line number to end reading at." },
+        },
+        required: ["filePath", "startLine", "endLine"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_dir",
+      description: "List the contents of a directory.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "The absolute path to the directory to list." },
+        },
+        required: ["path"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "grep_search",
+      description: "Do a text search in the workspace.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "The pattern to search for in files in the workspace." },
+          isRegexp: { type: "boolean", description: "Whether the pattern is a regex." },
+        },
+        required: ["query"],
+      },
+    },
+  },
+];
+
+/** The probes' own request – no additions */
+export const MINIMAL_CLIENT_PROFILE: ClientProfile = {
+  name: "minimal",
+  version: "1",
+  description: "The probes' own request: model, messages, stream and max_tokens",
+  headers: {},
+};
+
+/** Built-in profiles, oldest version of each name first */
+export const CLIENT_PROFILES: readonly ClientProfile[] = [
+  MINIMAL_CLIENT_PROFILE,
+  {
+    name: "copilot-chat",
+    version: "0.22",
+    description: "Copilot Chat ask mode: system prompt, temperature 0.1, top_p 1, n 1, stop, editor headers",
+    headers: {
+      "User-Agent": "GitHubCopilotChat/0.22.4",
+      "Editor-Version": "vscode/1.95.3",
+      "Editor-Plugin-Version": "copilot-chat/0.22.4",
+      "Copilot-Integration-Id": "vscode-chat",
+      "OpenAI-Intent": "conversation-panel",
+    },
+    systemPrompt: COPILOT_SYSTEM_PROMPT,
+    temperature: 0.1,
+    topP: 1,
+    n: 1,
+    stop: COPILOT_STOP,
+  },
+  {
+    name: "copilot-chat",
+    version: "0.26",
+    description: "Copilot Chat agent mode: adds stream_options.include_usage and workspace tools with tool_choice auto",
+    headers: {
+      "User-Agent": "GitHubCopilotChat/0.26.7",
+      "Editor-Version": "vscode/1.99.3",
+      "Editor-Plugin-Version": "copilot-chat/0.26.7",
+      "Copilot-Integration-Id": "vscode-chat",
+      "OpenAI-Intent": "conversation-agent",
+      "X-Initiator": "user",
+    },
+    systemPrompt: COPILOT_AGENT_SYSTEM_PROMPT,
+    temperature: 0,
+    topP: 1,
+    n: 1,
+    stop: COPILOT_STOP,
+    includeUsage: true,
+    tools: COPILOT_AGENT_TOOLS,
+    toolChoice: "auto",
+  },
+];
+
+/** "name@version" – how reports and logs name a profile */
+export function profileLabel(profile: ClientProfile): string {
+  return `${profile.name}@${profile.version}`;
+}
+
+/**
+ * The profile COPILOT_CLIENT_PROFILE names – "name" for its newest version or
+ * "name@version" – or the minimal profile when it is unset.
+ * Throws with the available profiles when there is no such profile.
+ */
+export function loadClientProfile(spec: string): ClientProfile {
+  if (!spec) return MINIMAL_CLIENT_PROFILE;
+
+  const [name, version] = spec.split("@");
+  const matching = CLIENT_PROFILES.filter((p) => p.name === name && (version === undefined || p.version === version));
+  if (matching.length === 0) {
+    throw new Error(
+      `COPILOT_CLIENT_PROFILE: no profile "${spec}" – available: ${CLIENT_PROFILES.map(profileLabel).join(", ")}`,
+    );
+  }
+  return matching[matching.length - 1];
+}
+
+/**
+ * Request-body fields for a chat completion of this scenario as the client
+ * sends it: its system prompt first, then its sampling settings and tools.
+ */
+export function profileRequestFields(
+  profile: ClientProfile,
+  scenario: PromptScenario,
+): {
+  messages: ChatMessage[];
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  stop?: string[];
+  stream_options?: { include_usage: boolean };
+  tools?: ToolDefinition[];
+  tool_choice?: "auto" | "none" | "required";
+} {
+  const temperature = profile.temperature ?? scenario.temperature;
+  return {
+    messages: [
+      ...(profile.systemPrompt ? [{ role: "system" as const, content: profile.systemPrompt }] : []),
+      ...scenario.messages.map((m) => ({ ...m })),
+    ],
+    max_tokens: scenario.maxTokens,
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(profile.topP !== undefined ? { top_p: profile.topP } : {}),
+    ...(profile.n !== undefined ? { n: profile.n } : {}),
+    ...(profile.stop ? { stop: [...profile.stop] } : {}),
+    ...(profile.includeUsage ? { stream_options: { include_usage: true } } : {}),
+    ...(profile.tools ? { tools: profile.tools.map((t) => ({ ...t })) } : {}),
+    ...(profile.toolChoice ? { tool_choice: profile.toolChoice } : {}),
+  };
+}
+
+/**
+ * The same client additions as Responses API fields (wire_api "responses"):
+ * the system prompt leads the input and tools use the flat Responses shape.
+ */
+export function profileResponsesFields(
+  profile: ClientProfile,
+  scenario: PromptScenario,
+): {
+  input: ChatMessage[];
+  max_output_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  tools?: Array<{ type: "function"; name: string; description?: string; parameters: Record<string, unknown>; strict: boolean }>;
+  tool_choice?: "auto" | "none" | "required";
+} {
+  const temperature = profile.temperature ?? scenario.temperature;
+  return {
+    input: [
+      ...(profile.systemPrompt ? [{ role: "system" as const, content: profile.systemPrompt }] : []),
+      ...scenario.messages.map((m) => ({ ...m })),
+    ],
+    max_output_tokens: scenario.maxTokens,
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(profile.topP !== undefined ? { top_p: profile.topP } : {}),
+    ...(profile.tools
+      ? {
+          tools: profile.tools.map((t) => ({
+            type: "function" as const,
+            name: t.function.name,
+            description: t.function.description,
+            parameters: t.function.parameters,
+            strict: false,
+          })),
+        }
+      : {}),
+    ...(profile.toolChoice ? { tool_choice: profile.toolChoice } : {}),
+  };
+}
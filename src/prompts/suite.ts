@@ -0,0 +1,174 @@
+/**
+ * Prompt suites – named scenarios the probes and the benchmark send.
+ *
+ * A suite is a JSON file (see prompts/copilot.json):
+ *
+ *   {
+ *     "name": "copilot",
+ *     "description": "…",
+ *     "scenarios": [
+ *       {
+ *         "name": "chat-with-system-prompt",
+ *         "messages": [{ "role": "system", "content": "…" }, { "role": "user", "content": "…" }],
+ *         "max_tokens": 512,
+ *         "temperature": 0.2
+ *       }
+ *     ]
+ *   }
+ *
+ * PROMPT_SUITE picks one: a path to a .json file, or a bare name looked up
+ * as prompts/<name>.json. Without it the probes and the benchmark each use
+ * their built-in single-scenario suite.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ChatMessage, PromptScenario, PromptSuite } from "../types";
+
+/** The probes' prompt – designed to elicit multi-token output */
+export const DEFAULT_PROBE_SUITE: PromptSuite = {
+  name: "default",
+  scenarios: [
+    {
+      name: "fibonacci",
+      messages: [
+        {
+          role: "user",
+          content: "Explain the Fibonacci sequence in exactly three sentences. Be concise but complete.",
+        },
+      ],
+      maxTokens: 256,
+    },
+  ],
+};
+
+/** The benchmark's prompt – short and quick, since it runs against every model */
+export const DEFAULT_BENCHMARK_SUITE: PromptSuite = {
+  name: "default",
+  scenarios: [
+    {
+      name: "count-to-ten",
+      messages: [{ role: "user", content: "Count from 1 to 10, one number per line." }],
+      maxTokens: 128,
+    },
+  ],
+};
+
+const ROLES = new Set(["system", "user", "assistant"]);
+
+/**
+ * Load the suite named by PROMPT_SUITE, or `fallback` when it is unset.
+ * Throws with the file and the offending field when the suite is invalid.
+ */
+export function loadPromptSuite(nameOrPath: string, fallback: PromptSuite): PromptSuite {
+  if (!nameOrPath) return fallback;
+
+  const path = nameOrPath.endsWith(".json")
+    ? resolve(process.cwd(), nameOrPath)
+    : resolve(process.cwd(), "prompts", `${nameOrPath}.json`);
+  if (!existsSync(path)) {
+    throw new Error(`PROMPT_SUITE: ${path} not found`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`PROMPT_SUITE: ${path} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  return parseSuite(raw, path);
+}
+
+/** Request-body fields for a chat completion of this scenario */
+export function chatRequestFields(scenario: PromptScenario): {
+  messages: ChatMessage[];
+  max_tokens: number;
+  temperature?: number;
+} {
+  return {
+    messages: scenario.messages.map((m) => ({ ...m })),
+    max_tokens: scenario.maxTokens,
+    ...(scenario.temperature !== undefined ? { temperature: scenario.temperature } : {}),
+  };
+}
+
+/** Request-body fields for a Responses API call of this scenario */
+export function responsesRequestFields(scenario: PromptScenario): {
+  input: ChatMessage[];
+  max_output_tokens: number;
+  temperature?: number;
+} {
+  return {
+    input: scenario.messages.map((m) => ({ ...m })),
+    max_output_tokens: scenario.maxTokens,
+    ...(scenario.temperature !== undefined ? { temperature: scenario.temperature } : {}),
+  };
+}
+
+/**
+ * The scenario as a single text-completions prompt. A lone user message is
+ * sent as-is; a conversation becomes a "Role: content" transcript ending in
+ * "Assistant:" for the model to continue.
+ */
+export function scenarioPrompt(scenario: PromptScenario): string {
+  const [only] = scenario.messages;
+  if (scenario.messages.length === 1 && only.role === "user") return only.content;
+
+  const label = { system: "System", user: "User", assistant: "Assistant" } as const;
+  return scenario.messages.map((m) => `${label[m.role]}: ${m.content}`).join("\n\n") + "\n\nAssistant:";
+}
+
+function parseSuite(raw: unknown, path: string): PromptSuite {
+  const fail = (what: string): never => {
+    throw new Error(`PROMPT_SUITE: ${path}: ${what}`);
+  };
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) fail("top level must be an object");
+  const s = raw as Record<string, unknown>;
+  if (typeof s.name !== "string" || s.name === "") fail("`name` must be a non-empty string");
+  if (!Array.isArray(s.scenarios) || s.scenarios.length === 0) fail("`scenarios` must be a non-empty array");
+
+  const seen = new Set<string>();
+  const scenarios = (s.scenarios as unknown[]).map((entry, i): PromptScenario => {
+    const at = `scenarios[${i}]`;
+    if (typeof entry !== "object" || entry === null) fail(`${at} must be an object`);
+    const e = entry as Record<string, unknown>;
+
+    if (typeof e.name !== "string" || e.name === "") fail(`${at}.name must be a non-empty string`);
+    const name = e.name as string;
+    if (seen.has(name)) fail(`scenario name "${name}" is used twice`);
+    seen.add(name);
+
+    if (!Array.isArray(e.messages) || e.messages.length === 0) fail(`${at}.messages must be a non-empty array`);
+    const messages = (e.messages as unknown[]).map((m, j): ChatMessage => {
+      const msg = (typeof m === "object" && m !== null ? m : {}) as Record<string, unknown>;
+      if (typeof msg.role !== "string" || !ROLES.has(msg.role)) {
+        fail(`${at}.messages[${j}].role must be "system", "user" or "assistant"`);
+      }
+      if (typeof msg.content !== "string") fail(`${at}.messages[${j}].content must be a string`);
+      return { role: msg.role as ChatMessage["role"], content: msg.content as string };
+    });
+
+    const maxTokens = e.max_tokens ?? 256;
+    if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens <= 0) {
+      fail(`${at}.max_tokens must be a positive integer`);
+    }
+    if (e.temperature !== undefined && (typeof e.temperature !== "number" || e.temperature < 0 || e.temperature > 2)) {
+      fail(`${at}.temperature must be a number from 0 to 2`);
+    }
+
+    return {
+      name,
+      description: typeof e.description === "string" ? e.description : undefined,
+      messages,
+      maxTokens: maxTokens as number,
+      temperature: e.temperature as number | undefined,
+    };
+  });
+
+  return {
+    name: s.name as string,
+    description: typeof s.description === "string" ? s.description : undefined,
+    scenarios,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Recording proxy entry point – forwards OpenAI-compatible traffic to
+ * Foundry Local and records every exchange (see server.ts), so a real
+ * client's hang can be seen instead of inferred from synthetic probes.
+ *
+ * Usage:
+ *   node dist/proxy/index.js [--port N]
+ *   npx ts-node src/proxy/index.ts [--port N]
+ *
+ * Then point VS Code Copilot BYOK (or any OpenAI client) at the printed base
+ * URL. Sessions are appended to proxy-sessions.ndjson and shown in the
+ * dashboard; the timeouts that classify them are the probes' (.env).
+ */
+
+import { loadConfig } from "../config";
+import { detectFoundryService, formatServiceInfo } from "../service/detect";
+import { startRecordingProxy } from "./server";
+import { PROXY_SESSIONS_PATH } from "./sessions";
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const portIdx = args.indexOf("--port");
+  const cfg = loadConfig();
+  const port = portIdx !== -1 ? parseInt(args[portIdx + 1], 10) : cfg.proxyPort;
+
+  console.log("─── Foundry Local Recording Proxy ───\n");
+
+  // ── Service discovery (auto-detect port) ────────────────
+  if (!cfg.foundryBaseUrl) {
+    console.log("  ℹ  FOUNDRY_BASE_URL not set – detecting via 'foundry service status'...\n");
+    const svc = detectFoundryService(cfg.requestTimeoutMs);
+    console.log(formatServiceInfo(svc));
+    console.log();
+
+    if (!svc.running || !svc.baseUrl) {
+      console.error("  ❌  Could not detect Foundry Local service.");
+      console.error("     Start it with 'foundry service start' or set FOUNDRY_BASE_URL in .env.");
+      process.exit(1);
+    }
+    cfg.foundryBaseUrl = svc.baseUrl;
+  }
+
+  const proxy = await startRecordingProxy(cfg, { port });
+
+  console.log(`  Forwarding to    : ${cfg.foundryBaseUrl}`);
+  console.log(`  Proxy base URL   : ${proxy.baseUrl}`);
+  console.log(`  Sessions         : ${PROXY_SESSIONS_PATH}`);
+  console.log(`  Wire recordings  : ${cfg.captureStreams ? "on (CAPTURE_STREAMS)" : "off"}`);
+  console.log(
+    `  Timeouts         : first byte ${cfg.firstByteTimeoutMs} ms  first event ${cfg.firstEventTimeoutMs} ms  ` +
+      `idle ${cfg.chunkIdleTimeoutMs} ms  request ${cfg.requestTimeoutMs} ms\n`,
+  );
+  console.log(`  Point Copilot BYOK (OpenAI-compatible provider) at ${proxy.baseUrl}`);
+  console.log("  Press Ctrl+C to stop.\n");
+
+  process.on("SIGINT", () => {
+    proxy.close().then(() => process.exit(0));
+  });
+}
+
+main().catch((err) => {
+  console.error("Fatal proxy error:", err);
+  process.exit(2);
+});
@@ -0,0 +1,359 @@
+/**
+ * Recording proxy – sits between a real client (VS Code Copilot BYOK) and
+ * Foundry Local, forwards every request unchanged and records what happened.
+ *
+ * Requests go to the same path on FOUNDRY_BASE_URL's origin, and response
+ * bytes are passed back as they arrive – the proxy never buffers a stream and
+ * never cancels one. Alongside, each exchange is measured the way the
+ * raw-streaming probe measures its own request:
+ *
+ *   • TTFB, first SSE event, every event's arrival and the gaps between them
+ *   • data: [DONE] (or a terminal response.* event on the Responses API)
+ *   • the outcome the probes' timeout guards would have given it – a stream
+ *     that went quiet for CHUNK_IDLE_TIMEOUT_MS is a STALL even if it resumed
+ *   • a payload hash of the request body (hashPayload), as the probes log
+ *
+ * The guards only classify here; when one fires mid-exchange it is logged and
+ * forwarding goes on. Each finished exchange is appended to the session log
+ * (sessions.ts) that the dashboard reads; close() disconnects exchanges still
+ * in flight and waits for their sessions, so stopping the proxy mid-hang
+ * still logs the hang. With CAPTURE_STREAMS, streams are
+ * also written as replayable recording-proxy-*.ndjson files.
+ */
+
+import { createServer, request as httpRequest, type IncomingMessage, type ServerResponse } from "node:http";
+import { request as httpsRequest } from "node:https";
+import type { AddressInfo } from "node:net";
+import type { AppConfig } from "../config";
+import type { ProbeOutcome, ProxySession } from "../types";
+import { Timer, detectBuffering } from "../utils/timing";
+import { hashPayload } from "../utils/hash";
+import { parseSSE, type SSEEvent } from "../sse/parser";
+import { StreamRecorder } from "../capture/recorder";
+import { startGuards, outcomeForError } from "../probes/guards";
+import { appendProxySession, PROXY_SESSIONS_PATH } from "./sessions";
+
+export interface RecordingProxyOptions {
+  /** Port to listen on (default: random free port) */
+  port?: number;
+  /** Host to bind (default 127.0.0.1) */
+  host?: string;
+  /** Session log to append to (default proxy-sessions.ndjson in the cwd) */
+  sessionsPath?: string;
+}
+
+export interface RecordingProxy {
+  /** The base URL to give the client – the proxy's origin plus FOUNDRY_BASE_URL's path */
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+/** Headers that describe one hop's connection, not the exchange – never forwarded */
+const HOP_BY_HOP = new Set(["connection", "keep-alive", "proxy-connection", "transfer-encoding", "te", "trailer", "upgrade"]);
+
+/** Cap on the event arrivals kept per session */
+const LIST_LIMIT = 500;
+
+/** Responses API events that end a stream, as [DONE] ends a chat completions stream */
+const TERMINAL_RESPONSE_EVENTS = new Set(["response.completed", "response.failed", "response.incomplete"]);
+
+export async function startRecordingProxy(cfg: AppConfig, opts: RecordingProxyOptions = {}): Promise<RecordingProxy> {
+  const upstream = new URL(cfg.foundryBaseUrl);
+  const host = opts.host ?? "127.0.0.1";
+  const sessionsPath = opts.sessionsPath ?? PROXY_SESSIONS_PATH;
+  let seq = 0;
+  /** Exchanges whose sessions are not logged yet */
+  const inFlight = new Set<Promise<void>>();
+
+  const server = createServer((req, res) => {
+    const n = ++seq;
+    const exchange = forward(cfg, upstream, req, res, n)
+      .then((session) => {
+        appendProxySession(session, sessionsPath);
+        console.log(
+          `[proxy] #${n} ← ${session.outcome}  HTTP ${session.httpStatus ?? "–"}  ` +
+            `ttfb=${session.timings.ttfbMs ?? "–"} ms  first event=${session.timings.firstEventMs ?? "–"} ms  ` +
+            `events=${session.eventCount ?? "–"}  total=${session.timings.totalMs} ms` +
+            (session.silentForMs !== undefined ? `  silent for ${session.silentForMs} ms at the end` : "") +
+            (session.endedBy === "client" ? "  (client disconnected)" : "") +
+            (session.error ? `  ${session.error}` : ""),
+        );
+      })
+      .catch((err) => {
+        console.error(`[proxy] #${n} Handler error:`, err);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      })
+      .finally(() => inFlight.delete(exchange));
+    inFlight.add(exchange);
+  });
+
+  await new Promise<void>((resolvePromise) => {
+    server.listen(opts.port ?? 0, host, () => resolvePromise());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://${host}:${port}${upstream.pathname.replace(/\/+$/, "")}`,
+    close: async () => {
+      // Disconnecting the clients ends every exchange in flight (endedBy "client")
+      await new Promise<void>((resolvePromise) => {
+        server.closeAllConnections();
+        server.close(() => resolvePromise());
+      });
+      await Promise.all(inFlight);
+    },
+  };
+}
+
+// ── Forwarding ───────────────────────────────────────────
+
+/** Forward one exchange; resolves with its session once either side has ended it */
+async function forward(
+  cfg: AppConfig,
+  upstream: URL,
+  req: IncomingMessage,
+  res: ServerResponse,
+  n: number,
+): Promise<ProxySession> {
+  const timer = new Timer();
+  const startedAt = new Date().toISOString();
+  const method = req.method ?? "GET";
+  const target = new URL(req.url ?? "/", upstream.origin);
+
+  const reqBody = await readBody(req);
+  const text = reqBody.toString("utf-8");
+  const parsed = parseJson(text);
+  const model = typeof parsed?.model === "string" ? parsed.model : undefined;
+  const stream = parsed?.stream === true;
+  const payloadHash = hashPayload(parsed ?? text);
+
+  console.log(
+    `[proxy] #${n} → ${method} ${target.pathname}` +
+      (model ? `  model=${model}` : "") +
+      (parsed ? `  stream=${stream}` : "") +
+      `  (payload hash: ${payloadHash})`,
+  );
+
+  const headers: Record<string, string | string[]> = {};
+  for (const [k, v] of Object.entries(req.headers)) {
+    if (v !== undefined && !HOP_BY_HOP.has(k) && k !== "host" && k !== "content-length") headers[k] = v;
+  }
+  if (reqBody.length > 0) headers["content-length"] = String(reqBody.length);
+
+  const recorder = cfg.captureStreams && stream ? new StreamRecorder("proxy", payloadHash) : undefined;
+  recorder?.recordRequest(method, target.href, flattenHeaders(headers), parsed ?? text);
+
+  // Streams get the probes' guards – they only classify, nothing is aborted
+  const guards = stream ? startGuards(cfg) : undefined;
+  guards?.signal.addEventListener("abort", () => {
+    console.log(`[proxy] #${n} ${guards.abortReason()} after ${timer.elapsed()} ms – still forwarding`);
+  });
+
+  // SSE events, parsed from a copy of the forwarded bytes
+  let feed: ReadableStreamDefaultController<Uint8Array> | undefined;
+  let parsing: Promise<void> = Promise.resolve();
+  const eventArrivals: number[] = [];
+  let eventCount = 0;
+  let lastEventMs: number | undefined;
+  let doneReceived = false;
+  let parseError: string | undefined;
+  const watchEvents = (): void => {
+    const copy = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        feed = controller;
+      },
+    });
+    parsing = (async () => {
+      for await (const evt of parseSSE(copy)) {
+        eventCount++;
+        lastEventMs = timer.elapsed();
+        if (eventArrivals.length < LIST_LIMIT) eventArrivals.push(lastEventMs);
+        timer.markFirstEvent();
+        guards?.onEvent();
+        const { hasContent, terminal } = inspectEvent(evt);
+        timer.markChunk(hasContent);
+        doneReceived ||= terminal;
+      }
+    })().catch((err: unknown) => {
+      parseError = err instanceof Error ? err.message : String(err);
+      console.log(`[proxy] #${n} Stopped following SSE events: ${parseError}`);
+    });
+  };
+
+  let httpStatus: number | undefined;
+  let bytes = 0;
+
+  const ending = await new Promise<{ by: ProxySession["endedBy"]; error?: string }>((resolveEnd) => {
+    let ended = false;
+    const end = (by: ProxySession["endedBy"], error?: string): void => {
+      if (ended) return;
+      ended = true;
+      resolveEnd({ by, error });
+    };
+
+    const upReq = (target.protocol === "https:" ? httpsRequest : httpRequest)(target, { method, headers });
+
+    upReq.on("response", (up) => {
+      guards?.onHeaders();
+      timer.markTTFB();
+      httpStatus = up.statusCode ?? 502;
+      recorder?.recordResponseHead(httpStatus, up.statusMessage ?? "", flattenHeaders(up.headers));
+
+      const resHeaders: Record<string, string | string[]> = {};
+      for (const [k, v] of Object.entries(up.headers)) {
+        if (v !== undefined && !HOP_BY_HOP.has(k)) resHeaders[k] = v;
+      }
+      res.writeHead(httpStatus, up.statusMessage, resHeaders);
+      res.flushHeaders();
+      if (String(up.headers["content-type"] ?? "").includes("text/event-stream")) watchEvents();
+
+      up.on("data", (chunk: Buffer) => {
+        bytes += chunk.length;
+        recorder?.recordChunk(chunk);
+        if (!feed) guards?.onEvent();
+        else if (parseError === undefined) feed.enqueue(new Uint8Array(chunk));
+        res.write(chunk);
+      });
+      up.on("error", () => undefined); // reported by "close" below
+      up.on("close", () => {
+        if (up.complete) {
+          recorder?.finish("complete");
+          res.end();
+          end("upstream");
+        } else {
+          const msg = "upstream connection closed mid-response";
+          recorder?.finish("error", msg);
+          res.destroy();
+          end("upstream", msg);
+        }
+      });
+    });
+
+    upReq.on("error", (err) => {
+      recorder?.finish("error", err.message);
+      if (!res.headersSent) {
+        res.writeHead(502, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: { message: `Proxy could not reach ${upstream.origin}: ${err.message}`, type: "proxy_error", code: null },
+          }),
+        );
+      } else {
+        res.destroy();
+      }
+      end("upstream", err.message);
+    });
+
+    // The client gave up first – Copilot cancelled, timed out or the user pressed stop
+    res.on("close", () => {
+      if (ended) return;
+      recorder?.finish("cancelled");
+      upReq.destroy();
+      end("client");
+    });
+
+    upReq.end(reqBody);
+  });
+
+  // Let the parser finish with the bytes already forwarded
+  feed?.close();
+  await parsing;
+  guards?.clear();
+  timer.stop();
+
+  const timings = timer.toTimings();
+  const reason = guards ? guards.abortReason() : timings.totalMs >= cfg.requestTimeoutMs ? "REQUEST_TIMEOUT" : undefined;
+  let error = ending.error;
+  let outcome: ProbeOutcome;
+  if (httpStatus === undefined && ending.by === "upstream") {
+    outcome = outcomeForError(error ?? "", undefined);
+  } else if (httpStatus !== undefined && (httpStatus < 200 || httpStatus >= 300)) {
+    outcome = "FAIL";
+    error ??= `HTTP ${httpStatus}`;
+  } else if (reason) {
+    outcome = outcomeForError(error ?? "", reason);
+    error ??= `${reason} passed while forwarding – a probe would have given up`;
+  } else if (ending.by === "client") {
+    outcome = "OK"; // cancelled before any timeout – not the server's fault
+  } else if (error) {
+    outcome = "ERROR";
+  } else if (feed && parseError !== undefined) {
+    outcome = "ERROR";
+    error = `Could not follow the SSE stream: ${parseError}`;
+  } else if (feed && !doneReceived) {
+    outcome = "FAIL";
+    error = "Stream ended without data: [DONE]";
+  } else {
+    outcome = "OK";
+  }
+
+  return {
+    startedAt,
+    method,
+    path: target.pathname + target.search,
+    model,
+    stream,
+    payloadHash,
+    userAgent: req.headers["user-agent"],
+    outcome,
+    httpStatus,
+    timings,
+    ...(feed
+      ? {
+          eventCount,
+          eventArrivals,
+          doneReceived,
+          buffering: detectBuffering(eventArrivals),
+          silentForMs:
+            ending.by === "client" && !doneReceived ? timings.totalMs - (lastEventMs ?? timings.ttfbMs ?? 0) : undefined,
+        }
+      : {}),
+    bytes,
+    endedBy: ending.by,
+    error,
+    recordingPath: recorder?.path,
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────
+
+/** Whether an event carried generated output, and whether it ends the stream */
+function inspectEvent(evt: SSEEvent): { hasContent: boolean; terminal: boolean } {
+  if (evt.data === "[DONE]") return { hasContent: false, terminal: true };
+
+  // Not every data: line is a JSON object – "null" or a bare string must not stop the count
+  const payload = parseJson(evt.data);
+  if (!payload) return { hasContent: false, terminal: false };
+  const type = typeof payload.type === "string" ? payload.type : evt.event;
+  if (TERMINAL_RESPONSE_EVENTS.has(type)) return { hasContent: false, terminal: true };
+
+  const choice = (payload.choices as Array<{ delta?: { content?: string; tool_calls?: unknown }; text?: string }> | undefined)?.[0];
+  const hasContent =
+    Boolean(choice?.delta?.content || choice?.delta?.tool_calls || choice?.text) ||
+    (type === "response.output_text.delta" && Boolean(payload.delta));
+  return { hasContent, terminal: false };
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function parseJson(text: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(text);
+    return typeof value === "object" && value !== null ? (value as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function flattenHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers)) {
+    if (v !== undefined) flat[k] = Array.isArray(v) ? v.join(", ") : v;
+  }
+  return flat;
+}
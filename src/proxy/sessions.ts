@@ -0,0 +1,35 @@
+/**
+ * Proxy session log – one JSON ProxySession per line, appended by the
+ * recording proxy as each exchange ends and read back by the dashboard.
+ * Lines are appended synchronously so the log survives the proxy being
+ * stopped mid-hang; sessions from earlier proxy runs stay in the file.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ProxySession } from "../types";
+
+export const PROXY_SESSIONS_PATH = resolve(process.cwd(), "proxy-sessions.ndjson");
+
+export function appendProxySession(session: ProxySession, path: string = PROXY_SESSIONS_PATH): void {
+  appendFileSync(path, JSON.stringify(session) + "\n", "utf-8");
+}
+
+/**
+ * All logged sessions, oldest first – empty when the proxy has not run here.
+ * Lines that do not parse (a write cut short, a hand edit) are skipped so one
+ * bad line does not hide the rest of the log.
+ */
+export function readProxySessions(path: string = PROXY_SESSIONS_PATH): ProxySession[] {
+  if (!existsSync(path)) return [];
+  const sessions: ProxySession[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      sessions.push(JSON.parse(line) as ProxySession);
+    } catch {
+      // a partial or hand-edited line
+    }
+  }
+  return sessions;
+}
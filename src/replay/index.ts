@@ -0,0 +1,98 @@
+/**
+ * Replay entry point – serves a stream recording (see capture/recorder.ts)
+ * from a local HTTP stand-in and runs it back through the raw SSE parser,
+ * the raw-streaming outcome logic and the OpenAI SDK stream iterator, and
+ * feeds the recorded bytes to the client parser matrix (Probe 14).
+ * Recordings of `POST /responses` are replayed through the Responses API
+ * probe and the SDK's responses iterator instead.
+ *
+ * No Foundry Local install or GPU is needed – only the recording.
+ *
+ * Usage:
+ *   node dist/replay/index.js <recording.ndjson> [--speed N]
+ *   npx ts-node src/replay/index.ts <recording.ndjson> [--speed N]
+ *
+ *   --speed N   Play back N times faster than recorded (default 1)
+ */
+
+import { resolve } from "node:path";
+import { loadConfig } from "../config";
+import { readRecording } from "../capture/recorder";
+import { startReplayServer } from "./server";
+import { runRawStreamingProbe } from "../probes/raw-streaming";
+import { runCopilotSdkStreamingProbe } from "../probes/copilot-sdk-streaming";
+import { runResponsesStreamingProbe } from "../probes/responses-streaming";
+import { runClientCompatOnRecording } from "../probes/client-compat";
+import { writeReport, printSummary } from "../report";
+import type { ProbeResult } from "../types";
+
+const REPLAY_REPORT_PATH = resolve(process.cwd(), "replay-report.json");
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const speedIdx = args.indexOf("--speed");
+  const speed = speedIdx !== -1 ? parseFloat(args[speedIdx + 1]) : 1;
+  const file = args.find((a, i) => !a.startsWith("--") && (speedIdx === -1 || i !== speedIdx + 1));
+
+  if (!file || !Number.isFinite(speed) || speed <= 0) {
+    console.error("Usage: replay <recording.ndjson> [--speed N]");
+    process.exit(2);
+  }
+
+  console.log("─── Foundry Local Stream Replay ───\n");
+
+  const recording = readRecording(resolve(file));
+  const model = (recording.request?.body as { model?: string } | undefined)?.model ?? "replay";
+  const wireApi = recording.request?.url.endsWith("/responses") ? "responses" : "completions";
+  const lastT = recording.chunks.length > 0 ? recording.chunks[recording.chunks.length - 1].t : 0;
+
+  console.log(`  Recording     : ${resolve(file)}`);
+  console.log(`  Captured by   : ${recording.meta.probe} at ${recording.meta.startedAt}`);
+  console.log(`  Payload hash  : ${recording.meta.payloadHash}`);
+  console.log(`  Model         : ${model}`);
+  console.log(`  Wire API      : ${wireApi}`);
+  console.log(`  HTTP status   : ${recording.response?.status ?? "none (no headers recorded)"}`);
+  console.log(`  Byte chunks   : ${recording.chunks.length} over ${Math.round(lastT)} ms`);
+  console.log(`  Ended by      : ${recording.end?.reason ?? "unknown"}`);
+  console.log(`  Speed         : ${speed}x\n`);
+
+  const server = await startReplayServer(recording, { speed });
+
+  const cfg = loadConfig();
+  cfg.foundryBaseUrl = server.baseUrl;
+  cfg.foundryModel = model;
+  cfg.captureStreams = false;
+  cfg.copilotWireApi = wireApi;
+
+  const results: ProbeResult[] = [];
+  try {
+    if (wireApi === "responses") {
+      console.log("\n═══ Replay through Responses API streaming (fetch + SSE parser) ═══\n");
+      results.push(await runResponsesStreamingProbe(cfg));
+    } else {
+      console.log("\n═══ Replay through raw streaming (fetch + SSE parser) ═══\n");
+      results.push(await runRawStreamingProbe(cfg));
+
+      // Without a response there are no bytes for the parsers to compare
+      if (recording.response) {
+        console.log("\n═══ Recorded bytes through four client parsers ═══\n");
+        results.push(await runClientCompatOnRecording(recording));
+      }
+    }
+
+    console.log("\n═══ Replay through Copilot SDK BYOK streaming (OpenAI SDK) ═══\n");
+    results.push(await runCopilotSdkStreamingProbe(cfg));
+  } finally {
+    await server.close();
+  }
+
+  const report = writeReport(cfg, results, REPLAY_REPORT_PATH);
+  printSummary(report);
+
+  process.exit(results.every((r) => r.outcome === "OK") ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error("Fatal replay error:", err);
+  process.exit(2);
+});
@@ -0,0 +1,116 @@
+/**
+ * Replay stand-in – a local HTTP server that answers every POST with a
+ * recorded streaming response, reproducing the original header delay and
+ * inter-chunk timing (optionally accelerated).
+ *
+ * If the recording did not end with the server closing the body (the
+ * original probe timed out or stopped reading), the replayed connection is
+ * left open after the last chunk – so a hang replays as a hang. The one
+ * exception is a probe that stopped reading at data: [DONE]: the recording
+ * cannot say whether the server would have ended the body, so it is ended
+ * after the last chunk, as the client parser matrix does. A recording with
+ * no response line (the request hung before headers) replays as a server
+ * that accepts the request and never answers.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { StreamRecording } from "../capture/recorder";
+
+export interface ReplayServerOptions {
+  /** Playback speed factor – 1 = original timing, 10 = ten times faster */
+  speed?: number;
+  /** Port to listen on (default: random free port) */
+  port?: number;
+}
+
+export interface ReplayServer {
+  /** OpenAI-compatible base URL, e.g. http://127.0.0.1:54321/v1 */
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+const DONE_LINE = /^data: ?\[DONE\]\s*$/m;
+
+/** Headers that describe the original framing and must not be replayed verbatim */
+const HOP_BY_HOP = new Set(["content-length", "transfer-encoding", "connection", "keep-alive", "date"]);
+
+export async function startReplayServer(
+  recording: StreamRecording,
+  opts: ReplayServerOptions = {},
+): Promise<ReplayServer> {
+  const speed = opts.speed && opts.speed > 0 ? opts.speed : 1;
+  const response = recording.response;
+
+  const requestT = recording.request?.t ?? 0;
+  const chunks = recording.chunks.map((c) => ({
+    t: c.t,
+    bytes: Buffer.from(c.bytes, "base64"),
+  }));
+  const stoppedAtDone =
+    recording.end?.reason === "stopped-reading" &&
+    DONE_LINE.test(Buffer.concat(chunks.map((c) => c.bytes)).toString("utf-8"));
+  const closesBody = recording.end?.reason === "complete" || stoppedAtDone;
+  // No response line and no guard abort: the connection itself failed (refused, reset)
+  const failedBeforeHeaders =
+    !response && recording.end?.reason === "error" && !/_TIMEOUT$|\baborted\b/i.test(recording.end.error ?? "");
+
+  const server: Server = createServer((req, res) => {
+    req.resume();
+
+    if (req.method === "GET" && req.url?.endsWith("/models")) {
+      const model = (recording.request?.body as { model?: string } | undefined)?.model ?? "replay";
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ object: "list", data: [{ id: model, object: "model", owned_by: "replay" }] }));
+      return;
+    }
+
+    // Never answered in the recording – hold the request open until the client gives up
+    if (!response) {
+      if (failedBeforeHeaders) res.destroy();
+      return;
+    }
+
+    const timers: NodeJS.Timeout[] = [];
+    res.on("close", () => timers.forEach(clearTimeout));
+
+    const headers: Record<string, string> = {};
+    for (const [k, v] of Object.entries(response.headers)) {
+      if (!HOP_BY_HOP.has(k)) headers[k] = v;
+    }
+
+    const headerDelay = Math.max(0, response.t - requestT) / speed;
+    timers.push(
+      setTimeout(() => {
+        res.writeHead(response.status, response.statusText, headers);
+        res.flushHeaders();
+
+        for (const chunk of chunks) {
+          const delay = Math.max(0, chunk.t - response.t) / speed;
+          timers.push(setTimeout(() => res.write(chunk.bytes), delay));
+        }
+
+        if (closesBody) {
+          const lastT = chunks.length > 0 ? chunks[chunks.length - 1].t : response.t;
+          const endT = stoppedAtDone ? lastT : (recording.end?.t ?? lastT);
+          const endDelay = Math.max(0, endT - response.t) / speed;
+          timers.push(setTimeout(() => res.end(), endDelay));
+        }
+      }, headerDelay),
+    );
+  });
+
+  await new Promise<void>((resolvePromise) => {
+    server.listen(opts.port ?? 0, "127.0.0.1", () => resolvePromise());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    close: () =>
+      new Promise<void>((resolvePromise) => {
+        server.closeAllConnections();
+        server.close(() => resolvePromise());
+      }),
+  };
+}
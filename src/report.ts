@@ -4,13 +4,28 @@
 
 import { writeFileSync } from "node:fs";
 import { resolve } from "node:path";
-import type { DiagnosticReport, ProbeResult } from "./types";
+import type {
+  ContextRampInfo,
+  DiagnosticReport,
+  ProbeOutcome,
+  ProbeResult,
+  RepeatStats,
+  TransportComparison,
+  TransportInfo,
+  UsageComparison,
+} from "./types";
 import type { AppConfig } from "./config";
+import { timingPercentiles } from "./utils/timing";
+import { profileLabel } from "./prompts/client-profiles";
 
 const REPORT_PATH = resolve(process.cwd(), "report.json");
 
-/** Persist the full diagnostic report to disk */
-export function writeReport(config: AppConfig, probes: ProbeResult[]): DiagnosticReport {
+/** Persist the full diagnostic report to disk (report.json unless `path` is given) */
+export function writeReport(
+  config: AppConfig,
+  probes: ProbeResult[],
+  path: string = REPORT_PATH,
+): DiagnosticReport {
   const report: DiagnosticReport = {
     timestamp: new Date().toISOString(),
     config: {
@@ -21,15 +36,201 @@ export function writeReport(config: AppConfig, probes: ProbeResult[]): Diagnosti
       requestTimeoutMs: config.requestTimeoutMs,
       firstByteTimeoutMs: config.firstByteTimeoutMs,
       firstEventTimeoutMs: config.firstEventTimeoutMs,
+      chunkIdleTimeoutMs: config.chunkIdleTimeoutMs,
+      cancelAfterChunks: config.cancelAfterChunks,
+      concurrentStreams: config.concurrentStreams,
+      contextRampMaxTokens: config.contextRampMaxTokens,
+      includeUsage: config.includeUsage,
+      captureStreams: config.captureStreams,
+      promptSuite: config.promptSuite || "default",
+      clientProfile: profileLabel(config.clientProfile),
+      repeatCount: config.repeatCount,
+      warmupRuns: config.warmupRuns,
     },
     probes,
+    scenarios: outcomesByScenario(probes, config.scenario.name),
+    usageComparison: compareUsage(probes),
+    transport: compareTransport(probes, config),
+    repeat: repeatStats(probes),
   };
 
-  writeFileSync(REPORT_PATH, JSON.stringify(report, null, 2), "utf-8");
-  console.log(`\n✅  Report written to ${REPORT_PATH}\n`);
+  writeFileSync(path, JSON.stringify(report, null, 2), "utf-8");
+  console.log(`\n✅  Report written to ${path}\n`);
   return report;
 }
 
+/**
+ * Probe outcomes keyed by scenario, then probe (results without a scenario go
+ * under `fallback`). Over repeated runs a probe shows its first outcome that
+ * was not OK.
+ */
+function outcomesByScenario(
+  probes: ProbeResult[],
+  fallback: string,
+): Record<string, Record<string, ProbeOutcome>> {
+  const out: Record<string, Record<string, ProbeOutcome>> = {};
+  for (const p of probes) {
+    const byProbe = (out[p.scenario ?? fallback] ??= {});
+    if (byProbe[p.probe] === undefined || byProbe[p.probe] === "OK") byProbe[p.probe] = p.outcome;
+  }
+  return out;
+}
+
+/** Streaming probes that reported usage, next to the same scenario's non-streaming usage */
+function compareUsage(probes: ProbeResult[]): UsageComparison[] | undefined {
+  const comparisons: UsageComparison[] = [];
+  for (const p of probes) {
+    if (p.probe === "non-streaming" || !p.usage) continue;
+    const reference = probes.find(
+      (r) => r.probe === "non-streaming" && r.scenario === p.scenario && r.run === p.run,
+    )?.usage;
+    if (!reference) continue;
+    comparisons.push({
+      probe: p.probe,
+      scenario: p.scenario,
+      run: p.run,
+      nonStreaming: reference,
+      streaming: p.usage,
+      promptTokensMatch: p.usage.promptTokens === reference.promptTokens,
+      completionTokensDelta: p.usage.completionTokens - reference.completionTokens,
+    });
+  }
+  return comparisons.length > 0 ? comparisons : undefined;
+}
+
+/** Outcomes that mean the fetch stream went quiet or never started */
+const FETCH_STALLED: ProbeOutcome[] = ["NO_FIRST_EVENT", "STALL", "TIMEOUT", "HANG"];
+
+/**
+ * The http-transport probe's socket view next to the same scenario's
+ * raw-streaming (fetch) view. The socket decides whether the server stalled
+ * or buffered; only when the socket looked healthy and fetch did not is the
+ * client (undici) to blame.
+ */
+function compareTransport(probes: ProbeResult[], config: AppConfig): TransportComparison[] | undefined {
+  const comparisons: TransportComparison[] = [];
+  for (const p of probes) {
+    if (p.probe !== "http-transport" || !p.transport) continue;
+    const t = p.transport;
+    const raw = probes.find((r) => r.probe === "raw-streaming" && r.scenario === p.scenario && r.run === p.run);
+    const socket: TransportComparison["socket"] = {
+      outcome: p.outcome,
+      headersMs: t.headersMs,
+      firstReadMs: t.reads[0]?.atMs,
+      longestSilenceMs: t.longestSilence?.ms,
+      buffered: t.buffering !== undefined,
+    };
+    const fetch: TransportComparison["fetch"] = raw && {
+      outcome: raw.outcome,
+      ttfbMs: raw.timings.ttfbMs,
+      firstEventMs: raw.timings.firstEventMs,
+      longestStallMs: raw.timings.longestStall?.ms,
+      buffered: raw.buffering !== undefined,
+    };
+    comparisons.push({
+      scenario: p.scenario,
+      run: p.run,
+      socket,
+      fetch,
+      ...diagnoseTransport(t, p.outcome, fetch, config),
+    });
+  }
+  return comparisons.length > 0 ? comparisons : undefined;
+}
+
+function diagnoseTransport(
+  t: TransportInfo,
+  outcome: ProbeOutcome,
+  fetch: TransportComparison["fetch"],
+  config: AppConfig,
+): Pick<TransportComparison, "diagnosis" | "detail"> {
+  if (t.headersMs === undefined || t.readCount === 0) {
+    return {
+      diagnosis: "SERVER_SILENT",
+      detail: t.headersMs === undefined ? "The socket never received response headers." : "The socket received headers but no body.",
+    };
+  }
+  if (t.buffering) {
+    return {
+      diagnosis: "SERVER_BUFFERING",
+      detail: `All ${t.eventCount} events came off the socket in one burst at ${t.endMs ?? "?"} ms – the server buffers the stream.`,
+    };
+  }
+  const silence = t.longestSilence;
+  if (outcome === "STALL" || (silence && silence.ms >= config.chunkIdleTimeoutMs)) {
+    return {
+      diagnosis: "SERVER_STALL",
+      detail: `The socket went silent for ${silence?.ms ?? "?"} ms after read ${silence?.afterRead ?? "?"} – the server stopped sending.`,
+    };
+  }
+  if (fetch && (fetch.buffered || FETCH_STALLED.includes(fetch.outcome))) {
+    return {
+      diagnosis: "CLIENT_BUFFERING",
+      detail: `The socket streamed ${t.readCount} reads steadily but fetch saw ${fetch.buffered ? "one burst" : fetch.outcome} – the delay is client-side.`,
+    };
+  }
+  return {
+    diagnosis: "OK",
+    detail: fetch ? "Socket and fetch both saw a steady stream." : "The socket saw a steady stream (raw-streaming did not run to compare).",
+  };
+}
+
+/** Per probe and scenario over the measured runs – undefined unless the results carry run numbers */
+function repeatStats(probes: ProbeResult[]): RepeatStats[] | undefined {
+  if (!probes.some((p) => p.run !== undefined)) return undefined;
+
+  const groups = new Map<string, ProbeResult[]>();
+  for (const p of probes) {
+    const key = `${p.probe}\u0000${p.scenario ?? ""}`;
+    const group = groups.get(key);
+    if (group) group.push(p);
+    else groups.set(key, [p]);
+  }
+
+  return [...groups.values()].map((runs) => {
+    const outcomes: RepeatStats["outcomes"] = {};
+    for (const r of runs) outcomes[r.outcome] = (outcomes[r.outcome] ?? 0) + 1;
+    const passed = outcomes.OK ?? 0;
+    const spread = (values: (number | undefined)[]) => {
+      const measured = values.filter((v): v is number => v !== undefined);
+      return measured.length > 0 ? timingPercentiles(measured) : undefined;
+    };
+    return {
+      probe: runs[0].probe,
+      scenario: runs[0].scenario,
+      runs: runs.length,
+      passed,
+      passRate: Math.round((passed / runs.length) * 100) / 100,
+      outcomes,
+      totalMs: timingPercentiles(runs.map((r) => r.timings.totalMs)),
+      ttfbMs: spread(runs.map((r) => r.timings.ttfbMs)),
+      firstEventMs: spread(runs.map((r) => r.timings.firstEventMs)),
+    };
+  });
+}
+
+/** Outcomes that mean the request hung rather than failed outright */
+const HUNG: ProbeOutcome[] = ["NO_FIRST_BYTE", "NO_FIRST_EVENT", "STALL", "TIMEOUT", "HANG"];
+
+/** "raw-streaming hung 3/20 times, failed 1/20 times" – undefined when every run passed */
+function describeFlakiness(s: RepeatStats, withScenario: boolean): string | undefined {
+  if (s.passed === s.runs) return undefined;
+  const count = (match: (o: ProbeOutcome) => boolean) =>
+    Object.entries(s.outcomes)
+      .filter(([o]) => match(o as ProbeOutcome))
+      .reduce((sum, [, n]) => sum + (n ?? 0), 0);
+  const parts = [
+    ["hung", count((o) => HUNG.includes(o))],
+    ["failed", count((o) => o === "FAIL" || o === "ERROR")],
+    ["was non-conformant", count((o) => o === "NON_CONFORMANT")],
+  ] as const;
+  const name = withScenario && s.scenario ? `${s.probe} [${s.scenario}]` : s.probe;
+  return `${name} ${parts
+    .filter(([, n]) => n > 0)
+    .map(([verb, n]) => `${verb} ${n}/${s.runs} times`)
+    .join(", ")}`;
+}
+
 /** Print a readable summary table to stdout */
 export function printSummary(report: DiagnosticReport): void {
   const sep = "═".repeat(78);
@@ -39,43 +240,366 @@ export function printSummary(report: DiagnosticReport): void {
   console.log("  FOUNDRY LOCAL STREAMING VALIDATION REPORT");
   console.log(`  ${report.timestamp}`);
   console.log(`  Model: ${report.config.foundryModel}   Base: ${report.config.foundryBaseUrl}`);
+  console.log(`  Copilot wire API: ${report.config.copilotWireApi}   Client profile: ${report.config.clientProfile}`);
+  console.log(`  Prompt suite: ${report.config.promptSuite}`);
+  if (report.repeat) {
+    console.log(
+      `  Runs: ${report.config.repeatCount}` +
+        (report.config.warmupRuns > 0 ? ` (+${report.config.warmupRuns} warmup, not counted)` : "") +
+        " – details below for runs that did not pass",
+    );
+  }
   console.log(sep);
 
+  const multiScenario = Object.keys(report.scenarios).length > 1;
+
   for (const p of report.probes) {
-    const icon = p.outcome === "OK" ? "✅" : p.outcome === "TIMEOUT" || p.outcome === "HANG" ? "⏱️ " : "❌";
+    // Over repeated runs the passing ones are summed up in the table further down
+    if (report.repeat && p.outcome === "OK") continue;
+    const icon =
+      p.outcome === "OK"
+        ? "✅"
+        : p.outcome === "NON_CONFORMANT"
+          ? "⚠️ "
+          : p.outcome === "TIMEOUT" || p.outcome === "HANG" || p.outcome === "STALL"
+            ? "⏱️ "
+            : "❌";
     console.log(thin);
-    console.log(`  ${icon}  ${p.probe}`);
+    console.log(
+      `  ${icon}  ${p.probe}${multiScenario && p.scenario ? `  [${p.scenario}]` : ""}` +
+        (p.run !== undefined ? `  run ${p.run}/${report.config.repeatCount}` : ""),
+    );
     console.log(`      Outcome       : ${p.outcome}`);
+    if (p.wireApi) console.log(`      Wire API      : ${p.wireApi}`);
+    if (p.clientProfile) console.log(`      Client profile: ${p.clientProfile}`);
     if (p.httpStatus !== undefined) console.log(`      HTTP Status   : ${p.httpStatus}`);
     console.log(`      Total time    : ${p.timings.totalMs} ms`);
     if (p.timings.ttfbMs !== undefined) console.log(`      TTFB          : ${p.timings.ttfbMs} ms`);
     if (p.timings.firstEventMs !== undefined)
       console.log(`      First event   : ${p.timings.firstEventMs} ms`);
+    if (p.timings.firstContentMs !== undefined)
+      console.log(`      1st content   : ${p.timings.firstContentMs} ms`);
+    if (p.timings.chunkGaps) {
+      const g = p.timings.chunkGaps;
+      console.log(`      Chunk gaps    : p50 ${g.p50Ms} ms · p95 ${g.p95Ms} ms · max ${g.maxMs} ms`);
+    }
+    if (p.timings.longestStall)
+      console.log(
+        `      Longest stall : ${p.timings.longestStall.ms} ms (after chunk ${p.timings.longestStall.afterChunk})`,
+      );
+    if (p.timings.tokensPerSec !== undefined)
+      console.log(
+        `      Tokens/sec    : ${p.timings.tokensPerSec}` +
+          (p.timings.tokensPerSecSource === "chunks" ? " (per content chunk)" : ""),
+      );
+    if (p.usage)
+      console.log(
+        `      Usage         : prompt ${p.usage.promptTokens} · completion ${p.usage.completionTokens} · total ${p.usage.totalTokens}`,
+      );
+    if (p.usageCheck) {
+      const u = p.usageCheck;
+      console.log(
+        `      Usage chunk   : ` +
+          (u.usageChunkIndex !== undefined
+            ? `#${u.usageChunkIndex}  empty choices=${u.choicesEmpty}  last before [DONE]=${u.lastBeforeDone}`
+            : "missing"),
+      );
+      for (const problem of u.problems) {
+        console.log(`        • ${problem.slice(0, 110)}`);
+      }
+    }
     if (p.chunkCount !== undefined) console.log(`      Chunks        : ${p.chunkCount}`);
     if (p.doneReceived !== undefined) console.log(`      [DONE] recv'd : ${p.doneReceived}`);
+    if (p.stall)
+      console.log(
+        `      Stalled       : after chunk ${p.stall.afterChunk} at ${p.stall.elapsedMs} ms (silent ≥ ${p.stall.idleMs} ms)`,
+      );
+    if (p.buffering)
+      console.log(
+        `      Buffered      : first chunk at ${Math.round(p.buffering.firstChunkRatio * 100)}% of stream time, ` +
+          `${Math.round(p.buffering.burstRatio * 100)}% of chunks within ${p.buffering.burstWindowMs} ms`,
+      );
+    if (p.sseAnomalies?.length) {
+      console.log(`      SSE anomalies : ${p.sseAnomalies.length}`);
+      for (const a of p.sseAnomalies.slice(0, 5)) {
+        console.log(`        • ${a.kind} (after event ${a.eventIndex}): ${a.detail.slice(0, 90)}`);
+      }
+    }
+    if (p.conformanceViolations?.length) {
+      console.log(`      Violations    : ${p.conformanceViolations.length}`);
+      for (const v of p.conformanceViolations.slice(0, 5)) {
+        const at = v.chunkIndex !== undefined ? ` @chunk ${v.chunkIndex}` : "";
+        console.log(`        • ${v.rule}${at}: ${v.message.slice(0, 90)}`);
+      }
+    }
+    for (const t of p.toolCalling ?? []) {
+      console.log(
+        `      Tool calls    : ${t.path.padEnd(10)} ${t.outcome}  finish_reason=${t.finishReason ?? "none"}  chunks=${t.chunkCount}`,
+      );
+      for (const c of t.toolCalls) {
+        console.log(
+          `        • ${c.argumentsValid ? "✔" : "✘"} ${c.name ?? "?"}(${c.arguments.slice(0, 70)}) in ${c.fragments} fragments`,
+        );
+      }
+    }
+    if (p.recovery) {
+      const r = p.recovery;
+      console.log(`      Cancelled     : after chunk ${r.cancelledAfterChunk} at ${r.cancelAtMs} ms`);
+      for (const f of r.followUps) {
+        console.log(`      Follow-up     : ${f.probe.padEnd(14)} ${f.outcome}  (${f.timings.totalMs} ms)`);
+      }
+      console.log(`      Recovery      : ${r.recoveryMs !== undefined ? `${r.recoveryMs} ms` : "never"}`);
+    }
+    if (p.concurrency) {
+      const c = p.concurrency;
+      console.log(
+        `      Concurrency   : ${c.streams} streams, peak ${c.peakParallel} in parallel` +
+          (c.serialized ? " – SERIALIZED" : ""),
+      );
+      for (const s of c.perStream) {
+        console.log(
+          `        • #${s.index} ${s.outcome.padEnd(14)} ttfb ${s.ttfbMs ?? "–"} ms · first ${s.firstEventMs ?? "–"} ms · ` +
+            `total ${s.totalMs} ms${c.starved.includes(s.index) ? " (starved)" : ""}`,
+        );
+      }
+    }
+    if (p.parity) {
+      const pi = p.parity;
+      const usage = (u?: { promptTokens: number; completionTokens: number }) =>
+        u ? `${u.promptTokens}+${u.completionTokens} tokens` : "no usage";
+      for (const [label, s] of [["stream:false", pi.nonStreaming], ["stream:true ", pi.streaming]] as const) {
+        console.log(
+          `      Parity        : ${label} ${s.outcome.padEnd(8)} ${s.text.length} chars  ` +
+            `finish_reason=${s.finishReason ?? "none"}  ${usage(s.usage)}`,
+        );
+      }
+      console.log(
+        `      Text match    : ${pi.textMatches ? "identical" : `differs at char ${pi.firstDiffAt}`}`,
+      );
+      for (const d of pi.divergences) {
+        console.log(`        • ${d.slice(0, 110)}`);
+      }
+    }
+    if (p.structuredOutput) {
+      for (const v of p.structuredOutput.variants) {
+        for (const [label, a] of [["stream:false", v.nonStreaming], ["stream:true ", v.streaming]] as const) {
+          console.log(
+            `      JSON mode     : ${v.format.padEnd(11)} ${label} ${a.outcome.padEnd(8)} ` +
+              `${a.outcome !== "OK" ? "–" : a.honoured ? "✔ honoured" : a.validJson ? "✘ wrong shape" : "✘"}` +
+              (a.formatErrors.length > 0 ? `  ${a.formatErrors[0].slice(0, 60)}` : ""),
+          );
+        }
+      }
+    }
+    for (const c of p.errorContract?.cases ?? []) {
+      console.log(
+        `      Error reply   : ${c.name.padEnd(20)} ${c.outcome.padEnd(14)} HTTP ${c.httpStatus ?? "–"}  ${c.totalMs} ms`,
+      );
+      for (const v of c.violations) {
+        console.log(`        • ${v.slice(0, 110)}`);
+      }
+    }
+    if (p.transport) printTransport(p.transport);
+    if (p.clientCompat) {
+      const cc = p.clientCompat;
+      console.log(`      Captured      : ${cc.source}  ${cc.bytes} bytes in ${cc.byteChunks} chunks  body ${cc.bodyEnd}`);
+      for (const c of cc.clients) {
+        console.log(
+          `      Client        : ${c.client.padEnd(20)} ${c.outcome.padEnd(10)} ${c.chunks} chunks  ${c.textLength} chars` +
+            (c.detail ? `  ${c.detail.slice(0, 80)}` : ""),
+        );
+      }
+    }
+    if (p.contextRamp) printContextRamp(p.contextRamp);
+    if (p.responses) {
+      const r = p.responses;
+      console.log(
+        `      Responses     : terminal=${r.terminalEvent ?? "none"}  status=${r.status ?? "?"}` +
+          (r.textMatchesDone === false ? "  output_text.done ≠ deltas" : ""),
+      );
+      console.log(
+        `      Event types   : ${Object.entries(r.eventCounts)
+          .map(([type, n]) => (n > 1 ? `${type}×${n}` : type))
+          .join(", ")
+          .slice(0, 200)}`,
+      );
+      for (const v of r.violations.slice(0, 5)) {
+        console.log(`        • ${v.slice(0, 110)}`);
+      }
+    }
+    if (p.completions) {
+      const c = p.completions;
+      console.log(
+        `      Completions   : ${c.textChunks} text chunks  finish_reason=${c.finishReason ?? "none"}` +
+          (c.chatShapedChunks > 0 ? `  ${c.chatShapedChunks} chat-shaped chunks` : ""),
+      );
+      for (const v of c.violations.slice(0, 5)) {
+        console.log(`        • ${v.slice(0, 110)}`);
+      }
+    }
     if (p.tokenPreview) console.log(`      Token preview : "${p.tokenPreview.slice(0, 80)}…"`);
     if (p.error) console.log(`      Error         : ${p.error.slice(0, 120)}`);
     console.log(`      Payload hash  : ${p.payloadHash}`);
+    if (p.recordingPath) console.log(`      Recording     : ${p.recordingPath}`);
+  }
+
+  if (report.usageComparison) {
+    console.log(thin);
+    console.log("  Usage vs non-streaming");
+    for (const c of report.usageComparison) {
+      const name =
+        (multiScenario && c.scenario ? `${c.probe} [${c.scenario}]` : c.probe) + (c.run !== undefined ? ` #${c.run}` : "");
+      console.log(
+        `      ${name.padEnd(22)}: prompt ${c.streaming.promptTokens}/${c.nonStreaming.promptTokens}` +
+          `${c.promptTokensMatch ? "" : " ✘ MISMATCH"}  completion ${c.streaming.completionTokens}/${c.nonStreaming.completionTokens}` +
+          ` (Δ ${c.completionTokensDelta >= 0 ? "+" : ""}${c.completionTokensDelta})`,
+      );
+    }
   }
 
+  if (report.transport) {
+    console.log(thin);
+    console.log("  Transport: socket vs fetch");
+    for (const c of report.transport) {
+      const name =
+        (multiScenario && c.scenario ? c.scenario : "http-transport") + (c.run !== undefined ? ` #${c.run}` : "");
+      console.log(
+        `      ${name.padEnd(22)}: ${c.diagnosis.padEnd(16)} socket ${c.socket.outcome}` +
+          (c.fetch ? `  fetch ${c.fetch.outcome}` : ""),
+      );
+      console.log(`        ${c.detail.slice(0, 110)}`);
+    }
+  }
+
+  if (report.repeat) printRepeatStats(report.repeat, multiScenario, thin);
+  if (multiScenario) printScenarioMatrix(report.scenarios, thin);
+
   console.log(sep);
 
   // Overall verdict
   const allOk = report.probes.every((p) => p.outcome === "OK");
   const streamingProbes = report.probes.filter((p) => p.probe !== "non-streaming");
-  const nonStreamOk = report.probes.find((p) => p.probe === "non-streaming")?.outcome === "OK";
+  const nonStreaming = report.probes.filter((p) => p.probe === "non-streaming");
+  const nonStreamOk = nonStreaming.length > 0 && nonStreaming.every((p) => p.outcome === "OK");
   const streamHang = streamingProbes.some(
-    (p) => p.outcome === "HANG" || p.outcome === "NO_FIRST_EVENT" || p.outcome === "TIMEOUT",
+    (p) =>
+      p.outcome === "HANG" ||
+      p.outcome === "NO_FIRST_EVENT" ||
+      p.outcome === "TIMEOUT" ||
+      p.outcome === "STALL",
   );
 
-  if (allOk) {
+  const streamNotOk = streamingProbes.filter((p) => p.outcome !== "OK");
+  const onlyNonConformant =
+    streamNotOk.length > 0 && streamNotOk.every((p) => p.outcome === "NON_CONFORMANT");
+  const buffered = streamingProbes.some((p) => p.buffering);
+
+  if (allOk && buffered) {
+    console.log("  ⚠️   STREAMS BUT BUFFERED – every chunk arrived in one burst at the end.");
+    console.log("       Copilot will show nothing until the whole reply has been generated.");
+  } else if (allOk) {
     console.log("  🎉  ALL PROBES PASSED – streaming and non-streaming both work.");
+  } else if (nonStreamOk && onlyNonConformant) {
+    const deviating = [...new Set(streamNotOk.map((p) => p.probe))].join(", ");
+    console.log("  ⚠️   STREAMS BUT NON-CONFORMANT – the stream deviates from what OpenAI clients expect.");
+    console.log(`       Flagged by: ${deviating}. Strict clients such as Copilot may reject or mis-handle it.`);
   } else if (nonStreamOk && streamHang) {
     console.log("  ⚠️   STREAMING HANG DETECTED – non-streaming works but streaming hangs.");
     console.log("       This reproduces the known Foundry Local v0.5 streaming issue.");
   } else {
     console.log("  ❌  Some probes failed. See details above and report.json.");
   }
+  // A single sample decides nothing for an intermittent hang – say how often
+  for (const s of report.repeat ?? []) {
+    const line = describeFlakiness(s, multiScenario);
+    if (line) console.log(`       ${line}`);
+  }
 
   console.log(sep);
 }
+
+/** Pass rate, outcome histogram and timing spread per probe over the measured runs */
+function printRepeatStats(stats: RepeatStats[], multiScenario: boolean, thin: string): void {
+  const spread = (t: RepeatStats["ttfbMs"]) => (t ? `${t.p50Ms}/${t.p95Ms}/${t.maxMs}` : "–");
+  console.log(thin);
+  console.log("  Repeated runs (ms as p50/p95/max)");
+  console.log(
+    `      ${"probe".padEnd(32)} ${"passed".padStart(7)}  ${"total".padEnd(17)} ${"ttfb".padEnd(15)} outcomes`,
+  );
+  for (const s of stats) {
+    const name = multiScenario && s.scenario ? `${s.probe} [${s.scenario}]` : s.probe;
+    console.log(
+      `      ${name.slice(0, 32).padEnd(32)} ${`${s.passed}/${s.runs}`.padStart(7)}  ` +
+        `${spread(s.totalMs).padEnd(17)} ${spread(s.ttfbMs).padEnd(15)} ` +
+        Object.entries(s.outcomes)
+          .map(([o, n]) => `${o}×${n}`)
+          .join(" "),
+    );
+  }
+}
+
+/** Socket timings, chunk frames and keep-alive behaviour of the http-transport probe */
+function printTransport(t: TransportInfo): void {
+  const ms = (v: number | undefined) => (v === undefined ? "–" : `${v} ms`);
+  console.log(
+    `      Socket        : connect ${ms(t.connectMs)}` +
+      (t.protocol === "https:" ? `  TLS ${ms(t.tlsMs)}` : "") +
+      `  headers ${ms(t.headersMs)}  HTTP/${t.httpVersion ?? "?"} ${t.httpStatus ?? "–"}`,
+  );
+  console.log(
+    `      Headers       : transfer-encoding=${t.headers["transfer-encoding"] ?? "–"}  ` +
+      `connection=${t.headers["connection"] ?? "–"}  content-type=${t.headers["content-type"] ?? "–"}`,
+  );
+  console.log(
+    `      Socket reads  : ${t.readCount} reads  ${t.bodyBytes} bytes  ${t.eventCount} events` +
+      (t.longestSilence ? `  longest silence ${t.longestSilence.ms} ms (after read ${t.longestSilence.afterRead})` : "") +
+      (t.buffering ? "  ⚠ one burst" : ""),
+  );
+  if (t.frameCount !== undefined) {
+    console.log(
+      `      Chunk frames  : ${t.frameCount} frames  up to ${t.maxFramesPerRead ?? 0} per read  end ${ms(t.endMs)}`,
+    );
+  }
+  console.log(
+    `      Keep-alive    : [DONE] ${ms(t.doneMs)}  ` +
+      `${t.closedAfterEnd ? `closed ${t.closedAfterEndMs ?? "?"} ms after end` : "kept open"}  ` +
+      `reused=${t.socketReused === undefined ? "–" : t.socketReused}`,
+  );
+}
+
+/** One line per scenario: how many probes passed and which did not */
+function printScenarioMatrix(scenarios: DiagnosticReport["scenarios"], thin: string): void {
+  const probeNames = [...new Set(Object.values(scenarios).flatMap((byProbe) => Object.keys(byProbe)))];
+
+  console.log(thin);
+  console.log("  Outcomes by scenario");
+  for (const [scenario, byProbe] of Object.entries(scenarios)) {
+    const failing = probeNames.filter((name) => byProbe[name] !== undefined && byProbe[name] !== "OK");
+    const ran = probeNames.filter((name) => byProbe[name] !== undefined).length;
+    console.log(
+      `      ${scenario.padEnd(24)}: ${ran - failing.length}/${ran} OK` +
+        (failing.length > 0 ? `  – ${failing.map((name) => `${name} ${byProbe[name]}`).join(", ")}` : ""),
+    );
+  }
+}
+
+/** Context-ramp table: one row per prompt size, then where it broke */
+function printContextRamp(ramp: ContextRampInfo): void {
+  const ms = (v?: number) => (v !== undefined ? `${v} ms` : "–").padStart(9);
+  console.log(`      Context ramp  : ${ramp.steps.length} sizes`);
+  console.log(
+    `        ${"tokens".padStart(8)} ${"prompt".padStart(8)} │ ${"stream:false".padEnd(14)} ${"total".padStart(9)} │ ` +
+      `${"stream:true".padEnd(14)} ${"ttfb".padStart(9)} ${"1st evt".padStart(9)}`,
+  );
+  for (const s of ramp.steps) {
+    console.log(
+      `        ${String(s.targetTokens).padStart(8)} ${String(s.promptTokens ?? "–").padStart(8)} │ ` +
+        `${s.nonStreaming.outcome.padEnd(14)} ${ms(s.nonStreaming.totalMs)} │ ` +
+        `${s.streaming.outcome.padEnd(14)} ${ms(s.streaming.ttfbMs)} ${ms(s.streaming.firstEventMs)}`,
+    );
+  }
+  console.log(`      Fails at      : ${ramp.failsAt !== undefined ? `${ramp.failsAt} tokens` : "never"}`);
+  console.log(
+    `      Latency jump  : ${ramp.latencyExplodesAt !== undefined ? `${ramp.latencyExplodesAt} tokens` : "none"}`,
+  );
+}
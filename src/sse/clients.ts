@@ -0,0 +1,235 @@
+/**
+ * Client parsing strategies – the ways different ecosystems read an OpenAI
+ * chat completions stream, run side by side over the same bytes:
+ *
+ *   strict-sse          – WHATWG event stream parsing (sse/parser.ts); only
+ *                         unnamed ("message") events reach the caller, and a
+ *                         body that ends without data: [DONE] is incomplete –
+ *                         an EventSource-style client reconnects instead
+ *   line-based          – the hand-rolled reader found in scripts and plugins:
+ *                         split on "\n", JSON-parse every "data: " line (with
+ *                         the space), stop at [DONE]
+ *   openai-sdk          – the openai package's Stream decoder, which the
+ *                         Copilot SDK uses: skips [DONE] but reads on until the
+ *                         body ends, throws on error payloads and yields named
+ *                         events as { event, data } rather than chunks
+ *   eventsource-parser  – eventsource-parser semantics (Vercel AI SDK and
+ *                         others): WHATWG parsing, every event whatever its
+ *                         event: name, [DONE] skipped, finished when the body ends
+ *
+ * Each client is handed all captured bytes at once. A body the server never
+ * ended is left open, so a client still reading after HANG_AFTER_MS is waiting
+ * for bytes that will not come – HANG. A connection that failed fails the
+ * clients' reads too – ERROR. Spec-valid SSE that a naive parser
+ * mis-reads (no space after "data:", CRLF, comments) shows up as INCOMPLETE.
+ */
+
+import { Stream } from "openai/streaming";
+import type { ClientCompatOutcome, ClientCompatResult } from "../types";
+import { parseSSE } from "./parser";
+
+/** How long a client may keep reading bytes it already has before it counts as hung */
+const HANG_AFTER_MS = 1000;
+
+/** A response body as captured – from a live request or a recording */
+export interface CapturedStream {
+  chunks: Uint8Array[];
+  /** Whether the server ended the body – if not, it is left open for the clients */
+  ended: boolean;
+  /** The connection failed after these bytes – the clients' reads fail the same way */
+  error?: string;
+  headers?: Record<string, string>;
+}
+
+/** What a client handed to its caller */
+class ChatAccumulator {
+  chunks = 0;
+  text = "";
+  finishReason?: string;
+  doneReceived?: boolean;
+
+  /** One parsed payload – throws, as the client's caller would, on an error payload */
+  add(payload: unknown): void {
+    const p = payload as {
+      error?: { message?: string };
+      choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+    } | null;
+    if (p?.error) throw new Error(`error payload: ${p.error.message ?? JSON.stringify(p.error)}`);
+    if (!Array.isArray(p?.choices)) return;
+
+    this.chunks++;
+    const choice = p.choices[0];
+    if (choice?.delta?.content) this.text += choice.delta.content;
+    if (choice?.finish_reason) this.finishReason = choice.finish_reason;
+  }
+}
+
+interface ClientStrategy {
+  name: string;
+  description: string;
+  consume(body: ReadableStream<Uint8Array>, out: ChatAccumulator, headers: Record<string, string>): Promise<void>;
+}
+
+const CLIENTS: readonly ClientStrategy[] = [
+  {
+    name: "strict-sse",
+    description: "WHATWG event stream parsing, message events only, requires data: [DONE]",
+    consume: async (body, out) => {
+      out.doneReceived = false;
+      for await (const evt of parseSSE(body)) {
+        if (evt.event !== "message") continue;
+        if (evt.data === "[DONE]") {
+          out.doneReceived = true;
+          await body.cancel().catch(() => undefined);
+          return;
+        }
+        out.add(JSON.parse(evt.data));
+      }
+      throw new Error("body ended without data: [DONE] – an EventSource-style client reconnects");
+    },
+  },
+  {
+    name: "line-based",
+    description: "Splits on newlines, parses each 'data: ' line (space required), stops at [DONE]",
+    consume: async (body, out) => {
+      out.doneReceived = false;
+      const reader = body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) return;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          for (const raw of lines) {
+            const line = raw.endsWith("\r") ? raw.slice(0, -1) : raw;
+            if (!line.startsWith("data: ")) continue;
+            const data = line.slice("data: ".length);
+            if (data === "[DONE]") {
+              out.doneReceived = true;
+              await reader.cancel().catch(() => undefined);
+              return;
+            }
+            out.add(JSON.parse(data));
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  },
+  {
+    name: "openai-sdk",
+    description: "openai Stream decoder: reads to the end of the body, named events are not chunks",
+    consume: async (body, out, headers) => {
+      const response = new Response(body, { headers });
+      const stream = Stream.fromSSEResponse<unknown>(
+        response as unknown as Parameters<typeof Stream.fromSSEResponse>[0],
+        new AbortController(),
+      );
+      for await (const payload of stream) out.add(payload);
+    },
+  },
+  {
+    name: "eventsource-parser",
+    description: "WHATWG event stream parsing, every event type, [DONE] skipped, ends with the body",
+    consume: async (body, out) => {
+      out.doneReceived = false;
+      for await (const evt of parseSSE(body)) {
+        if (evt.data === "[DONE]") {
+          out.doneReceived = true;
+          continue;
+        }
+        out.add(JSON.parse(evt.data));
+      }
+    },
+  },
+];
+
+interface ClientRun {
+  client: ClientStrategy;
+  out: ChatAccumulator;
+  hung: boolean;
+  error?: string;
+}
+
+/**
+ * Run every client strategy over the captured stream and grade each one:
+ * ERROR if it threw, HANG if it was still waiting for bytes, INCOMPLETE if it
+ * saw no finish_reason or less text than the best client, else OK.
+ */
+export async function runClientMatrix(captured: CapturedStream): Promise<ClientCompatResult[]> {
+  const runs: ClientRun[] = [];
+  for (const client of CLIENTS) runs.push(await runClient(client, captured));
+
+  const bestText = Math.max(0, ...runs.map((r) => r.out.text.length));
+  return runs.map(({ client, out, hung, error }) => {
+    let outcome: ClientCompatOutcome = "OK";
+    let detail: string | undefined;
+    if (hung) {
+      outcome = "HANG";
+      detail = `still waiting for the body to end ${HANG_AFTER_MS} ms after the last byte`;
+    } else if (error) {
+      outcome = "ERROR";
+      detail = error;
+    } else if (out.chunks === 0) {
+      outcome = "INCOMPLETE";
+      detail = "no chunks reached the caller";
+    } else if (out.text.length < bestText) {
+      outcome = "INCOMPLETE";
+      detail = `lost ${bestText - out.text.length} of ${bestText} characters of content`;
+    } else if (!out.finishReason) {
+      outcome = "INCOMPLETE";
+      detail = "no finish_reason";
+    }
+
+    return {
+      client: client.name,
+      description: client.description,
+      outcome,
+      chunks: out.chunks,
+      textLength: out.text.length,
+      finishReason: out.finishReason,
+      doneReceived: out.doneReceived,
+      detail,
+    };
+  });
+}
+
+async function runClient(client: ClientStrategy, captured: CapturedStream): Promise<ClientRun> {
+  const open = !captured.ended && captured.error === undefined;
+  let streamController!: ReadableStreamDefaultController<Uint8Array>;
+  let next = 0;
+  // Pulled one chunk at a time, so a failed connection fails the read after the last chunk
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      streamController = controller;
+    },
+    pull(controller) {
+      if (next < captured.chunks.length) controller.enqueue(captured.chunks[next++]);
+      else if (captured.error !== undefined) controller.error(new Error(captured.error));
+      else if (captured.ended) controller.close();
+    },
+  });
+
+  const out = new ChatAccumulator();
+  let hung = false;
+  // Erroring the open body unblocks whatever read the client is parked on
+  const hangTimer = open
+    ? setTimeout(() => {
+        hung = true;
+        streamController.error(new Error("HANG"));
+      }, HANG_AFTER_MS)
+    : undefined;
+
+  try {
+    await client.consume(body, out, captured.headers ?? {});
+    return { client, out, hung: false };
+  } catch (err: unknown) {
+    return { client, out, hung, error: hung ? undefined : err instanceof Error ? err.message : String(err) };
+  } finally {
+    clearTimeout(hangTimer);
+  }
+}
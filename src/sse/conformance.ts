@@ -0,0 +1,163 @@
+/**
+ * OpenAI `chat.completion.chunk` conformance checker.
+ *
+ * Feed it every SSE data payload (or every already-parsed SDK chunk) in
+ * arrival order, then call finish(). It collects every deviation from the
+ * shape the OpenAI SDK – and therefore Copilot – expects:
+ *
+ *   • every chunk is JSON with object "chat.completion.chunk"
+ *   • `id` is present and stable across the stream
+ *   • `created` is a number and `model` a string
+ *   • `choices` is an array whose entries carry an integer `index`
+ *   • the first delta of each choice carries `role`
+ *   • each choice ends with exactly one non-null `finish_reason`
+ *   • data:[DONE] is received and is the last event
+ */
+
+import type { ConformanceViolation, ConformanceRule } from "../types";
+
+/** Cap so a badly broken stream doesn't produce thousands of identical entries */
+const MAX_VIOLATIONS = 50;
+
+interface ChoiceState {
+  sawDelta: boolean;
+  finishReasons: number;
+}
+
+export class ChunkConformanceChecker {
+  private readonly violations: ConformanceViolation[] = [];
+  private readonly choices = new Map<number, ChoiceState>();
+  private chunkIndex = 0;
+  private streamId: string | undefined;
+  private doneReceived = false;
+  private finished = false;
+
+  /** Check one raw SSE data payload ("[DONE]" or a JSON chunk) */
+  checkData(data: string): void {
+    if (data === "[DONE]") {
+      this.checkDone();
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      this.violate("INVALID_JSON", `Chunk is not valid JSON: ${data.slice(0, 80)}`);
+      this.chunkIndex++;
+      return;
+    }
+    this.checkChunk(parsed);
+  }
+
+  /** Check one parsed chunk object (e.g. as yielded by the OpenAI SDK) */
+  checkChunk(chunk: unknown): void {
+    const idx = this.chunkIndex++;
+
+    if (this.doneReceived) {
+      this.violate("DONE_NOT_LAST", "Chunk received after data:[DONE]", idx);
+    }
+
+    if (typeof chunk !== "object" || chunk === null || Array.isArray(chunk)) {
+      this.violate("NOT_AN_OBJECT", `Chunk is ${Array.isArray(chunk) ? "an array" : typeof chunk}`, idx);
+      return;
+    }
+    const c = chunk as Record<string, unknown>;
+
+    // ── id ───────────────────────────────────────────────────
+    if (typeof c.id !== "string" || c.id === "") {
+      this.violate("MISSING_ID", "Chunk has no string `id`", idx);
+    } else if (this.streamId === undefined) {
+      this.streamId = c.id;
+    } else if (c.id !== this.streamId) {
+      this.violate("ID_CHANGED", `id changed from "${this.streamId}" to "${c.id}"`, idx);
+    }
+
+    // ── object / created / model ─────────────────────────────
+    if (c.object !== "chat.completion.chunk") {
+      this.violate("WRONG_OBJECT", `object is ${JSON.stringify(c.object)}, expected "chat.completion.chunk"`, idx);
+    }
+    if (typeof c.created !== "number") {
+      this.violate("MISSING_CREATED", "Chunk has no numeric `created`", idx);
+    }
+    if (typeof c.model !== "string") {
+      this.violate("MISSING_MODEL", "Chunk has no string `model`", idx);
+    }
+
+    // ── choices ──────────────────────────────────────────────
+    if (!Array.isArray(c.choices)) {
+      this.violate("MISSING_CHOICES", "Chunk has no `choices` array", idx);
+      return;
+    }
+
+    for (const raw of c.choices as unknown[]) {
+      if (typeof raw !== "object" || raw === null) {
+        this.violate("INVALID_CHOICE", "choices[] entry is not an object", idx);
+        continue;
+      }
+      const choice = raw as Record<string, unknown>;
+
+      if (typeof choice.index !== "number" || !Number.isInteger(choice.index)) {
+        this.violate("CHOICE_INDEX", "choices[] entry has no integer `index`", idx);
+        continue;
+      }
+
+      let state = this.choices.get(choice.index);
+      if (!state) {
+        state = { sawDelta: false, finishReasons: 0 };
+        this.choices.set(choice.index, state);
+      }
+
+      const delta = choice.delta as Record<string, unknown> | undefined;
+      if (typeof delta !== "object" || delta === null) {
+        this.violate("MISSING_DELTA", `choices[${choice.index}] has no \`delta\` object`, idx);
+      } else if (!state.sawDelta) {
+        state.sawDelta = true;
+        if (typeof delta.role !== "string") {
+          this.violate("FIRST_DELTA_ROLE", `First delta for choice ${choice.index} does not carry \`role\``, idx);
+        }
+      }
+
+      if (choice.finish_reason !== null && choice.finish_reason !== undefined) {
+        state.finishReasons++;
+        if (state.finishReasons === 2) {
+          this.violate("MULTIPLE_FINISH_REASONS", `choice ${choice.index} sent more than one finish_reason`, idx);
+        }
+      }
+    }
+  }
+
+  /** Record that data:[DONE] arrived */
+  checkDone(): void {
+    if (this.doneReceived) {
+      this.violate("DONE_NOT_LAST", "data:[DONE] received more than once");
+    }
+    this.doneReceived = true;
+  }
+
+  /**
+   * Run end-of-stream checks and return every violation found.
+   *
+   * @param expectDone  Set to false when the stream was cut short on purpose
+   */
+  finish(expectDone = true): ConformanceViolation[] {
+    if (!this.finished) {
+      this.finished = true;
+
+      for (const [index, state] of this.choices) {
+        if (state.finishReasons === 0) {
+          this.violate("MISSING_FINISH_REASON", `choice ${index} never sent a finish_reason`);
+        }
+      }
+      if (expectDone && !this.doneReceived) {
+        this.violate("MISSING_DONE", "Stream ended without data:[DONE]");
+      }
+    }
+    return [...this.violations];
+  }
+
+  private violate(rule: ConformanceRule, message: string, chunkIndex?: number): void {
+    if (this.violations.length >= MAX_VIOLATIONS) return;
+    this.violations.push({ rule, message, chunkIndex });
+  }
+}
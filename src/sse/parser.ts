@@ -1,70 +1,214 @@
 /**
- * Minimal SSE (Server-Sent Events) parser for ReadableStream<Uint8Array>.
- * No external SSE libraries used – hand-rolled per spec requirements.
+ * Hand-rolled SSE (Server-Sent Events) parser for ReadableStream<Uint8Array>.
+ * No external SSE libraries used – follows the WHATWG HTML "event stream
+ * interpretation" algorithm:
+ *
+ *   • Lines may end in CRLF, LF or CR (a CR split across reads is handled)
+ *   • A single leading UTF-8 BOM is stripped
+ *   • event:, data:, id: and retry: fields are honoured; one optional space
+ *     after the colon is removed; lines starting with ":" are comments
+ *   • Multiple data: lines in one event are joined with "\n"
+ *   • An event is dispatched only on a blank line – an unterminated event at
+ *     EOF is discarded
+ *
+ * Anything a strict client might trip over is recorded as an SSEAnomaly so a
+ * probe can explain *why* a stream that parses here may still break Copilot.
  */
 
+import type { SSEAnomaly, SSEAnomalyKind } from "../types";
+
 export interface SSEEvent {
-  /** Raw data payload (text after "data: ") */
+  /** Event type ("message" unless an event: field was sent) */
+  event: string;
+  /** Data payload – all data: lines of the event joined with "\n" */
   data: string;
+  /** Last event ID in effect when this event was dispatched */
+  id?: string;
+  /** Reconnection time (ms) if a valid retry: field was part of this event */
+  retry?: number;
   /** Epoch ms when this event was yielded */
   timestamp: number;
 }
 
+type LineEnding = "CRLF" | "LF" | "CR";
+
 /**
  * Async generator that reads a ReadableStream and yields SSE events.
  * Respects an optional AbortSignal; throws on abort.
+ *
+ * @param anomalies  Optional sink – protocol anomalies are pushed here as they are found
  */
 export async function* parseSSE(
   stream: ReadableStream<Uint8Array>,
   signal?: AbortSignal,
+  anomalies?: SSEAnomaly[],
 ): AsyncGenerator<SSEEvent> {
   const reader = stream.getReader();
-  const decoder = new TextDecoder("utf-8");
+  const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+
   let buffer = "";
+  let atStart = true;
+  const endingsSeen = new Set<LineEnding>();
+  const reportedFields = new Set<string>();
+  let dispatched = 0;
+
+  // Per-event state
+  let eventType = "";
+  let dataLines: string[] = [];
+  let retry: number | undefined;
+  let lastEventId = "";
+  let pendingFields = 0;
+
+  const report = (kind: SSEAnomalyKind, detail: string): void => {
+    anomalies?.push({ kind, detail, eventIndex: dispatched });
+  };
+
+  const noteEnding = (ending: LineEnding): void => {
+    if (endingsSeen.has(ending)) return;
+    endingsSeen.add(ending);
+    if (endingsSeen.size === 2) {
+      report("MIXED_LINE_ENDINGS", `Stream mixes ${[...endingsSeen].join(" and ")} line endings`);
+    }
+  };
+
+  /** Process one complete line; returns an event when the line dispatches one */
+  const processLine = (line: string): SSEEvent | undefined => {
+    if (line === "") return dispatch();
+    if (line.startsWith(":")) return undefined;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    pendingFields++;
+
+    switch (field) {
+      case "event":
+        eventType = value;
+        break;
+      case "data":
+        dataLines.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        else report("INVALID_RETRY", `Ignored non-numeric retry value "${value.slice(0, 40)}"`);
+        break;
+      default:
+        if (!reportedFields.has(field)) {
+          reportedFields.add(field);
+          report("UNKNOWN_FIELD", `Ignored unknown field "${field.slice(0, 40)}"`);
+        }
+    }
+    return undefined;
+  };
+
+  const resetEvent = (): void => {
+    eventType = "";
+    dataLines = [];
+    retry = undefined;
+    pendingFields = 0;
+  };
+
+  const dispatch = (): SSEEvent | undefined => {
+    if (dataLines.length === 0) {
+      resetEvent();
+      return undefined;
+    }
+
+    if (dataLines.length > 1 && dataLines.every(looksLikeCompletePayload)) {
+      report(
+        "MISSING_BLANK_LINE",
+        `${dataLines.length} self-contained data: lines arrived without a blank-line terminator between them`,
+      );
+    }
+
+    const evt: SSEEvent = {
+      event: eventType || "message",
+      data: dataLines.join("\n"),
+      id: lastEventId || undefined,
+      retry,
+      timestamp: Date.now(),
+    };
+    dispatched++;
+    resetEvent();
+    return evt;
+  };
 
   try {
     while (true) {
       if (signal?.aborted) {
-        throw new DOMException("SSE parsing aborted", "AbortError");
+        throw new DOMException(`SSE parsing aborted: ${String(signal.reason)}`, "AbortError");
       }
 
       const { done, value } = await reader.read();
-      if (done) break;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
 
-      buffer += decoder.decode(value, { stream: true });
-
-      // SSE events are delimited by blank lines (\n\n).
-      // Split on that boundary; the last element is the incomplete tail.
-      const segments = buffer.split(/\n\n/);
-      buffer = segments.pop() ?? "";
-
-      for (const segment of segments) {
-        const trimmed = segment.trim();
-        if (!trimmed) continue;
-
-        const lines = trimmed.split(/\n/);
-        for (const line of lines) {
-          if (line.startsWith("data:")) {
-            // "data: payload" or "data:payload" are both valid
-            const payload = line.slice(5).trimStart();
-            yield { data: payload, timestamp: Date.now() };
-          }
-          // Ignore comment lines (":"), event:, id:, retry: per SSE spec
+      if (atStart && buffer.length > 0) {
+        atStart = false;
+        if (buffer.charCodeAt(0) === 0xfeff) {
+          buffer = buffer.slice(1);
+          report("BOM", "Stream starts with a UTF-8 byte order mark");
         }
       }
-    }
 
-    // Flush any remaining buffer content
-    if (buffer.trim()) {
-      const lines = buffer.trim().split(/\n/);
-      for (const line of lines) {
-        if (line.startsWith("data:")) {
-          const payload = line.slice(5).trimStart();
-          yield { data: payload, timestamp: Date.now() };
+      // Split complete lines off the front of the buffer
+      let pos = 0;
+      while (pos < buffer.length) {
+        const cr = buffer.indexOf("\r", pos);
+        const lf = buffer.indexOf("\n", pos);
+        if (cr === -1 && lf === -1) break;
+
+        let end: number;
+        let next: number;
+        if (lf !== -1 && (cr === -1 || lf < cr)) {
+          end = lf;
+          next = lf + 1;
+          noteEnding("LF");
+        } else if (cr === buffer.length - 1 && !done) {
+          // Lone CR at the end of this read – it may be the first half of CRLF
+          break;
+        } else if (buffer[cr + 1] === "\n") {
+          end = cr;
+          next = cr + 2;
+          noteEnding("CRLF");
+        } else {
+          end = cr;
+          next = cr + 1;
+          noteEnding("CR");
         }
+
+        const evt = processLine(buffer.slice(pos, end));
+        pos = next;
+        if (evt) yield evt;
       }
+      buffer = buffer.slice(pos);
+
+      if (done) break;
+    }
+
+    // Anything left over never saw its terminating blank line
+    if (buffer.length > 0 || pendingFields > 0) {
+      const partial = [...dataLines, buffer].filter(Boolean).join("\n");
+      report(
+        "TRAILING_PARTIAL_EVENT",
+        `Stream ended mid-event; discarded ${partial.length} chars: "${partial.slice(0, 60)}"`,
+      );
     }
   } finally {
     reader.releaseLock();
   }
 }
+
+/** True for "[DONE]" or a line that parses as JSON on its own */
+function looksLikeCompletePayload(line: string): boolean {
+  if (line === "[DONE]") return true;
+  try {
+    JSON.parse(line);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Responses API (`POST /responses`, stream: true) event checker.
+ *
+ * The Responses wire API streams typed events instead of
+ * chat.completion.chunk objects. Feed it every SSE event (or every
+ * already-parsed SDK event) in arrival order, then call finish(). It
+ * reassembles `response.output_text.delta` text and checks the event
+ * sequence a client relies on:
+ *
+ *   • every payload is JSON with a string `type` (matching the SSE event: name, if sent)
+ *   • the first event is `response.created`
+ *   • `sequence_number`, when present, increases by one per event
+ *   • each `response.output_text.done` text equals its reassembled deltas
+ *   • exactly one terminal event – `response.completed`, `response.failed`,
+ *     `response.incomplete` or `error` – and nothing after it
+ *
+ * Unlike chat completions there is no data:[DONE]; a trailing one is ignored.
+ */
+
+import type { ProbeOutcome, ResponsesStreamInfo, TokenUsage } from "../types";
+
+/** Events that end a Responses stream */
+const TERMINAL_EVENTS = new Set(["response.completed", "response.failed", "response.incomplete", "error"]);
+
+/** Cap so a badly broken stream doesn't produce thousands of identical entries */
+const MAX_VIOLATIONS = 50;
+
+/** The parts of a Responses stream event this checker reads */
+interface ResponsesEvent {
+  type?: unknown;
+  sequence_number?: unknown;
+  item_id?: unknown;
+  content_index?: unknown;
+  delta?: unknown;
+  text?: unknown;
+  message?: unknown;
+  response?: {
+    id?: unknown;
+    status?: unknown;
+    error?: { message?: unknown } | null;
+    incomplete_details?: { reason?: unknown } | null;
+    usage?: unknown;
+  };
+}
+
+export class ResponsesEventChecker {
+  private readonly eventCounts: Record<string, number> = {};
+  private readonly violations: string[] = [];
+  /** Reassembled text per `${item_id}:${content_index}` */
+  private readonly parts = new Map<string, string>();
+  private eventIndex = 0;
+  private lastSequence: number | undefined;
+  private responseId: string | undefined;
+  private terminalEvent: string | undefined;
+  private status: string | undefined;
+  private errorMessage: string | undefined;
+  private usage: TokenUsage | undefined;
+  private textMatchesDone: boolean | undefined;
+
+  /**
+   * Check one raw SSE event.
+   *
+   * @param eventName  The SSE event: field ("message" when none was sent)
+   * @returns The text delta it carried, if any
+   */
+  checkData(eventName: string, data: string): string | undefined {
+    if (data === "[DONE]") return undefined;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      this.violate(`Event ${this.eventIndex} is not valid JSON: ${data.slice(0, 80)}`);
+      this.eventIndex++;
+      return undefined;
+    }
+
+    const type = (parsed as ResponsesEvent | null)?.type;
+    if (eventName !== "message" && typeof type === "string" && eventName !== type) {
+      this.violate(`SSE event name "${eventName}" does not match payload type "${type}"`);
+    }
+    return this.checkEvent(parsed);
+  }
+
+  /**
+   * Check one parsed event object (e.g. as yielded by the OpenAI SDK).
+   *
+   * @returns The text delta it carried, if any
+   */
+  checkEvent(event: unknown): string | undefined {
+    const idx = this.eventIndex++;
+
+    if (typeof event !== "object" || event === null) {
+      this.violate(`Event ${idx} is not an object`);
+      return undefined;
+    }
+    const e = event as ResponsesEvent;
+    if (typeof e.type !== "string") {
+      this.violate(`Event ${idx} has no string \`type\``);
+      return undefined;
+    }
+    const type = e.type;
+    this.eventCounts[type] = (this.eventCounts[type] ?? 0) + 1;
+
+    if (idx === 0 && type !== "response.created") {
+      this.violate(`First event is "${type}", expected "response.created"`);
+    }
+    if (this.terminalEvent) {
+      this.violate(`"${type}" arrived after the terminal "${this.terminalEvent}" event`);
+    }
+
+    if (typeof e.sequence_number === "number") {
+      if (this.lastSequence !== undefined && e.sequence_number !== this.lastSequence + 1) {
+        this.violate(`sequence_number jumped from ${this.lastSequence} to ${e.sequence_number} at "${type}"`);
+      }
+      this.lastSequence = e.sequence_number;
+    }
+
+    if (e.response) {
+      if (typeof e.response.id === "string") this.responseId ??= e.response.id;
+      if (typeof e.response.status === "string") this.status = e.response.status;
+    }
+
+    const key = `${String(e.item_id)}:${String(e.content_index ?? 0)}`;
+    let delta: string | undefined;
+
+    switch (type) {
+      case "response.output_text.delta":
+        if (typeof e.delta !== "string") {
+          this.violate(`response.output_text.delta ${idx} has no string \`delta\``);
+          break;
+        }
+        delta = e.delta;
+        this.parts.set(key, (this.parts.get(key) ?? "") + delta);
+        break;
+
+      case "response.output_text.done": {
+        const matches = typeof e.text === "string" && e.text === (this.parts.get(key) ?? "");
+        this.textMatchesDone = (this.textMatchesDone ?? true) && matches;
+        if (!matches) {
+          this.violate(`response.output_text.done text for ${key} differs from the reassembled deltas`);
+        }
+        break;
+      }
+
+      case "response.completed":
+        this.usage = toResponsesUsage(e.response?.usage);
+        break;
+
+      case "response.failed":
+        this.errorMessage = stringOr(e.response?.error?.message, "response.failed");
+        break;
+
+      case "response.incomplete":
+        this.errorMessage = `Response incomplete: ${stringOr(e.response?.incomplete_details?.reason, "no reason given")}`;
+        break;
+
+      case "error":
+        this.errorMessage = stringOr(e.message, "error event");
+        break;
+    }
+
+    if (TERMINAL_EVENTS.has(type)) this.terminalEvent ??= type;
+    return delta;
+  }
+
+  /** Run end-of-stream checks and return the summary */
+  finish(): ResponsesStreamInfo {
+    if (!this.terminalEvent) {
+      this.violate("Stream ended without a terminal event (response.completed / failed / incomplete / error)");
+    }
+    return {
+      eventCounts: { ...this.eventCounts },
+      responseId: this.responseId,
+      terminalEvent: this.terminalEvent,
+      status: this.status,
+      text: [...this.parts.values()].join(""),
+      textMatchesDone: this.textMatchesDone,
+      usage: this.usage,
+      error: this.errorMessage,
+      violations: [...this.violations],
+    };
+  }
+
+  private violate(message: string): void {
+    if (this.violations.length < MAX_VIOLATIONS) this.violations.push(message);
+  }
+}
+
+/** Outcome of a Responses stream that ended without an exception */
+export function responsesOutcome(info: ResponsesStreamInfo): { outcome: ProbeOutcome; error?: string } {
+  if (!info.terminalEvent) {
+    return { outcome: "FAIL", error: "Stream ended without response.completed" };
+  }
+  if (info.terminalEvent !== "response.completed") {
+    return { outcome: "FAIL", error: info.error ?? info.terminalEvent };
+  }
+  if (info.violations.length > 0) return { outcome: "NON_CONFORMANT" };
+  return { outcome: "OK" };
+}
+
+/** Convert a Responses API `usage` object (input/output tokens) */
+export function toResponsesUsage(raw: unknown): TokenUsage | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const u = raw as { input_tokens?: unknown; output_tokens?: unknown; total_tokens?: unknown };
+  if (typeof u.input_tokens !== "number" || typeof u.output_tokens !== "number") return undefined;
+  return {
+    promptTokens: u.input_tokens,
+    completionTokens: u.output_tokens,
+    totalTokens: typeof u.total_tokens === "number" ? u.total_tokens : u.input_tokens + u.output_tokens,
+  };
+}
+
+function stringOr(value: unknown, fallback: string): string {
+  return typeof value === "string" && value !== "" ? value : fallback;
+}
@@ -0,0 +1,149 @@
+/**
+ * Legacy text completions (`POST /completions`, stream: true) chunk checker.
+ *
+ * Editors and older tools still use this endpoint for inline suggestions.
+ * Its stream is a series of `text_completion` objects whose choices carry
+ * `text` rather than a chat `delta`. Feed it every SSE data payload in
+ * arrival order, then call finish(). It reassembles choice 0's text and
+ * checks the shape such a client expects:
+ *
+ *   • every chunk is JSON with object "text_completion"
+ *   • `choices` is an array whose entries carry an integer `index` and a string `text`
+ *   • each choice ends with exactly one non-null `finish_reason`
+ *   • data:[DONE] is received and is the last event
+ *
+ * A server that routes /completions to its chat handler answers with
+ * chat.completion.chunk objects instead; those are counted separately so the
+ * outcome can say so.
+ */
+
+import type { ProbeOutcome, TextCompletionStreamInfo } from "../types";
+
+/** Cap so a badly broken stream doesn't produce thousands of identical entries */
+const MAX_VIOLATIONS = 50;
+
+export class TextCompletionChecker {
+  private readonly violations: string[] = [];
+  private readonly finishReasons = new Map<number, number>();
+  private readonly textParts: string[] = [];
+  private events = 0;
+  private chunkIndex = 0;
+  private textChunks = 0;
+  private chatShapedChunks = 0;
+  private finishReason: string | undefined;
+  private doneReceived = false;
+
+  /**
+   * Check one raw SSE data payload ("[DONE]" or a JSON chunk).
+   *
+   * @returns The text delta of choice 0, if any
+   */
+  checkData(data: string): string | undefined {
+    this.events++;
+    if (data === "[DONE]") {
+      if (this.doneReceived) this.violate("data:[DONE] received more than once");
+      this.doneReceived = true;
+      return undefined;
+    }
+
+    const idx = this.chunkIndex++;
+    if (this.doneReceived) this.violate(`Chunk ${idx} received after data:[DONE]`);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      this.violate(`Chunk ${idx} is not valid JSON: ${data.slice(0, 80)}`);
+      return undefined;
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      this.violate(`Chunk ${idx} is not an object`);
+      return undefined;
+    }
+    const c = parsed as Record<string, unknown>;
+
+    if (c.object === "chat.completion.chunk") this.chatShapedChunks++;
+    if (c.object !== "text_completion") {
+      this.violate(`Chunk ${idx} object is ${JSON.stringify(c.object)}, expected "text_completion"`);
+    }
+    if (!Array.isArray(c.choices)) {
+      this.violate(`Chunk ${idx} has no \`choices\` array`);
+      return undefined;
+    }
+
+    let delta: string | undefined;
+    for (const raw of c.choices as unknown[]) {
+      const choice = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+      if (typeof choice.index !== "number" || !Number.isInteger(choice.index)) {
+        this.violate(`Chunk ${idx}: choices[] entry has no integer \`index\``);
+        continue;
+      }
+
+      if (typeof choice.text !== "string") {
+        this.violate(
+          "delta" in choice
+            ? `Chunk ${idx}: choices[${choice.index}] carries a chat \`delta\` instead of \`text\``
+            : `Chunk ${idx}: choices[${choice.index}] has no string \`text\``,
+        );
+      } else if (choice.index === 0 && choice.text !== "") {
+        delta = choice.text;
+        this.textParts.push(choice.text);
+        this.textChunks++;
+      }
+
+      if (choice.finish_reason !== null && choice.finish_reason !== undefined) {
+        const seen = (this.finishReasons.get(choice.index) ?? 0) + 1;
+        this.finishReasons.set(choice.index, seen);
+        if (seen > 1) this.violate(`Chunk ${idx}: choice ${choice.index} has a second finish_reason`);
+        if (choice.index === 0 && typeof choice.finish_reason === "string") {
+          this.finishReason ??= choice.finish_reason;
+        }
+      }
+    }
+    return delta;
+  }
+
+  /** Run end-of-stream checks and return the summary */
+  finish(): TextCompletionStreamInfo {
+    if (this.doneReceived && this.chunkIndex > 0 && this.finishReasons.size === 0) {
+      this.violate("No choice ever carried a finish_reason");
+    }
+    return {
+      events: this.events,
+      textChunks: this.textChunks,
+      text: this.textParts.join(""),
+      finishReason: this.finishReason,
+      doneReceived: this.doneReceived,
+      chatShapedChunks: this.chatShapedChunks,
+      violations: [...this.violations],
+    };
+  }
+
+  private violate(message: string): void {
+    if (this.violations.length < MAX_VIOLATIONS) this.violations.push(message);
+  }
+}
+
+/**
+ * Outcome of a text completions stream that ended without an exception.
+ *
+ * A stream with no data:[DONE], or with no `text` at all (typically chat
+ * chunks from a server that maps /completions onto chat), is FAIL – an
+ * inline-suggestion client gets nothing usable from it. Shape deviations
+ * in an otherwise usable stream are NON_CONFORMANT.
+ */
+export function textCompletionOutcome(info: TextCompletionStreamInfo): { outcome: ProbeOutcome; error?: string } {
+  if (info.events === 0) return { outcome: "NO_FIRST_EVENT", error: "Stream closed without any SSE event" };
+  if (!info.doneReceived) return { outcome: "FAIL", error: "Stream ended without data: [DONE]" };
+  if (info.textChunks === 0) {
+    return {
+      outcome: "FAIL",
+      error:
+        info.chatShapedChunks > 0
+          ? "Server answered /completions with chat.completion.chunk deltas instead of choices[].text"
+          : "No choices[].text deltas received",
+    };
+  }
+  if (info.violations.length > 0) return { outcome: "NON_CONFORMANT" };
+  return { outcome: "OK" };
+}
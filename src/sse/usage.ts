@@ -0,0 +1,87 @@
+/**
+ * `stream_options: { include_usage: true }` tracker.
+ *
+ * Feed it every parsed chunk in arrival order, then call finish(). With
+ * include_usage, OpenAI sends `usage: null` on every content chunk and one
+ * extra chunk right before data:[DONE] that carries the token counts and an
+ * empty `choices` array. Clients such as the OpenAI SDK read usage from that
+ * final chunk only.
+ *
+ * The tracker always picks up usage, so servers that send it unasked are
+ * still measured; the contract is only enforced when it was requested.
+ */
+
+import type { TokenUsage, UsageCheck } from "../types";
+
+export class StreamUsageTracker {
+  private chunkIndex = 0;
+  private usage: TokenUsage | undefined;
+  private usageChunks = 0;
+  private usageChunkIndex: number | undefined;
+  private usageChoices = 0;
+
+  /** Record one parsed chunk (raw JSON or an SDK chunk object) */
+  checkChunk(chunk: unknown): void {
+    const idx = this.chunkIndex++;
+    if (typeof chunk !== "object" || chunk === null) return;
+
+    const c = chunk as { usage?: unknown; choices?: unknown };
+    const usage = toTokenUsage(c.usage);
+    if (!usage) return;
+
+    this.usage = usage;
+    this.usageChunks++;
+    this.usageChunkIndex = idx;
+    this.usageChoices = Array.isArray(c.choices) ? c.choices.length : 0;
+  }
+
+  /** Token counts from the last chunk that carried usage */
+  result(): TokenUsage | undefined {
+    return this.usage;
+  }
+
+  /**
+   * Check the include_usage contract once the stream has ended.
+   *
+   * @param doneReceived  Whether data:[DONE] arrived after the last chunk
+   */
+  finish(doneReceived: boolean): UsageCheck {
+    const problems: string[] = [];
+
+    if (this.usageChunkIndex === undefined) {
+      problems.push("No chunk carried `usage` although stream_options.include_usage was requested");
+      return { problems };
+    }
+
+    const choicesEmpty = this.usageChoices === 0;
+    const trailing = this.chunkIndex - 1 - this.usageChunkIndex;
+    const lastBeforeDone = trailing === 0 && doneReceived;
+
+    if (this.usageChunks > 1) {
+      problems.push(`${this.usageChunks} chunks carried \`usage\`, expected exactly one`);
+    }
+    if (!choicesEmpty) {
+      problems.push(`Usage chunk has ${this.usageChoices} choices, expected an empty \`choices\` array`);
+    }
+    if (trailing > 0) {
+      problems.push(`${trailing} chunk(s) followed the usage chunk – it must be the last before [DONE]`);
+    }
+    if (!doneReceived) {
+      problems.push("Stream ended without data:[DONE] after the usage chunk");
+    }
+
+    return { usageChunkIndex: this.usageChunkIndex, choicesEmpty, lastBeforeDone, problems };
+  }
+}
+
+/** Convert an OpenAI `usage` object; undefined for null or incomplete ones */
+export function toTokenUsage(raw: unknown): TokenUsage | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const u = raw as { prompt_tokens?: unknown; completion_tokens?: unknown; total_tokens?: unknown };
+  if (typeof u.prompt_tokens !== "number" || typeof u.completion_tokens !== "number") return undefined;
+  return {
+    promptTokens: u.prompt_tokens,
+    completionTokens: u.completion_tokens,
+    totalTokens: typeof u.total_tokens === "number" ? u.total_tokens : u.prompt_tokens + u.completion_tokens,
+  };
+}
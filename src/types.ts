@@ -3,7 +3,94 @@
  */
 
 /** Outcome of a single probe run */
-export type ProbeOutcome = "OK" | "FAIL" | "TIMEOUT" | "NO_FIRST_BYTE" | "NO_FIRST_EVENT" | "HANG" | "ERROR";
+/** Wire protocol Copilot BYOK speaks to the provider */
+export type WireApi = "completions" | "responses";
+
+export type ProbeOutcome =
+  | "OK"
+  | "NON_CONFORMANT"
+  | "FAIL"
+  | "TIMEOUT"
+  | "NO_FIRST_BYTE"
+  | "NO_FIRST_EVENT"
+  | "STALL"
+  | "HANG"
+  | "ERROR";
+
+/** Kind of SSE protocol anomaly noticed by the parser */
+export type SSEAnomalyKind =
+  | "BOM"
+  | "MIXED_LINE_ENDINGS"
+  | "MISSING_BLANK_LINE"
+  | "TRAILING_PARTIAL_EVENT"
+  | "UNKNOWN_FIELD"
+  | "INVALID_RETRY";
+
+/** A deviation from the SSE spec that a lenient parser tolerates but a strict client may not */
+export interface SSEAnomaly {
+  kind: SSEAnomalyKind;
+  /** Human-readable detail */
+  detail: string;
+  /** Number of events dispatched before the anomaly was seen */
+  eventIndex: number;
+}
+
+/** Rule broken by a streamed chunk (see sse/conformance.ts) */
+export type ConformanceRule =
+  | "INVALID_JSON"
+  | "NOT_AN_OBJECT"
+  | "MISSING_ID"
+  | "ID_CHANGED"
+  | "WRONG_OBJECT"
+  | "MISSING_CREATED"
+  | "MISSING_MODEL"
+  | "MISSING_CHOICES"
+  | "INVALID_CHOICE"
+  | "CHOICE_INDEX"
+  | "MISSING_DELTA"
+  | "FIRST_DELTA_ROLE"
+  | "MULTIPLE_FINISH_REASONS"
+  | "MISSING_FINISH_REASON"
+  | "MISSING_DONE"
+  | "DONE_NOT_LAST"
+  | "TOOL_CALL_NAME_REPEATED";
+
+/** A chunk that is not a valid `chat.completion.chunk` stream member */
+export interface ConformanceViolation {
+  rule: ConformanceRule;
+  message: string;
+  /** Zero-based index of the offending chunk, if the rule is chunk-specific */
+  chunkIndex?: number;
+}
+
+/** Distribution of the gaps between consecutive streamed chunks */
+export interface ChunkGapStats {
+  /** Number of gaps measured (chunks − 1) */
+  count: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+/** Point at which a flowing stream stopped producing chunks */
+/** Evidence that a "stream" was generated in full and flushed at once */
+export interface BufferingInfo {
+  /** First chunk arrival as a fraction of the last chunk's arrival (1 = arrived together) */
+  firstChunkRatio: number;
+  /** Largest fraction of chunks that arrived within one burstWindowMs window */
+  burstRatio: number;
+  /** Width of the burst window (ms) */
+  burstWindowMs: number;
+}
+
+export interface StallInfo {
+  /** Number of chunks received before the silence */
+  afterChunk: number;
+  /** Ms from request start to the last chunk received */
+  elapsedMs: number;
+  /** Idle timeout that fired (CHUNK_IDLE_TIMEOUT_MS) */
+  idleMs: number;
+}
 
 /** Timing metrics captured during a probe */
 export interface ProbeTimings {
@@ -17,12 +104,409 @@ export interface ProbeTimings {
   ttfbMs?: number;
   /** Time to first SSE data event (ms), undefined if never received */
   firstEventMs?: number;
+  /** Time to the first chunk carrying generated text (ms) */
+  firstContentMs?: number;
+  /** Inter-chunk gap distribution (streaming only, needs ≥ 2 chunks) */
+  chunkGaps?: ChunkGapStats;
+  /** Longest silence between two chunks, and how many chunks had arrived before it */
+  longestStall?: { ms: number; afterChunk: number };
+  /** Tokens per second between the first and last content chunk – unset for a buffered stream or one under 50 ms */
+  tokensPerSec?: number;
+  /** What tokensPerSec counts: server-reported completion tokens, or content chunks */
+  tokensPerSecSource?: "usage" | "chunks";
+}
+
+/** A function call reassembled from streamed tool_calls deltas */
+export interface ToolCallCheck {
+  /** tool_calls[].index the fragments were keyed by */
+  index: number;
+  id?: string;
+  name?: string;
+  /** Concatenated function.arguments fragments */
+  arguments: string;
+  /** Number of deltas the arguments arrived in */
+  fragments: number;
+  /** Whether the reassembled arguments parse as a JSON object */
+  argumentsValid: boolean;
+}
+
+/** One client path through the tool-calling probe */
+export interface ToolCallPathResult {
+  path: "raw-sse" | "openai-sdk";
+  outcome: ProbeOutcome;
+  timings: ProbeTimings;
+  chunkCount: number;
+  /** finish_reason of choice 0 – "tool_calls" is expected */
+  finishReason?: string;
+  toolCalls: ToolCallCheck[];
+  conformanceViolations?: ConformanceViolation[];
+  error?: string;
+}
+
+/** A stream cancelled mid-generation, and how the server behaved afterwards */
+export interface RecoveryInfo {
+  /** Chunks received before the client aborted */
+  cancelledAfterChunk: number;
+  /** Ms from probe start to the abort */
+  cancelAtMs: number;
+  /** Requests issued right after the abort, in order */
+  followUps: ProbeResult[];
+  /** Ms from the abort until a follow-up first completed OK (undefined if none did) */
+  recoveryMs?: number;
+}
+
+/** One of the simultaneous streams opened by the concurrency probe */
+export interface ConcurrentStreamResult {
+  index: number;
+  outcome: ProbeOutcome;
+  /** Offset of this stream's request from the first request (ms) */
+  startOffsetMs: number;
+  ttfbMs?: number;
+  firstEventMs?: number;
+  totalMs: number;
+  chunkCount?: number;
+  tokensPerSec?: number;
+  error?: string;
+}
+
+/** How the server handled several streams at once */
+export interface ConcurrencyInfo {
+  /** Number of simultaneous streams (CONCURRENT_STREAMS) */
+  streams: number;
+  perStream: ConcurrentStreamResult[];
+  /** Indexes of streams that hung, stalled or timed out */
+  hung: number[];
+  /** Indexes of streams that got no event until another stream had finished */
+  starved: number[];
+  /** Most streams generating at the same moment */
+  peakParallel: number;
+  /** True when completed streams never overlapped – the server handles one at a time */
+  serialized: boolean;
+}
+
+/** One request of the context-length ramp */
+export interface ContextRampSample {
+  outcome: ProbeOutcome;
+  ttfbMs?: number;
+  firstEventMs?: number;
+  totalMs: number;
+  error?: string;
+}
+
+/** One prompt size of the context-length ramp: the same request streamed and not */
+export interface ContextRampStep {
+  /** Filler size aimed for, in tokens (estimated from characters) */
+  targetTokens: number;
+  /** prompt_tokens the server reported for the non-streaming request, if it did */
+  promptTokens?: number;
+  streaming: ContextRampSample;
+  nonStreaming: ContextRampSample;
+}
+
+/** Latency and outcome as the prompt grows (context-ramp probe) */
+export interface ContextRampInfo {
+  /** Sizes tried, smallest first; the ramp stops once both requests fail at a size */
+  steps: ContextRampStep[];
+  /** Smallest size whose latency jumped far more than doubling the prompt explains */
+  latencyExplodesAt?: number;
+  /** Smallest size at which either request failed */
+  failsAt?: number;
+}
+
+/** Token counts as reported by the server's `usage` object */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** How a stream delivered `usage` after `stream_options.include_usage` was requested */
+export interface UsageCheck {
+  /** Index of the chunk that carried usage, if any did */
+  usageChunkIndex?: number;
+  /** Whether that chunk had an empty `choices` array, as OpenAI specifies */
+  choicesEmpty?: boolean;
+  /** Whether it was the last chunk before data:[DONE] */
+  lastBeforeDone?: boolean;
+  /** Every deviation from the include_usage contract */
+  problems: string[];
+}
+
+/** Where a streaming delay sits, from the socket and fetch views of the same scenario */
+export type TransportDiagnosis =
+  | "OK"
+  | "SERVER_SILENT"
+  | "SERVER_STALL"
+  | "SERVER_BUFFERING"
+  | "CLIENT_BUFFERING";
+
+/** The http-transport probe's socket view next to the raw-streaming probe's fetch view */
+export interface TransportComparison {
+  scenario?: string;
+  /** Run number, when REPEAT_COUNT > 1 */
+  run?: number;
+  socket: {
+    outcome: ProbeOutcome;
+    headersMs?: number;
+    firstReadMs?: number;
+    longestSilenceMs?: number;
+    buffered: boolean;
+  };
+  /** The raw-streaming probe through fetch (undici), when it ran for this scenario */
+  fetch?: {
+    outcome: ProbeOutcome;
+    ttfbMs?: number;
+    firstEventMs?: number;
+    longestStallMs?: number;
+    buffered: boolean;
+  };
+  diagnosis: TransportDiagnosis;
+  /** One sentence explaining the diagnosis */
+  detail: string;
+}
+
+/** A streaming probe's usage next to the non-streaming probe's usage */
+export interface UsageComparison {
+  probe: ProbeResult["probe"];
+  scenario?: string;
+  /** Run number, when REPEAT_COUNT > 1 */
+  run?: number;
+  nonStreaming: TokenUsage;
+  streaming: TokenUsage;
+  /** The prompt is identical, so prompt_tokens must be too */
+  promptTokensMatch: boolean;
+  /** Completion length may legitimately differ – these probes do not pin sampling */
+  completionTokensDelta: number;
+}
+
+/** What a Responses API stream (`POST /responses`) delivered */
+export interface ResponsesStreamInfo {
+  /** How many events of each `type` arrived, in first-seen order */
+  eventCounts: Record<string, number>;
+  responseId?: string;
+  /** response.completed, response.failed, response.incomplete or error */
+  terminalEvent?: string;
+  /** Last `response.status` seen */
+  status?: string;
+  /** Text reassembled from response.output_text.delta events */
+  text: string;
+  /** Whether every response.output_text.done matched its deltas */
+  textMatchesDone?: boolean;
+  /** input/output tokens from response.completed */
+  usage?: TokenUsage;
+  /** Message of a failed / incomplete / error terminal event */
+  error?: string;
+  /** Every deviation from the expected event sequence */
+  violations: string[];
+}
+
+/** What a legacy text completions stream (`POST /completions`) delivered */
+export interface TextCompletionStreamInfo {
+  /** SSE events received, including data:[DONE] */
+  events: number;
+  /** Chunks that carried a non-empty `choices[].text` */
+  textChunks: number;
+  /** Text reassembled from choice 0's `text` deltas */
+  text: string;
+  finishReason?: string;
+  doneReceived: boolean;
+  /** Chunks shaped like chat.completion.chunk (`delta` instead of `text`) */
+  chatShapedChunks: number;
+  /** Every deviation from the text_completion chunk shape */
+  violations: string[];
+}
+
+/** One side of the stream-vs-non-stream comparison */
+export interface ParitySide {
+  outcome: ProbeOutcome;
+  /** Full reply text (streamed deltas reassembled for the streaming side) */
+  text: string;
+  finishReason?: string;
+  usage?: TokenUsage;
+  totalMs: number;
+  error?: string;
+}
+
+/** The same deterministic request sent with stream:false and stream:true */
+export interface ParityInfo {
+  nonStreaming: ParitySide;
+  streaming: ParitySide;
+  /** Whether the two texts are identical */
+  textMatches: boolean;
+  /** First character offset at which the texts differ */
+  firstDiffAt?: number;
+  /** Human-readable list of every difference found */
+  divergences: string[];
+}
+
+/** `response_format` types the structured-output probe requests */
+export type StructuredOutputFormat = "json_object" | "json_schema";
+
+/** One structured-output request (stream:false or stream:true) and what came back */
+export interface StructuredOutputAttempt {
+  outcome: ProbeOutcome;
+  httpStatus?: number;
+  totalMs: number;
+  /** SSE events received (stream:true only) */
+  chunkCount?: number;
+  finishReason?: string;
+  /** Reply text – reassembled from the deltas when streamed (first 500 chars) */
+  text: string;
+  /** Whether the whole reply parsed as JSON */
+  validJson: boolean;
+  /** Where the reply breaks the format: not an object, or schema violations by JSON path */
+  formatErrors: string[];
+  /** The request succeeded and the reply is in the requested format */
+  honoured: boolean;
+  error?: string;
+}
+
+/** One response_format, requested with stream:false and with stream:true */
+export interface StructuredOutputVariant {
+  format: StructuredOutputFormat;
+  nonStreaming: StructuredOutputAttempt;
+  streaming: StructuredOutputAttempt;
+}
+
+/** Whether the model honours response_format, streaming vs non-streaming */
+export interface StructuredOutputInfo {
+  variants: StructuredOutputVariant[];
+  /** Every format honoured with stream:false */
+  nonStreamingHonoured: boolean;
+  /** Every format honoured with stream:true */
+  streamingHonoured: boolean;
+}
+
+/** One deliberately bad request of the error-contract probe and how the server answered */
+export interface ErrorContractCase {
+  /** Case name, e.g. "unknown-model" */
+  name: string;
+  /** The mistake the request makes */
+  description: string;
+  /** OK when the reply met the contract; FAIL when the request was accepted; timeouts as usual */
+  outcome: ProbeOutcome;
+  httpStatus?: number;
+  contentType?: string;
+  totalMs: number;
+  /** Response body (first 300 chars; not read when it is an SSE stream) */
+  body?: string;
+  /** Where the reply breaks the OpenAI error contract */
+  violations: string[];
+  /** Network error or timeout, when no complete reply arrived */
+  error?: string;
+}
+
+/** How the server answers requests the OpenAI SDK should see as API errors */
+export interface ErrorContractInfo {
+  cases: ErrorContractCase[];
+}
+
+/** One read from the socket after the response headers – bytes exactly as the server sent them */
+export interface TransportRead {
+  /** Ms since the request started */
+  atMs: number;
+  bytes: number;
+}
+
+/** One chunked transfer-encoding frame, as its size line arrived on the socket */
+export interface TransportFrame {
+  /** Ms since the request started */
+  atMs: number;
+  /** Declared chunk size in bytes (0 = the terminating chunk) */
+  size: number;
+}
+
+/** What the socket saw during one streaming request (http-transport probe) */
+export interface TransportInfo {
+  /** "http:" or "https:" */
+  protocol: string;
+  /** Ms to TCP connect */
+  connectMs?: number;
+  /** Ms to the end of the TLS handshake (https only) */
+  tlsMs?: number;
+  /** Ms to the parsed response headers */
+  headersMs?: number;
+  httpStatus?: number;
+  httpVersion?: string;
+  /** Response headers that shape streaming (content-type, transfer-encoding, connection, …) */
+  headers: Record<string, string>;
+  /** Body reads in arrival order (the first 500) */
+  reads: TransportRead[];
+  readCount: number;
+  /** Body bytes on the wire, chunk framing included */
+  bodyBytes: number;
+  /** Longest silence between two body reads (or after the last, when the body never ended), and the 1-based read it followed */
+  longestSilence?: { ms: number; afterRead: number };
+  /** SSE events in the body, by blank-line terminator */
+  eventCount: number;
+  /** The events came off the socket in one burst at the end – same test as a probe's `buffering` */
+  buffering?: BufferingInfo;
+  /** Chunked frames in arrival order (the first 500); absent when the body was not chunked */
+  frames?: TransportFrame[];
+  frameCount?: number;
+  /** Most frames that arrived in a single read – high values mean the server coalesces writes */
+  maxFramesPerRead?: number;
+  /** Ms when the decoded body contained data: [DONE] */
+  doneMs?: number;
+  /** Ms when the terminating zero-size frame (or the end of the body) arrived */
+  endMs?: number;
+  /** Whether the server closed the socket within a second of the response ending */
+  closedAfterEnd: boolean;
+  /** Ms from the end of the response to the close */
+  closedAfterEndMs?: number;
+  /** Whether a follow-up request on the same keep-alive agent reused the socket */
+  socketReused?: boolean;
+}
+
+/** How one client's parsing strategy fared on a stream */
+export type ClientCompatOutcome = "OK" | "INCOMPLETE" | "ERROR" | "HANG";
+
+/** One client parsing strategy run over the captured stream (client-compat probe) */
+export interface ClientCompatResult {
+  /** "strict-sse", "line-based", "openai-sdk" or "eventsource-parser" */
+  client: string;
+  description: string;
+  outcome: ClientCompatOutcome;
+  /** Payloads with a `choices` array the client handed to its caller */
+  chunks: number;
+  /** Characters of delta.content the client reassembled */
+  textLength: number;
+  finishReason?: string;
+  /** Whether the client saw data: [DONE] – absent for clients that hide it (the OpenAI SDK) */
+  doneReceived?: boolean;
+  /** Why the outcome is not OK */
+  detail?: string;
+}
+
+/** One stream run through several clients' parsers (client-compat probe) */
+export interface ClientCompatInfo {
+  /** "live" – requested by the probe; "recording" – a CAPTURE_STREAMS recording */
+  source: "live" | "recording";
+  /** Body bytes the clients were given */
+  bytes: number;
+  byteChunks: number;
+  /**
+   * "ended" – the server closed the body; "open" – it was still open when
+   * capture stopped; "error" – the connection failed; "unknown" – the
+   * recording stopped reading first (the clients are then given a closed body)
+   */
+  bodyEnd: "ended" | "open" | "error" | "unknown";
+  clients: ClientCompatResult[];
 }
 
 /** Result from any probe */
 export interface ProbeResult {
-  probe: "non-streaming" | "raw-streaming" | "copilot-sdk-streaming";
+  /** Name of the probe that produced it – a built-in or custom registry probe (see probes/registry.ts) */
+  probe: string;
+  /** Prompt-suite scenario the probe sent (see prompts/suite.ts) */
+  scenario?: string;
+  /** 1-based run number when REPEAT_COUNT > 1 (warmup runs are not reported) */
+  run?: number;
   outcome: ProbeOutcome;
+  /** Wire API the probe spoke, for probes that follow COPILOT_WIRE_API */
+  wireApi?: WireApi;
+  /** Client profile whose request shape the probe sent ("name@version") */
+  clientProfile?: string;
   /** HTTP status code, if a response was received */
   httpStatus?: number;
   /** Selected response headers (lowercase keys) */
@@ -33,12 +517,48 @@ export interface ProbeResult {
   chunkCount?: number;
   /** Whether data:[DONE] was received */
   doneReceived?: boolean;
+  /** Where a started stream went silent (outcome STALL only) */
+  stall?: StallInfo;
+  /** Set when chunks were delivered in one burst instead of incrementally */
+  buffering?: BufferingInfo;
+  /** SSE protocol anomalies seen by the parser (raw streaming only) */
+  sseAnomalies?: SSEAnomaly[];
+  /** chat.completion.chunk schema violations (streaming probes only) */
+  conformanceViolations?: ConformanceViolation[];
+  /** Per-path tool_calls reassembly (tool-calling probe only) */
+  toolCalling?: ToolCallPathResult[];
+  /** Cancellation and follow-up results (cancellation-recovery probe only) */
+  recovery?: RecoveryInfo;
+  /** Per-stream metrics and scheduling analysis (concurrency probe only) */
+  concurrency?: ConcurrencyInfo;
+  /** Stream vs non-stream comparison (parity probe only) */
+  parity?: ParityInfo;
+  /** response_format results per format and mode (structured-output probe only) */
+  structuredOutput?: StructuredOutputInfo;
+  /** Replies to deliberately bad requests (error-contract probe only) */
+  errorContract?: ErrorContractInfo;
+  /** Socket-level timings, chunk frames and keep-alive (http-transport probe only) */
+  transport?: TransportInfo;
+  /** The same stream as four client ecosystems would parse it (client-compat probe only) */
+  clientCompat?: ClientCompatInfo;
+  /** Per-size latency and outcomes (context-ramp probe only) */
+  contextRamp?: ContextRampInfo;
+  /** Typed-event summary (Responses wire API only) */
+  responses?: ResponsesStreamInfo;
+  /** text_completion chunk summary (legacy completions probe only) */
+  completions?: TextCompletionStreamInfo;
+  /** Token counts from the server's `usage` object, when it sent one */
+  usage?: TokenUsage;
+  /** include_usage contract check (streaming probes with INCLUDE_USAGE only) */
+  usageCheck?: UsageCheck;
   /** Concatenated token text from streaming (for SDK probe) */
   tokenPreview?: string;
   /** Error message (safe – no secrets) */
   error?: string;
   /** SHA-256 hash prefix of the request payload (for auditing) */
   payloadHash: string;
+  /** Path of the raw wire recording, when CAPTURE_STREAMS is enabled */
+  recordingPath?: string;
 }
 
 /** Final diagnostic report written to report.json */
@@ -54,8 +574,145 @@ export interface DiagnosticReport {
     requestTimeoutMs: number;
     firstByteTimeoutMs: number;
     firstEventTimeoutMs: number;
+    chunkIdleTimeoutMs: number;
+    cancelAfterChunks: number;
+    concurrentStreams: number;
+    contextRampMaxTokens: number;
+    includeUsage: boolean;
+    captureStreams: boolean;
+    /** Name of the prompt suite the probes ran */
+    promptSuite: string;
+    /** Client profile the SDK probe sent ("name@version") */
+    clientProfile: string;
+    /** Measured runs of the whole probe set */
+    repeatCount: number;
+    /** Runs before those, left out of the report */
+    warmupRuns: number;
   };
   probes: ProbeResult[];
+  /** Probe outcomes keyed by scenario, then probe name */
+  scenarios: Record<string, Record<string, ProbeOutcome>>;
+  /** Streamed usage compared with the non-streaming probe's usage */
+  usageComparison?: UsageComparison[];
+  /** Socket vs fetch timing per scenario – server-side stalls vs client buffering */
+  transport?: TransportComparison[];
+  /** Pass rate, outcomes and timing spread per probe and scenario (REPEAT_COUNT > 1) */
+  repeat?: RepeatStats[];
+}
+
+/** Spread of one timing over repeated runs */
+export interface TimingPercentiles {
+  /** Runs that reported the timing */
+  count: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+/** One probe's results over the measured runs of one scenario */
+export interface RepeatStats {
+  probe: string;
+  scenario?: string;
+  runs: number;
+  /** Runs that ended OK */
+  passed: number;
+  /** passed / runs (0–1) */
+  passRate: number;
+  /** How many runs ended in each outcome */
+  outcomes: Partial<Record<ProbeOutcome, number>>;
+  totalMs: TimingPercentiles;
+  ttfbMs?: TimingPercentiles;
+  firstEventMs?: TimingPercentiles;
+}
+
+/** One exchange forwarded by the recording proxy (npm run proxy) */
+export interface ProxySession {
+  /** ISO time the request arrived */
+  startedAt: string;
+  method: string;
+  /** Request path, e.g. /v1/chat/completions */
+  path: string;
+  model?: string;
+  /** Whether the request asked for stream: true */
+  stream: boolean;
+  payloadHash: string;
+  /** The client's User-Agent – tells Copilot's requests from anything else */
+  userAgent?: string;
+  /** Classified with the probes' timeouts – what a probe would have reported for this exchange */
+  outcome: ProbeOutcome;
+  httpStatus?: number;
+  timings: ProbeTimings;
+  /** SSE events forwarded (event-stream responses) */
+  eventCount?: number;
+  /** Ms since the request started when each SSE event arrived (the first 500) */
+  eventArrivals?: number[];
+  /** [DONE], or a terminal response.* event on the Responses API */
+  doneReceived?: boolean;
+  /** Ms from the last event (or the headers) until the client gave up on an unfinished stream – how long it waited on silence */
+  silentForMs?: number;
+  buffering?: BufferingInfo;
+  /** Body bytes forwarded to the client */
+  bytes: number;
+  /** "upstream" – the server finished or failed; "client" – the client disconnected first */
+  endedBy: "upstream" | "client";
+  error?: string;
+  /** NDJSON wire recording of the exchange (CAPTURE_STREAMS) */
+  recordingPath?: string;
+}
+
+/** A function the model may call (OpenAI "tools" entry) */
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    /** JSON Schema for the arguments object */
+    parameters: Record<string, unknown>;
+  };
+}
+
+/** A versioned request shape of a real client (see prompts/client-profiles.ts) */
+export interface ClientProfile {
+  name: string;
+  /** Client release the shape was taken from */
+  version: string;
+  description: string;
+  /** Extra HTTP headers the client sends */
+  headers: Record<string, string>;
+  /** The client's own system message, sent ahead of the scenario's messages */
+  systemPrompt?: string;
+  /** Overrides the scenario's temperature */
+  temperature?: number;
+  topP?: number;
+  n?: number;
+  /** Stop sequences */
+  stop?: string[];
+  /** Send stream_options.include_usage */
+  includeUsage?: boolean;
+  tools?: ToolDefinition[];
+  toolChoice?: "auto" | "none" | "required";
+}
+
+/** One chat message of a prompt scenario */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/** A named workload: the conversation sent and its sampling settings */
+export interface PromptScenario {
+  name: string;
+  description?: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+/** A named set of scenarios the probes or the benchmark iterate over */
+export interface PromptSuite {
+  name: string;
+  description?: string;
+  scenarios: PromptScenario[];
 }
 
 /** Standard chat completion request body */
@@ -64,4 +721,29 @@ export interface ChatCompletionRequest {
   messages: Array<{ role: string; content: string }>;
   stream: boolean;
   max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  stop?: string[];
+  seed?: number;
+  stream_options?: { include_usage: boolean };
+  tools?: ToolDefinition[];
+  tool_choice?: "auto" | "none" | "required";
+  response_format?:
+    | { type: "json_object" }
+    | { type: "json_schema"; json_schema: { name: string; strict?: boolean; schema: JsonSchema } };
+}
+
+/** The JSON Schema subset utils/json-schema.ts validates */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
 }
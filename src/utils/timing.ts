@@ -1,19 +1,50 @@
 /**
  * Lightweight timer for capturing probe timing metrics.
+ *
+ * Besides TTFB / first event / total, streaming probes call markChunk() for
+ * every chunk so the snapshot can describe how smoothly the stream arrived:
+ * time to first content token, inter-chunk gap distribution, the longest
+ * stall and generation-phase throughput – in real tokens when the server
+ * reported usage (setCompletionTokens), otherwise in content chunks – left
+ * out when the content arrived in one flush, where a rate means nothing.
+ * detectBuffering() uses the same arrivals to spot servers that generate
+ * everything and flush it at once.
  */
 
-import type { ProbeTimings } from "../types";
+import type { BufferingInfo, ProbeTimings, TimingPercentiles } from "../types";
+
+/** Fewer chunks than this cannot be told apart from a short reply */
+const BUFFERING_MIN_CHUNKS = 5;
+/** Chunks landing this close together arrived in one flush */
+const BUFFERING_BURST_WINDOW_MS = 50;
+/** Buffered when the first chunk lands this late relative to the last… */
+const BUFFERING_FIRST_CHUNK_RATIO = 0.8;
+/** …and at least this fraction of chunks shares a single burst window */
+const BUFFERING_BURST_RATIO = 0.8;
+/** Content arriving within a shorter window gives no meaningful throughput */
+const MIN_RATE_WINDOW_MS = 50;
 
 export class Timer {
   private readonly start: number;
   private end: number | undefined;
   private ttfb: number | undefined;
   private firstEvent: number | undefined;
+  private firstContent: number | undefined;
+  private lastContent: number | undefined;
+  private contentChunks = 0;
+  private completionTokens: number | undefined;
+  /** Arrival time of every chunk, ms since start */
+  private readonly arrivals: number[] = [];
 
   constructor() {
     this.start = Date.now();
   }
 
+  /** Ms elapsed since the timer started (does not stop it) */
+  elapsed(): number {
+    return (this.end ?? Date.now()) - this.start;
+  }
+
   /** Mark time-to-first-byte (response headers received) */
   markTTFB(): void {
     if (this.ttfb === undefined) {
@@ -28,6 +59,26 @@ export class Timer {
     }
   }
 
+  /**
+   * Record the arrival of one streamed chunk.
+   *
+   * @param hasContent  Whether the chunk carried generated text
+   */
+  markChunk(hasContent: boolean): void {
+    const at = Date.now() - this.start;
+    this.arrivals.push(at);
+    if (hasContent) {
+      this.contentChunks++;
+      if (this.firstContent === undefined) this.firstContent = at;
+      this.lastContent = at;
+    }
+  }
+
+  /** Use the server-reported completion token count for tokensPerSec */
+  setCompletionTokens(count: number): void {
+    this.completionTokens = count;
+  }
+
   /** Finalize the timer */
   stop(): void {
     if (this.end === undefined) {
@@ -38,12 +89,105 @@ export class Timer {
   /** Return a ProbeTimings snapshot (stops timer if not yet stopped) */
   toTimings(): ProbeTimings {
     this.stop();
-    return {
+    const timings: ProbeTimings = {
       startMs: this.start,
       endMs: this.end!,
       totalMs: this.end! - this.start,
       ttfbMs: this.ttfb,
       firstEventMs: this.firstEvent,
     };
+
+    if (this.arrivals.length === 0) return timings;
+
+    timings.firstContentMs = this.firstContent;
+
+    const gaps = this.arrivals.slice(1).map((t, i) => t - this.arrivals[i]);
+    if (gaps.length > 0) {
+      timings.chunkGaps = timingPercentiles(gaps);
+
+      let longest = 0;
+      for (let i = 1; i < gaps.length; i++) {
+        if (gaps[i] > gaps[longest]) longest = i;
+      }
+      timings.longestStall = { ms: gaps[longest], afterChunk: longest + 1 };
+    }
+
+    if (
+      this.firstContent !== undefined &&
+      this.lastContent !== undefined &&
+      this.lastContent - this.firstContent >= MIN_RATE_WINDOW_MS &&
+      this.contentChunks > 1 &&
+      !detectBuffering(this.arrivals)
+    ) {
+      // Tokens (or content chunks) after the first, over the time it took them to arrive
+      const secs = (this.lastContent - this.firstContent) / 1000;
+      const count = this.completionTokens ?? this.contentChunks;
+      timings.tokensPerSec = Math.round(((count - 1) / secs) * 10) / 10;
+      timings.tokensPerSecSource = this.completionTokens !== undefined ? "usage" : "chunks";
+    }
+
+    return timings;
   }
+
+  /**
+   * Flag "fake streaming": the first chunk arrives close to the end and
+   * nearly every chunk lands inside one short burst.
+   *
+   * @returns The evidence when the stream looks buffered, otherwise undefined
+   */
+  detectBuffering(): BufferingInfo | undefined {
+    return detectBuffering(this.arrivals);
+  }
+}
+
+/**
+ * The buffering test on any ascending arrival times (ms since the request
+ * started) – Timer.detectBuffering() for chunks, the transport probe for
+ * SSE events as they came off the socket.
+ */
+export function detectBuffering(arrivals: number[]): BufferingInfo | undefined {
+  const n = arrivals.length;
+  if (n < BUFFERING_MIN_CHUNKS) return undefined;
+
+  const last = arrivals[n - 1];
+  const firstChunkRatio = last > 0 ? arrivals[0] / last : 1;
+
+  // Sliding window over the (already ascending) arrival times
+  let densest = 0;
+  for (let lo = 0, hi = 0; hi < n; hi++) {
+    while (arrivals[hi] - arrivals[lo] > BUFFERING_BURST_WINDOW_MS) lo++;
+    densest = Math.max(densest, hi - lo + 1);
+  }
+  const burstRatio = densest / n;
+
+  if (firstChunkRatio < BUFFERING_FIRST_CHUNK_RATIO || burstRatio < BUFFERING_BURST_RATIO) {
+    return undefined;
+  }
+  return {
+    firstChunkRatio: Math.round(firstChunkRatio * 100) / 100,
+    burstRatio: Math.round(burstRatio * 100) / 100,
+    burstWindowMs: BUFFERING_BURST_WINDOW_MS,
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending-sorted array.
+ *
+ * @param p  Percentile in the range 0–100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/** Count, p50, p95 and max of a set of millisecond values */
+export function timingPercentiles(values: number[]): TimingPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: values.length,
+    p50Ms: percentile(sorted, 50),
+    p95Ms: percentile(sorted, 95),
+    maxMs: sorted[sorted.length - 1] ?? 0,
+  };
 }
@@ -5,6 +5,10 @@
 // ── State ────────────────────────────────────────────────
 let selectedModel = null;
 let serviceReady = false;
+/** Registered probes from /api/probes – { name, label, description, skipReason } */
+let probeCatalog = [];
+/** Scenarios of the prompt suite from /api/probes – { name, description } */
+let scenarioCatalog = [];
 
 // ── Helpers ──────────────────────────────────────────────
 
@@ -33,9 +37,7 @@ async function api(url, opts) {
 
 function enableProbeButtons() {
   $('btn-run-all').disabled = !selectedModel;
-  $('btn-probe-ns').disabled = !selectedModel;
-  $('btn-probe-raw').disabled = !selectedModel;
-  $('btn-probe-sdk').disabled = !selectedModel;
+  document.querySelectorAll('.btn-probe').forEach(b => b.disabled = !selectedModel);
   $('btn-benchmark').disabled = !serviceReady;
 }
 
@@ -138,6 +140,32 @@ function selectModel(modelId) {
   enableProbeButtons();
 }
 
+// ── Probe Registry ───────────────────────────────────────
+
+async function loadProbeCatalog() {
+  try {
+    const data = await api('/api/probes');
+    probeCatalog = data.probes || [];
+    scenarioCatalog = data.scenarios || [];
+  } catch (err) {
+    probeCatalog = [];
+    scenarioCatalog = [];
+    showError($('probe-results'), `Could not load probes: ${err.message}`);
+  }
+
+  $('probe-buttons').innerHTML = probeCatalog.map(p => `
+    <button class="btn btn-outline btn-probe" onclick="runSingleProbe('${escapeHtml(p.name)}')"
+      title="${escapeHtml(p.description + (p.skipReason ? ` – skipped by Run All (${p.skipReason})` : ''))}" disabled>${escapeHtml(p.label)} only</button>
+  `).join('');
+  enableProbeButtons();
+
+  // Run All covers every scenario; the picker only matters for single probes
+  $('scenario-select').innerHTML = scenarioCatalog.map(s =>
+    `<option value="${escapeHtml(s.name)}" title="${escapeHtml(s.description || '')}">${escapeHtml(s.name)}</option>`
+  ).join('');
+  $('scenario-picker').hidden = scenarioCatalog.length < 2;
+}
+
 // ── Probe Execution ──────────────────────────────────────
 
 async function runAllProbes() {
@@ -174,7 +202,7 @@ async function runSingleProbe(name) {
     const result = await api(`/api/probe/${name}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model: selectedModel }),
+      body: JSON.stringify({ model: selectedModel, scenario: $('scenario-select').value || undefined }),
     });
 
     el.innerHTML = renderProbeCard(result);
@@ -188,32 +216,100 @@ async function runSingleProbe(name) {
 
 function renderProbeReport(el, report) {
   const probes = report.probes || [];
-  let html = probes.map(p => renderProbeCard(p)).join('');
+  // Over repeated runs only the runs that did not pass get a card; the rest are in the table
+  let html = probes.filter(p => !report.repeat || p.outcome !== 'OK').map(p => renderProbeCard(p)).join('');
+  if (report.repeat) html += renderRepeatStats(report.repeat);
 
   // Overall verdict
   const allOk = probes.every(p => p.outcome === 'OK');
-  const nonStreamOk = probes.find(p => p.probe === 'non-streaming')?.outcome === 'OK';
-  const streamHang = probes.filter(p => p.probe !== 'non-streaming').some(p =>
-    ['HANG', 'NO_FIRST_EVENT', 'TIMEOUT'].includes(p.outcome)
+  const nonStreaming = probes.filter(p => p.probe === 'non-streaming');
+  const nonStreamOk = nonStreaming.length > 0 && nonStreaming.every(p => p.outcome === 'OK');
+  const streamingProbes = probes.filter(p => p.probe !== 'non-streaming');
+  const streamHang = streamingProbes.some(p =>
+    ['HANG', 'NO_FIRST_EVENT', 'TIMEOUT', 'STALL'].includes(p.outcome)
   );
+  const streamNotOk = streamingProbes.filter(p => p.outcome !== 'OK');
+  const onlyNonConformant = streamNotOk.length > 0 && streamNotOk.every(p => p.outcome === 'NON_CONFORMANT');
+  const buffered = streamingProbes.some(p => p.buffering);
 
-  if (allOk) {
+  if (allOk && buffered) {
+    html += '<div class="verdict-banner streaming-hang">⚠️ STREAMS BUT BUFFERED — every chunk arrived in one burst at the end. Copilot will show nothing until the whole reply has been generated.</div>';
+  } else if (allOk) {
     html += '<div class="verdict-banner all-ok">🎉 ALL PROBES PASSED — streaming and non-streaming both work.</div>';
+  } else if (nonStreamOk && onlyNonConformant) {
+    const deviating = [...new Set(streamNotOk.map(p => p.probe))].join(', ');
+    html += `<div class="verdict-banner streaming-hang">⚠️ STREAMS BUT NON-CONFORMANT — the stream deviates from what OpenAI clients expect (flagged by ${escapeHtml(deviating)}). Strict clients such as Copilot may reject this stream.</div>`;
   } else if (nonStreamOk && streamHang) {
     html += '<div class="verdict-banner streaming-hang">⚠️ STREAMING HANG DETECTED — non-streaming works but streaming hangs. This reproduces the known Foundry Local v0.5 streaming issue.</div>';
   } else {
     html += '<div class="verdict-banner some-fail">❌ Some probes failed. See details above.</div>';
   }
+  const flaky = (report.repeat || []).map(describeFlakiness).filter(Boolean);
+  if (flaky.length) {
+    html += `<div class="muted">${flaky.map(escapeHtml).join(' · ')}</div>`;
+  }
+
+  const scenarios = Object.entries(report.scenarios || {});
+  if (scenarios.length > 1) {
+    html += `<div class="muted">By scenario: ${scenarios.map(([name, byProbe]) => {
+      const outcomes = Object.values(byProbe);
+      return `${escapeHtml(name)} ${outcomes.filter(o => o === 'OK').length}/${outcomes.length} OK`;
+    }).join(' · ')}</div>`;
+  }
+
+  if (report.usageComparison) {
+    html += `<div class="muted">Usage vs non-streaming: ${report.usageComparison.map(c =>
+      `${escapeHtml(c.probe)}${c.scenario && scenarioCatalog.length > 1 ? ` [${escapeHtml(c.scenario)}]` : ''}${c.run !== undefined ? ` #${c.run}` : ''} prompt ${c.streaming.promptTokens}/${c.nonStreaming.promptTokens}${c.promptTokensMatch ? '' : ' ❌'}, completion ${c.streaming.completionTokens}/${c.nonStreaming.completionTokens}`
+    ).join(' · ')}</div>`;
+  }
+
+  if (report.transport) {
+    html += `<div class="muted">Transport (socket vs fetch): ${report.transport.map(c =>
+      `${c.scenario && scenarioCatalog.length > 1 ? `[${escapeHtml(c.scenario)}] ` : ''}${c.run !== undefined ? `#${c.run} ` : ''}${c.diagnosis === 'OK' ? '✅' : '⚠️'} ${c.diagnosis} — ${escapeHtml(c.detail)}`
+    ).join(' · ')}</div>`;
+  }
 
   el.innerHTML = html;
 }
 
+function renderRepeatStats(stats) {
+  const spread = t => t ? `${t.p50Ms} / ${t.p95Ms} / ${t.maxMs} ms` : '–';
+  return `
+    <table class="tool-call-table">
+      <thead><tr><th>Probe</th><th>Passed</th><th>Outcomes</th><th>Total p50 / p95 / max</th><th>TTFB p50 / p95 / max</th><th>1st Event p50 / p95 / max</th></tr></thead>
+      <tbody>
+        ${stats.map(s => `
+        <tr>
+          <td>${escapeHtml(s.probe)}${s.scenario && scenarioCatalog.length > 1 ? ` <span class="muted">[${escapeHtml(s.scenario)}]</span>` : ''}</td>
+          <td>${s.passed === s.runs ? '✅' : s.passed === 0 ? '❌' : '⚠️'} ${s.passed}/${s.runs}</td>
+          <td>${Object.entries(s.outcomes).map(([o, n]) => `<span class="outcome-badge outcome-${o.toLowerCase()}">${o}</span> ×${n}`).join(' ')}</td>
+          <td>${spread(s.totalMs)}</td>
+          <td>${spread(s.ttfbMs)}</td>
+          <td>${spread(s.firstEventMs)}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>`;
+}
+
+/** "raw-streaming hung 3/20 times" – same wording as the console verdict */
+function describeFlakiness(s) {
+  if (s.passed === s.runs) return '';
+  const count = match => Object.entries(s.outcomes).filter(([o]) => match(o)).reduce((sum, [, n]) => sum + n, 0);
+  const parts = [
+    ['hung', count(o => ['NO_FIRST_BYTE', 'NO_FIRST_EVENT', 'STALL', 'TIMEOUT', 'HANG'].includes(o))],
+    ['failed', count(o => o === 'FAIL' || o === 'ERROR')],
+    ['was non-conformant', count(o => o === 'NON_CONFORMANT')],
+  ];
+  const name = s.scenario && scenarioCatalog.length > 1 ? `${s.probe} [${s.scenario}]` : s.probe;
+  return `${name} ${parts.filter(([, n]) => n > 0).map(([verb, n]) => `${verb} ${n}/${s.runs} times`).join(', ')}`;
+}
+
 function renderProbeCard(p) {
   const outcomeClass = `outcome-${p.outcome.toLowerCase().replace(/_/g, '_')}`;
   return `
     <div class="probe-result-card ${outcomeClass}">
       <div class="probe-header">
-        <span class="probe-name">${probeDisplayName(p.probe)}</span>
+        <span class="probe-name">${probeDisplayName(p.probe)}${p.wireApi ? ` <span class="muted">wire=${escapeHtml(p.wireApi)}</span>` : ''}${p.clientProfile ? ` <span class="muted">profile=${escapeHtml(p.clientProfile)}</span>` : ''}${p.scenario && scenarioCatalog.length > 1 ? ` <span class="muted">scenario=${escapeHtml(p.scenario)}</span>` : ''}${p.run !== undefined ? ` <span class="muted">run=${p.run}</span>` : ''}</span>
         <span class="outcome-badge ${outcomeClass}">${p.outcome}</span>
       </div>
       <div class="probe-metrics">
@@ -221,22 +317,286 @@ function renderProbeCard(p) {
         <div class="metric"><span class="metric-label">Total</span> <span class="metric-value">${p.timings.totalMs} ms</span></div>
         ${p.timings.ttfbMs !== undefined ? `<div class="metric"><span class="metric-label">TTFB</span> <span class="metric-value">${p.timings.ttfbMs} ms</span></div>` : ''}
         ${p.timings.firstEventMs !== undefined ? `<div class="metric"><span class="metric-label">1st Event</span> <span class="metric-value">${p.timings.firstEventMs} ms</span></div>` : ''}
+        ${p.timings.firstContentMs !== undefined ? `<div class="metric"><span class="metric-label">1st Content</span> <span class="metric-value">${p.timings.firstContentMs} ms</span></div>` : ''}
+        ${p.timings.chunkGaps ? `<div class="metric"><span class="metric-label">Gap p50/p95</span> <span class="metric-value">${p.timings.chunkGaps.p50Ms}/${p.timings.chunkGaps.p95Ms} ms</span></div>` : ''}
+        ${p.timings.longestStall ? `<div class="metric"><span class="metric-label">Longest Stall</span> <span class="metric-value">${p.timings.longestStall.ms} ms</span></div>` : ''}
+        ${p.timings.tokensPerSec !== undefined ? `<div class="metric"><span class="metric-label">${p.timings.tokensPerSecSource === 'chunks' ? 'Chunks/sec' : 'Tokens/sec'}</span> <span class="metric-value">${p.timings.tokensPerSec}</span></div>` : ''}
+        ${p.usage ? `<div class="metric"><span class="metric-label">Usage</span> <span class="metric-value">${p.usage.promptTokens}+${p.usage.completionTokens}=${p.usage.totalTokens}</span></div>` : ''}
         ${p.chunkCount !== undefined ? `<div class="metric"><span class="metric-label">Chunks</span> <span class="metric-value">${p.chunkCount}</span></div>` : ''}
         ${p.doneReceived !== undefined ? `<div class="metric"><span class="metric-label">[DONE]</span> <span class="metric-value">${p.doneReceived ? '✅' : '❌'}</span></div>` : ''}
+        ${p.stall ? `<div class="metric"><span class="metric-label">Stalled</span> <span class="metric-value">after chunk ${p.stall.afterChunk} @ ${p.stall.elapsedMs} ms</span></div>` : ''}
+        ${p.recovery ? `<div class="metric"><span class="metric-label">Cancelled</span> <span class="metric-value">after chunk ${p.recovery.cancelledAfterChunk} @ ${p.recovery.cancelAtMs} ms</span></div>` : ''}
+        ${p.recovery ? `<div class="metric"><span class="metric-label">Recovery</span> <span class="metric-value">${p.recovery.recoveryMs !== undefined ? `${p.recovery.recoveryMs} ms` : 'never'}</span></div>` : ''}
+        ${p.recovery ? `<div class="metric"><span class="metric-label">Follow-ups</span> <span class="metric-value">${p.recovery.followUps.map(f => `${escapeHtml(f.probe)} ${f.outcome}`).join(' · ')}</span></div>` : ''}
+        ${p.buffering ? `<div class="metric"><span class="metric-label">Buffered</span> <span class="metric-value">${Math.round(p.buffering.burstRatio * 100)}% in ${p.buffering.burstWindowMs} ms</span></div>` : ''}
       </div>
+      ${p.sseAnomalies && p.sseAnomalies.length ? `
+      <ul class="anomaly-list">
+        ${p.sseAnomalies.map(a => `<li><span class="anomaly-kind">${escapeHtml(a.kind)}</span> ${escapeHtml(a.detail)}</li>`).join('')}
+      </ul>` : ''}
+      ${p.conformanceViolations && p.conformanceViolations.length ? `
+      <ul class="anomaly-list">
+        ${p.conformanceViolations.map(v => `<li><span class="anomaly-kind">${escapeHtml(v.rule)}</span>${v.chunkIndex !== undefined ? ` @chunk ${v.chunkIndex}` : ''} ${escapeHtml(v.message)}</li>`).join('')}
+      </ul>` : ''}
+      ${p.usageCheck && p.usageCheck.problems.length ? `
+      <ul class="anomaly-list">
+        ${p.usageCheck.problems.map(u => `<li><span class="anomaly-kind">include_usage</span> ${escapeHtml(u)}</li>`).join('')}
+      </ul>` : ''}
+      ${p.toolCalling ? renderToolCallPaths(p.toolCalling) : ''}
+      ${p.concurrency ? renderConcurrency(p.concurrency) : ''}
+      ${p.parity ? renderParity(p.parity) : ''}
+      ${p.structuredOutput ? renderStructuredOutput(p.structuredOutput) : ''}
+      ${p.errorContract ? renderErrorContract(p.errorContract) : ''}
+      ${p.transport ? renderTransport(p.transport) : ''}
+      ${p.clientCompat ? renderClientCompat(p.clientCompat) : ''}
+      ${p.contextRamp ? renderContextRamp(p.contextRamp) : ''}
+      ${p.responses ? renderResponses(p.responses) : ''}
+      ${p.completions ? renderCompletions(p.completions) : ''}
       ${p.tokenPreview ? `<div class="token-preview">${escapeHtml(p.tokenPreview)}</div>` : ''}
       ${p.error ? `<div class="error-text">${escapeHtml(p.error)}</div>` : ''}
     </div>
   `;
 }
 
+function renderToolCallPaths(paths) {
+  return `
+      <table class="tool-call-table">
+        <thead><tr><th>Path</th><th>Outcome</th><th>Chunks</th><th>finish_reason</th><th>Tool calls</th></tr></thead>
+        <tbody>
+          ${paths.map(t => `
+          <tr>
+            <td>${escapeHtml(t.path)}</td>
+            <td><span class="outcome-badge outcome-${t.outcome.toLowerCase()}">${t.outcome}</span></td>
+            <td>${t.chunkCount}</td>
+            <td>${escapeHtml(t.finishReason || '–')}</td>
+            <td>${t.toolCalls.length ? t.toolCalls.map(c => `${c.argumentsValid ? '✅' : '❌'} <code>${escapeHtml(c.name || '?')}(${escapeHtml(c.arguments)})</code> <span class="muted">${c.fragments} fragments</span>`).join('<br>') : '–'}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>`;
+}
+
+function renderConcurrency(c) {
+  const flags = [
+    c.serialized ? '⚠️ serialized – one stream at a time' : `peak ${c.peakParallel}/${c.streams} streams in parallel`,
+    c.hung.length ? `⏱️ ${c.hung.length} hung` : '',
+    c.starved.length ? `⚠️ ${c.starved.length} starved` : '',
+  ].filter(Boolean).join(' · ');
+  return `
+      <div class="muted">${flags}</div>
+      <table class="tool-call-table">
+        <thead><tr><th>#</th><th>Outcome</th><th>TTFB</th><th>1st Event</th><th>Total</th><th>Tok/s</th></tr></thead>
+        <tbody>
+          ${c.perStream.map(s => `
+          <tr>
+            <td>${s.index}${c.starved.includes(s.index) ? ' (starved)' : ''}</td>
+            <td><span class="outcome-badge outcome-${s.outcome.toLowerCase()}">${s.outcome}</span></td>
+            <td>${s.ttfbMs !== undefined ? `${s.ttfbMs} ms` : '–'}</td>
+            <td>${s.firstEventMs !== undefined ? `${s.firstEventMs} ms` : '–'}</td>
+            <td>${s.totalMs} ms</td>
+            <td>${s.tokensPerSec !== undefined ? s.tokensPerSec : '–'}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>`;
+}
+
+function renderParity(pi) {
+  const usage = u => u ? `${u.promptTokens}+${u.completionTokens}=${u.totalTokens}` : '–';
+  return `
+      <div class="muted">${pi.textMatches ? '✅ identical text' : `❌ text differs at char ${pi.firstDiffAt}`}</div>
+      <table class="tool-call-table">
+        <thead><tr><th>Mode</th><th>Outcome</th><th>Chars</th><th>finish_reason</th><th>Usage</th><th>Total</th></tr></thead>
+        <tbody>
+          ${[['stream:false', pi.nonStreaming], ['stream:true', pi.streaming]].map(([mode, s]) => `
+          <tr>
+            <td>${mode}</td>
+            <td><span class="outcome-badge outcome-${s.outcome.toLowerCase()}">${s.outcome}</span></td>
+            <td>${s.text.length}</td>
+            <td>${escapeHtml(s.finishReason || '–')}</td>
+            <td>${usage(s.usage)}</td>
+            <td>${s.totalMs} ms</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>
+      ${pi.divergences.length ? `
+      <ul class="anomaly-list">
+        ${pi.divergences.map(d => `<li><span class="anomaly-kind">divergence</span> ${escapeHtml(d)}</li>`).join('')}
+      </ul>` : ''}`;
+}
+
+function renderStructuredOutput(so) {
+  const verdict = a => a.outcome !== 'OK' ? '–' : a.honoured ? '✅ honoured' : a.validJson ? '❌ wrong shape' : '❌';
+  return `
+      <div class="muted">stream:false ${so.nonStreamingHonoured ? '✅' : '❌'} · stream:true ${so.streamingHonoured ? '✅' : '❌'}</div>
+      <table class="tool-call-table">
+        <thead><tr><th>Format</th><th>Mode</th><th>Outcome</th><th>Result</th><th>Total</th><th>Reply</th></tr></thead>
+        <tbody>
+          ${so.variants.flatMap(v => [['stream:false', v.nonStreaming], ['stream:true', v.streaming]].map(([mode, a]) => `
+          <tr>
+            <td><code>${escapeHtml(v.format)}</code></td>
+            <td>${mode}</td>
+            <td><span class="outcome-badge outcome-${a.outcome.toLowerCase()}">${a.outcome}</span></td>
+            <td>${verdict(a)}${a.formatErrors.length ? `<br><span class="muted">${a.formatErrors.slice(0, 3).map(escapeHtml).join('<br>')}</span>` : ''}</td>
+            <td>${a.totalMs} ms</td>
+            <td><code>${escapeHtml(a.text.slice(0, 120) || '–')}</code></td>
+          </tr>`)).join('')}
+        </tbody>
+      </table>`;
+}
+
+function renderErrorContract(ec) {
+  return `
+      <table class="tool-call-table">
+        <thead><tr><th>Bad request</th><th>Outcome</th><th>Status</th><th>Content-Type</th><th>Total</th><th>Contract</th></tr></thead>
+        <tbody>
+          ${ec.cases.map(c => `
+          <tr>
+            <td title="${escapeHtml(c.description)}">${escapeHtml(c.name)}</td>
+            <td><span class="outcome-badge outcome-${c.outcome.toLowerCase()}">${c.outcome}</span></td>
+            <td>${c.httpStatus ?? '–'}</td>
+            <td>${escapeHtml(c.contentType || '–')}</td>
+            <td>${c.totalMs} ms</td>
+            <td title="${escapeHtml(c.body || '')}">${c.violations.length ? c.violations.map(v => `❌ ${escapeHtml(v)}`).join('<br>') : '✅ OpenAI-shaped error'}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>`;
+}
+
+function renderTransport(t) {
+  const ms = v => v === undefined ? '–' : `${v} ms`;
+  const h = name => escapeHtml(t.headers[name] || '–');
+  return `
+      <table class="tool-call-table">
+        <tbody>
+          <tr><td>Socket</td><td>connect ${ms(t.connectMs)}${t.protocol === 'https:' ? ` · TLS ${ms(t.tlsMs)}` : ''} · headers ${ms(t.headersMs)} · HTTP/${escapeHtml(t.httpVersion || '?')} ${t.httpStatus ?? '–'}</td></tr>
+          <tr><td>Headers</td><td>transfer-encoding=<code>${h('transfer-encoding')}</code> connection=<code>${h('connection')}</code> content-type=<code>${h('content-type')}</code></td></tr>
+          <tr><td>Reads</td><td>${t.readCount} reads · ${t.bodyBytes} bytes · ${t.eventCount} events${t.longestSilence ? ` · longest silence ${t.longestSilence.ms} ms after read ${t.longestSilence.afterRead}` : ''}${t.buffering ? ' · ⚠️ one burst' : ''}</td></tr>
+          ${t.frameCount !== undefined ? `<tr><td>Chunk frames</td><td>${t.frameCount} frames · up to ${t.maxFramesPerRead ?? 0} per read · end ${ms(t.endMs)}</td></tr>` : ''}
+          <tr><td>Keep-alive</td><td>[DONE] ${ms(t.doneMs)} · ${t.closedAfterEnd ? `closed ${t.closedAfterEndMs ?? '?'} ms after end` : 'kept open'} · socket reused ${t.socketReused === undefined ? '–' : t.socketReused ? '✅' : '❌'}</td></tr>
+        </tbody>
+      </table>`;
+}
+
+function renderClientCompat(cc) {
+  return `
+      <div class="muted">${cc.source === 'recording' ? 'Recorded' : 'Live'} stream · ${cc.bytes} bytes in ${cc.byteChunks} chunks · body ${escapeHtml(cc.bodyEnd)}</div>
+      <table class="tool-call-table">
+        <thead><tr><th>Client</th><th>Outcome</th><th>Chunks</th><th>Text</th><th>finish_reason</th><th>[DONE]</th><th>Detail</th></tr></thead>
+        <tbody>
+          ${cc.clients.map(c => `
+          <tr>
+            <td title="${escapeHtml(c.description)}"><code>${escapeHtml(c.client)}</code></td>
+            <td><span class="outcome-badge outcome-${c.outcome.toLowerCase()}">${c.outcome}</span></td>
+            <td>${c.chunks}</td>
+            <td>${c.textLength} chars</td>
+            <td>${escapeHtml(c.finishReason || '–')}</td>
+            <td>${c.doneReceived === undefined ? '–' : c.doneReceived ? '✅' : '❌'}</td>
+            <td>${escapeHtml(c.detail || '')}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>`;
+}
+
+function renderContextRamp(r) {
+  const tokens = n => n % 1024 === 0 ? `${n / 1024}k` : String(n);
+  const flags = [
+    r.failsAt !== undefined ? `❌ fails at ~${tokens(r.failsAt)} tokens` : '✅ no failures',
+    r.latencyExplodesAt !== undefined ? `⚠️ latency explodes at ~${tokens(r.latencyExplodesAt)} tokens` : '',
+  ].filter(Boolean).join(' · ');
+  return `
+      <div class="muted">${flags}</div>
+      ${renderRampChart(r.steps, tokens)}
+      <table class="tool-call-table">
+        <thead><tr><th>Filler</th><th>Prompt tokens</th><th>stream:false</th><th>Total</th><th>stream:true</th><th>TTFB</th><th>1st Event</th></tr></thead>
+        <tbody>
+          ${r.steps.map(s => `
+          <tr>
+            <td>~${tokens(s.targetTokens)}</td>
+            <td>${s.promptTokens ?? '–'}</td>
+            <td><span class="outcome-badge outcome-${s.nonStreaming.outcome.toLowerCase()}">${s.nonStreaming.outcome}</span></td>
+            <td>${s.nonStreaming.totalMs} ms</td>
+            <td><span class="outcome-badge outcome-${s.streaming.outcome.toLowerCase()}">${s.streaming.outcome}</span></td>
+            <td>${s.streaming.ttfbMs !== undefined ? `${s.streaming.ttfbMs} ms` : '–'}</td>
+            <td>${s.streaming.firstEventMs !== undefined ? `${s.streaming.firstEventMs} ms` : '–'}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>`;
+}
+
+/**
+ * Inline SVG line chart of the ramp: stream:false total time and stream:true
+ * first-event time per prompt size. Sizes double, so they are evenly spaced.
+ * A failed request is a red dot at the time it gave up.
+ */
+function renderRampChart(steps, tokens) {
+  const W = 480, H = 180, left = 56, right = 12, top = 12, bottom = 28;
+  const series = [
+    { name: 'stream:false total', cls: 'ramp-line-ns', point: s => ({ ms: s.nonStreaming.totalMs, ok: s.nonStreaming.outcome === 'OK', outcome: s.nonStreaming.outcome }) },
+    { name: 'stream:true 1st event', cls: 'ramp-line-s', point: s => ({ ms: s.streaming.firstEventMs ?? s.streaming.totalMs, ok: s.streaming.outcome === 'OK', outcome: s.streaming.outcome }) },
+  ];
+  const maxMs = Math.max(1, ...steps.flatMap(s => series.map(se => se.point(s).ms)));
+  const x = i => left + (steps.length === 1 ? (W - left - right) / 2 : (i * (W - left - right)) / (steps.length - 1));
+  const y = ms => top + (H - top - bottom) * (1 - ms / maxMs);
+
+  const lines = series.map(se => {
+    const pts = steps.map((s, i) => ({ i, ...se.point(s) }));
+    const path = pts.filter(p => p.ok).map(p => `${x(p.i).toFixed(1)},${y(p.ms).toFixed(1)}`).join(' ');
+    return `
+        <polyline class="${se.cls}" points="${path}" />
+        ${pts.map(p => `<circle class="${p.ok ? se.cls : 'ramp-fail'}" cx="${x(p.i).toFixed(1)}" cy="${y(p.ms).toFixed(1)}" r="3.5"><title>${se.name} ~${tokens(steps[p.i].targetTokens)}: ${p.outcome} ${p.ms} ms</title></circle>`).join('')}`;
+  }).join('');
+
+  return `
+      <svg class="ramp-chart" viewBox="0 0 ${W} ${H}" role="img" aria-label="Latency by prompt size">
+        <line class="ramp-axis" x1="${left}" y1="${H - bottom}" x2="${W - right}" y2="${H - bottom}" />
+        <line class="ramp-axis" x1="${left}" y1="${top}" x2="${left}" y2="${H - bottom}" />
+        <text class="ramp-label" x="${left - 6}" y="${top + 4}" text-anchor="end">${maxMs} ms</text>
+        <text class="ramp-label" x="${left - 6}" y="${H - bottom}" text-anchor="end">0</text>
+        ${steps.map((s, i) => `<text class="ramp-label" x="${x(i).toFixed(1)}" y="${H - bottom + 16}" text-anchor="middle">${tokens(s.targetTokens)}</text>`).join('')}
+        ${lines}
+      </svg>
+      <div class="muted"><span class="ramp-key ramp-line-ns"></span> stream:false total · <span class="ramp-key ramp-line-s"></span> stream:true 1st event · <span class="ramp-key ramp-fail"></span> failed</div>`;
+}
+
+function renderResponses(r) {
+  const events = Object.entries(r.eventCounts).map(([type, n]) => `<code>${escapeHtml(type)}</code>${n > 1 ? ` ×${n}` : ''}`).join(' · ');
+  return `
+      <div class="muted">terminal: ${escapeHtml(r.terminalEvent || 'none')} · status: ${escapeHtml(r.status || '?')}${r.textMatchesDone === false ? ' · ❌ output_text.done differs from deltas' : ''}</div>
+      <div class="muted">${events || 'no events'}</div>
+      ${r.violations.length ? `
+      <ul class="anomaly-list">
+        ${r.violations.map(v => `<li><span class="anomaly-kind">event sequence</span> ${escapeHtml(v)}</li>`).join('')}
+      </ul>` : ''}`;
+}
+
+function renderCompletions(c) {
+  return `
+      <div class="muted">text chunks: ${c.textChunks} · finish_reason: ${escapeHtml(c.finishReason || 'none')} · [DONE]: ${c.doneReceived ? 'yes' : 'no'}${c.chatShapedChunks ? ` · ❌ ${c.chatShapedChunks} chat-shaped chunks` : ''}</div>
+      ${c.violations.length ? `
+      <ul class="anomaly-list">
+        ${c.violations.map(v => `<li><span class="anomaly-kind">text_completion</span> ${escapeHtml(v)}</li>`).join('')}
+      </ul>` : ''}`;
+}
+
 function probeDisplayName(probe) {
   const names = {
     'non-streaming': '📡 Probe 1: Non-streaming (stream: false)',
     'raw-streaming': '🌊 Probe 2: Raw SSE Streaming',
     'copilot-sdk-streaming': '🔧 Probe 3: Copilot SDK BYOK Streaming',
+    'tool-calling-streaming': '🛠️ Probe 4: Tool-calling Streaming',
+    'cancellation-recovery': '✂️ Probe 5: Cancellation & Recovery',
+    'concurrent-streaming': '🔀 Probe 6: Concurrent Streaming',
+    'stream-parity': '⚖️ Probe 7: Stream Parity',
+    'responses-streaming': '📨 Probe 8: Responses API Streaming',
+    'completions-streaming': '📝 Probe 9: Legacy Completions Streaming',
+    'context-ramp': '📈 Probe 10: Context-Length Ramp',
+    'structured-output': '🧾 Probe 11: Structured Output',
+    'error-contract': '🚫 Probe 12: Error-path Contract',
+    'http-transport': '🔌 Probe 13: HTTP Transport',
+    'client-compat': '🧪 Probe 14: Client Parser Compatibility',
   };
-  return names[probe] || probe;
+  if (names[probe]) return names[probe];
+  const i = probeCatalog.findIndex(p => p.name === probe);
+  return i === -1 ? probe : `🧩 Probe ${i + 1}: ${probeCatalog[i].description}`;
 }
 
 // ── Benchmark ────────────────────────────────────────────
@@ -263,6 +623,8 @@ async function runBenchmark() {
 
 function renderBenchmarkReport(el, report) {
   const entries = report.entries || [];
+  // One row per model × scenario; the column only appears when the suite has several
+  const multiScenario = new Set(entries.map(e => e.scenario)).size > 1;
 
   let html = `
     <div style="overflow-x:auto">
@@ -270,11 +632,16 @@ function renderBenchmarkReport(el, report) {
       <thead>
         <tr>
           <th>Model</th>
+          ${multiScenario ? '<th>Scenario</th>' : ''}
           <th>Non-Stream</th>
           <th>Streaming</th>
+          <th>Completions</th>
+          <th>JSON Mode</th>
           <th>Chunks</th>
           <th>TTFB</th>
           <th>1st Event</th>
+          <th>p95 Gap</th>
+          <th>Tok/s</th>
           <th>Verdict</th>
         </tr>
       </thead>
@@ -283,20 +650,33 @@ function renderBenchmarkReport(el, report) {
 
   for (const e of entries) {
     const nsIcon = e.nonStreaming.outcome === 'OK' ? '✅' : '❌';
-    const sIcon = e.streaming.outcome === 'OK' ? '✅' : '❌';
+    const sIcon = e.streaming.outcome === 'OK' ? '✅' : e.streaming.outcome === 'NON_CONFORMANT' ? '⚠️' : '❌';
+    const cOutcome = e.completionsStreaming ? e.completionsStreaming.outcome : '–';
+    const cIcon = cOutcome === 'OK' ? '✅' : cOutcome === 'NON_CONFORMANT' ? '⚠️' : cOutcome === '–' ? '' : '❌';
+    const so = e.structuredOutput;
+    const jsonMode = so
+      ? `${so.nonStreamingHonoured ? '✅' : '❌'} / ${so.streamingHonoured ? '✅' : '❌'}`
+      : '–';
     const chunks = e.streaming.chunkCount ?? '–';
     const ttfb = e.streaming.timings.ttfbMs !== undefined ? `${e.streaming.timings.ttfbMs}ms` : '–';
     const firstEvt = e.streaming.timings.firstEventMs !== undefined ? `${e.streaming.timings.firstEventMs}ms` : '–';
+    const p95Gap = e.streaming.timings.chunkGaps ? `${e.streaming.timings.chunkGaps.p95Ms}ms` : '–';
+    const tps = e.streaming.timings.tokensPerSec ?? '–';
     const verdictClass = `verdict-${e.verdict.toLowerCase()}`;
 
     html += `
       <tr>
         <td>${escapeHtml(e.model)}</td>
+        ${multiScenario ? `<td>${escapeHtml(e.scenario)}</td>` : ''}
         <td>${nsIcon} ${e.nonStreaming.outcome}</td>
         <td>${sIcon} ${e.streaming.outcome}</td>
+        <td title="${escapeHtml(e.completionsStreaming?.error || '')}">${cIcon} ${cOutcome}</td>
+        <td title="stream:false / stream:true – ${escapeHtml(e.structuredStreaming || '')}">${jsonMode}</td>
         <td>${chunks}</td>
         <td>${ttfb}</td>
         <td>${firstEvt}</td>
+        <td>${p95Gap}</td>
+        <td>${tps}</td>
         <td><span class="verdict-badge ${verdictClass}">${e.verdict}</span></td>
       </tr>
     `;
@@ -319,12 +699,77 @@ function renderBenchmarkReport(el, report) {
         <div class="stat-value" style="color: var(--red)">${report.modelsWithoutStreaming}</div>
         <div class="stat-label">Streaming Fail</div>
       </div>
+      <div class="summary-stat">
+        <div class="stat-value">${report.modelsWithCompletionsStreaming ?? '–'}</div>
+        <div class="stat-label">Completions Streaming OK</div>
+      </div>
+      <div class="summary-stat">
+        <div class="stat-value">${report.modelsWithStructuredStreaming ?? '–'}</div>
+        <div class="stat-label">JSON Mode Streaming OK</div>
+      </div>
     </div>
   `;
 
   el.innerHTML = html;
 }
 
+// ── Proxy Sessions ───────────────────────────────────────
+
+async function loadProxySessions() {
+  const el = $('proxy-sessions');
+  showLoading(el, 'Loading proxy sessions...');
+
+  try {
+    const data = await api('/api/proxy-sessions');
+    renderProxySessions(el, data);
+  } catch (err) {
+    showError(el, err.message);
+  }
+}
+
+function renderProxySessions(el, data) {
+  const sessions = data.sessions;
+  const failed = sessions.filter(s => s.outcome !== 'OK');
+  const ms = v => v === undefined ? '–' : `${v} ms`;
+  el.innerHTML = `
+    <div class="benchmark-summary">
+      <div class="summary-stat">
+        <div class="stat-value">${sessions.length}</div>
+        <div class="stat-label">Exchanges</div>
+      </div>
+      <div class="summary-stat">
+        <div class="stat-value">${sessions.filter(s => s.stream).length}</div>
+        <div class="stat-label">Streams</div>
+      </div>
+      <div class="summary-stat">
+        <div class="stat-value">${failed.length}</div>
+        <div class="stat-label">Not OK</div>
+      </div>
+    </div>
+    <div class="muted">Newest first · ${escapeHtml(data.path)}</div>
+    <table class="tool-call-table">
+      <thead><tr><th>Started</th><th>Request</th><th>Model</th><th>Outcome</th><th>Status</th><th>TTFB</th><th>1st Event</th><th>Total</th><th>Events</th><th>Longest gap</th><th>Ended by</th><th>Hash</th></tr></thead>
+      <tbody>
+        ${sessions.slice(0, 200).map(s => `
+        <tr title="${escapeHtml(s.userAgent || '')}">
+          <td>${escapeHtml(new Date(s.startedAt).toLocaleTimeString())}</td>
+          <td><code>${escapeHtml(s.method)} ${escapeHtml(s.path)}</code>${s.stream ? ' 🌊' : ''}</td>
+          <td>${escapeHtml(s.model || '–')}</td>
+          <td><span class="outcome-badge outcome-${s.outcome.toLowerCase()}">${s.outcome}</span></td>
+          <td>${s.httpStatus ?? '–'}</td>
+          <td>${ms(s.timings.ttfbMs)}</td>
+          <td>${ms(s.timings.firstEventMs)}</td>
+          <td>${ms(s.timings.totalMs)}</td>
+          <td>${s.eventCount ?? '–'}${s.doneReceived === false ? ' · no [DONE]' : ''}${s.buffering ? ' · ⚠️ one burst' : ''}</td>
+          <td>${s.silentForMs !== undefined ? `${s.silentForMs} ms at end` : s.timings.longestStall ? `${s.timings.longestStall.ms} ms after #${s.timings.longestStall.afterChunk}` : '–'}</td>
+          <td>${s.endedBy}</td>
+          <td><code>${escapeHtml(s.payloadHash)}</code></td>
+        </tr>${s.error || s.recordingPath ? `
+        <tr><td></td><td colspan="11" class="muted">${[s.error ? escapeHtml(s.error) : '', s.recordingPath ? `recording <code>${escapeHtml(s.recordingPath)}</code>` : ''].filter(Boolean).join(' · ')}</td></tr>` : ''}`).join('')}
+      </tbody>
+    </table>`;
+}
+
 // ── Report Loading ───────────────────────────────────────
 
 async function loadReport() {
@@ -360,12 +805,14 @@ function disableAllButtons() {
 function enableAllButtons() {
   $('btn-detect').disabled = false;
   $('btn-refresh-models').disabled = false;
+  $('btn-proxy-sessions').disabled = false;
   enableProbeButtons();
 }
 
 // ── Auto-detect on load ──────────────────────────────────
 
 window.addEventListener('DOMContentLoaded', () => {
+  loadProbeCatalog();
   detectService();
 });
 
@@ -5,11 +5,13 @@
  * API Routes:
  *   GET  /api/status          – Detect Foundry Local service
  *   GET  /api/models          – List available models
- *   POST /api/probes/all      – Run all three probes for a model
- *   POST /api/probe/:name     – Run a single probe
+ *   GET  /api/probes          – List registered probes (built-in + CUSTOM_PROBES_PATH) and prompt scenarios
+ *   POST /api/probes/all      – Run all probes for a model, once per prompt scenario (REPEAT_COUNT times)
+ *   POST /api/probe/:name     – Run a single probe by registry name (optional `scenario`)
  *   POST /api/benchmark       – Run multi-model benchmark
  *   GET  /api/report          – Latest probe report
  *   GET  /api/benchmark-report – Latest benchmark report
+ *   GET  /api/proxy-sessions  – Exchanges recorded by the proxy (npm run proxy), newest first
  *
  * Usage:
  *   node dist/web/server.js           (after build)
@@ -23,15 +25,25 @@ import { loadConfig, type AppConfig } from "../config";
 import { detectFoundryService, formatServiceInfo } from "../service/detect";
 import { fetchModelCatalog, type FoundryModel } from "../models/catalog";
 import { resolveModelId } from "../models/resolver";
-import { runNonStreamingProbe } from "../probes/non-streaming";
-import { runRawStreamingProbe } from "../probes/raw-streaming";
-import { runCopilotSdkStreamingProbe } from "../probes/copilot-sdk-streaming";
+import { loadProbes, runProbe, type Probe } from "../probes/registry";
 import { writeReport, printSummary } from "../report";
-import { testNonStreaming, testStreaming } from "../benchmark/runner";
+import {
+  testNonStreaming,
+  testStreaming,
+  testCompletionsStreaming,
+  testStructuredOutput,
+  deriveVerdict,
+  deriveStreamingApis,
+  deriveStructuredStreaming,
+  countModels,
+} from "../benchmark/runner";
+import { DEFAULT_BENCHMARK_SUITE, DEFAULT_PROBE_SUITE, loadPromptSuite } from "../prompts/suite";
+import { loadClientProfile, profileLabel } from "../prompts/client-profiles";
 import type { ProbeResult } from "../types";
 import type { ModelBenchmarkEntry, BenchmarkReport } from "../benchmark/types";
 import { writeFileSync } from "node:fs";
 import { getVersionInfo, type VersionInfo } from "../utils/version";
+import { readProxySessions, PROXY_SESSIONS_PATH } from "../proxy/sessions";
 
 const app = express();
 app.use(express.json());
@@ -49,13 +61,26 @@ const BENCHMARK_PATH = resolve(process.cwd(), "benchmark-report.json");
 /** Shared config – loaded once, mutated when auto-detect fills in URL */
 let cfg: AppConfig;
 
+/** Registered probes – loaded once with the config */
+let probes: Probe[] | undefined;
+
 // ── Helpers ──────────────────────────────────────────────
 
 function ensureConfig(): AppConfig {
-  if (!cfg) cfg = loadConfig();
+  if (!cfg) {
+    const c = loadConfig();
+    // Throws on an unknown COPILOT_CLIENT_PROFILE – the config stays unset until it is fixed
+    c.clientProfile = loadClientProfile(c.copilotClientProfile);
+    cfg = c;
+  }
   return cfg;
 }
 
+function ensureProbes(): Probe[] {
+  if (!probes) probes = loadProbes(ensureConfig());
+  return probes;
+}
+
 async function ensureBaseUrl(): Promise<string> {
   const c = ensureConfig();
 
@@ -120,6 +145,28 @@ app.get("/api/models", async (_req, res) => {
   }
 });
 
+// ── API: Probe registry ──────────────────────────────────
+
+app.get("/api/probes", (_req, res) => {
+  try {
+    const c = ensureConfig();
+    // Re-read on every request so edits to the suite file show up without a restart
+    const suite = loadPromptSuite(c.promptSuite, DEFAULT_PROBE_SUITE);
+    res.json({
+      probes: ensureProbes().map((p) => ({
+        name: p.name,
+        label: p.label ?? p.name,
+        description: p.description,
+        skipReason: p.skipReason?.(c),
+      })),
+      promptSuite: suite.name,
+      scenarios: suite.scenarios.map((s) => ({ name: s.name, description: s.description })),
+    });
+  } catch (err) {
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+});
+
 // ── API: Run all probes ──────────────────────────────────
 
 app.post("/api/probes/all", async (req, res) => {
@@ -135,45 +182,26 @@ app.post("/api/probes/all", async (req, res) => {
     c.foundryModel = resolvedModel;
     console.log(`[probes/all] Model: ${model}${model !== resolvedModel ? ` → ${resolvedModel}` : ""}`);
 
+    const suite = loadPromptSuite(c.promptSuite, DEFAULT_PROBE_SUITE);
     const results: ProbeResult[] = [];
-
-    // Probe 1
-    try {
-      results.push(await runNonStreamingProbe(c));
-    } catch (err) {
-      results.push({
-        probe: "non-streaming",
-        outcome: "ERROR",
-        timings: { startMs: Date.now(), endMs: Date.now(), totalMs: 0 },
-        error: String(err),
-        payloadHash: "unknown",
-      });
-    }
-
-    // Probe 2
-    try {
-      results.push(await runRawStreamingProbe(c));
-    } catch (err) {
-      results.push({
-        probe: "raw-streaming",
-        outcome: "ERROR",
-        timings: { startMs: Date.now(), endMs: Date.now(), totalMs: 0 },
-        error: String(err),
-        payloadHash: "unknown",
-      });
-    }
-
-    // Probe 3
-    try {
-      results.push(await runCopilotSdkStreamingProbe(c));
-    } catch (err) {
-      results.push({
-        probe: "copilot-sdk-streaming",
-        outcome: "ERROR",
-        timings: { startMs: Date.now(), endMs: Date.now(), totalMs: 0 },
-        error: String(err),
-        payloadHash: "unknown",
-      });
+    // WARMUP_RUNS (discarded) then REPEAT_COUNT measured runs, as in the CLI
+    for (let run = 1 - c.warmupRuns; run <= c.repeatCount; run++) {
+      if (run < 1 || c.repeatCount > 1) {
+        console.log(`[probes/all] ${run < 1 ? `Warmup ${run + c.warmupRuns}/${c.warmupRuns}` : `Run ${run}/${c.repeatCount}`}`);
+      }
+      for (const scenario of suite.scenarios) {
+        const scenarioCfg = { ...c, scenario };
+        for (const probe of ensureProbes()) {
+          const skip = probe.skipReason?.(scenarioCfg);
+          if (skip) {
+            console.log(`[probes/all] Skipping ${probe.name} (${skip})`);
+            continue;
+          }
+          const result = await runProbe(probe, scenarioCfg);
+          if (run < 1) continue;
+          results.push(c.repeatCount > 1 ? { ...result, run } : result);
+        }
+      }
     }
 
     const report = writeReport(c, results);
@@ -189,9 +217,19 @@ app.post("/api/probes/all", async (req, res) => {
 
 app.post("/api/probe/:name", async (req, res) => {
   try {
-    const { model } = req.body as { model?: string };
+    const { model, scenario: scenarioName } = req.body as { model?: string; scenario?: string };
     if (!model) return res.status(400).json({ error: "model is required" });
 
+    const probe = ensureProbes().find((p) => p.name === req.params.name);
+    if (!probe) return res.status(400).json({ error: `Unknown probe: ${req.params.name}` });
+
+    // Defaults to the suite's first scenario
+    const suite = loadPromptSuite(ensureConfig().promptSuite, DEFAULT_PROBE_SUITE);
+    const scenario = scenarioName
+      ? suite.scenarios.find((s) => s.name === scenarioName)
+      : suite.scenarios[0];
+    if (!scenario) return res.status(400).json({ error: `Unknown scenario: ${scenarioName}` });
+
     await ensureBaseUrl();
     const c = ensureConfig();
     
@@ -200,23 +238,7 @@ app.post("/api/probe/:name", async (req, res) => {
     c.foundryModel = resolvedModel;
     console.log(`[probe/${req.params.name}] Model: ${model}${model !== resolvedModel ? ` → ${resolvedModel}` : ""}`);
 
-    let result: ProbeResult;
-    const name = req.params.name;
-
-    switch (name) {
-      case "non-streaming":
-        result = await runNonStreamingProbe(c);
-        break;
-      case "raw-streaming":
-        result = await runRawStreamingProbe(c);
-        break;
-      case "copilot-sdk":
-        result = await runCopilotSdkStreamingProbe(c);
-        break;
-      default:
-        return res.status(400).json({ error: `Unknown probe: ${name}` });
-    }
-
+    const result = await runProbe(probe, { ...c, scenario });
     res.json(result);
   } catch (err) {
     res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
@@ -235,35 +257,37 @@ app.post("/api/benchmark", async (_req, res) => {
       return res.status(404).json({ error: "No models found in catalog" });
     }
 
+    const suite = loadPromptSuite(c.promptSuite, DEFAULT_BENCHMARK_SUITE);
     const entries: ModelBenchmarkEntry[] = [];
 
     for (const m of models) {
-      const nsResult = await testNonStreaming(c, m.id);
-      const sResult = await testStreaming(c, m.id);
-
-      const nsOk = nsResult.outcome === "OK";
-      const sOk = sResult.outcome === "OK";
-      let verdict: ModelBenchmarkEntry["verdict"];
-      if (nsOk && sOk) verdict = "BOTH_OK";
-      else if (nsOk && !sOk) verdict = "STREAM_ONLY_FAIL";
-      else if (!nsOk && sOk) verdict = "NON_STREAM_FAIL";
-      else verdict = "BOTH_FAIL";
-
-      entries.push({
-        model: m.id,
-        nonStreaming: nsResult,
-        streaming: sResult,
-        supportsStreaming: sOk,
-        verdict,
-      });
+      for (const scenario of suite.scenarios) {
+        const scenarioCfg = { ...c, scenario };
+        const nsResult = await testNonStreaming(scenarioCfg, m.id);
+        const sResult = await testStreaming(scenarioCfg, m.id);
+        const cResult = await testCompletionsStreaming(scenarioCfg, m.id);
+        const structuredOutput = await testStructuredOutput(scenarioCfg, m.id);
+
+        entries.push({
+          model: m.id,
+          scenario: scenario.name,
+          nonStreaming: nsResult,
+          streaming: sResult,
+          completionsStreaming: cResult,
+          structuredOutput,
+          ...deriveVerdict(nsResult, sResult),
+          ...deriveStreamingApis(sResult, cResult),
+          ...deriveStructuredStreaming(structuredOutput),
+        });
+      }
     }
 
     const report: BenchmarkReport = {
       timestamp: new Date().toISOString(),
       foundryBaseUrl: c.foundryBaseUrl,
-      totalModels: entries.length,
-      modelsWithStreaming: entries.filter((e) => e.supportsStreaming).length,
-      modelsWithoutStreaming: entries.filter((e) => !e.supportsStreaming).length,
+      promptSuite: c.promptSuite || suite.name,
+      clientProfile: profileLabel(c.clientProfile),
+      ...countModels(entries),
       entries,
     };
 
@@ -294,6 +318,18 @@ app.get("/api/benchmark-report", (_req, res) => {
   res.json(data);
 });
 
+app.get("/api/proxy-sessions", (_req, res) => {
+  try {
+    const sessions = readProxySessions().reverse();
+    if (sessions.length === 0) {
+      return res.status(404).json({ error: "No proxy sessions found. Run `npm run proxy` and send traffic through it first." });
+    }
+    res.json({ path: PROXY_SESSIONS_PATH, sessions });
+  } catch (err) {
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+});
+
 // ── Fallback to index.html for SPA ──────────────────────
 
 app.get("/{*path}", (_req, res) => {